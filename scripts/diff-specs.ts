@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+/* eslint-disable node/prefer-global/process */
+
+/**
+ * Compare two versions of an OpenAPI spec and list breaking changes
+ *
+ * Usage:
+ *   tsx scripts/diff-specs.ts <old.json> <new.json>
+ *   tsx scripts/diff-specs.ts <spec.json> [--base <git-ref>]   (defaults to HEAD)
+ *
+ * Specs may be JSON or YAML (.yaml/.yml), OpenAPI 3 or Swagger 2.0; external $refs are followed.
+ *
+ * Flags:
+ *   --json               Print the raw diff as JSON
+ *   --fail-on-breaking   Exit with code 1 when breaking changes are found
+ */
+
+import type { OpenAPIDocument } from '../src/types.js'
+import { execSync } from 'node:child_process'
+import { relative } from 'node:path'
+import { bundleSpecFile, DocumentCache } from '../src/spec-bundler.js'
+import { diffSpecs } from '../src/spec-diff.js'
+import { parseSpec } from '../src/spec-loader.js'
+import { convertSwagger2, isSwagger2 } from '../src/swagger-converter.js'
+
+interface Options {
+  files: string[]
+  base: string
+  json: boolean
+  failOnBreaking: boolean
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { files: [], base: 'HEAD', json: false, failOnBreaking: false }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === '--json') {
+      options.json = true
+    }
+    else if (arg === '--fail-on-breaking') {
+      options.failOnBreaking = true
+    }
+    else if (arg === '--base') {
+      options.base = args[++i] || 'HEAD'
+    }
+    else {
+      options.files.push(arg)
+    }
+  }
+
+  return options
+}
+
+async function readSpec(file: string): Promise<OpenAPIDocument> {
+  return toOpenAPI3(await bundleSpecFile(file))
+}
+
+// Files referenced via $ref are read at the same revision as the spec
+function readSpecAtRevision(file: string, revision: string): Promise<OpenAPIDocument> {
+  const show = async (path: string) => {
+    const content = execSync(`git show ${revision}:${relative(process.cwd(), path)}`, { encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 })
+    return parseSpec(content, path)
+  }
+  return bundleSpecFile(file, { cache: new DocumentCache(show) }).then(toOpenAPI3)
+}
+
+// Swagger 2.0 specs are compared the way the MCP server sees them
+function toOpenAPI3(spec: OpenAPIDocument): OpenAPIDocument {
+  return isSwagger2(spec) ? convertSwagger2(spec).spec : spec
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (options.files.length === 0 || options.files.length > 2) {
+    console.error('Usage: tsx scripts/diff-specs.ts <old.json> <new.json> | <spec.json> [--base <git-ref>] [--json] [--fail-on-breaking]')
+    process.exit(1)
+  }
+
+  let before: OpenAPIDocument
+  let after: OpenAPIDocument
+  let label: string
+
+  try {
+    if (options.files.length === 2) {
+      before = await readSpec(options.files[0]!)
+      after = await readSpec(options.files[1]!)
+      label = `${options.files[0]} → ${options.files[1]}`
+    }
+    else {
+      before = await readSpecAtRevision(options.files[0]!, options.base)
+      after = await readSpec(options.files[0]!)
+      label = `${options.files[0]} (${options.base} → working tree)`
+    }
+  }
+  catch (error) {
+    console.error('❌ Failed to read specs:', error)
+    process.exit(1)
+  }
+
+  const diff = diffSpecs(before, after)
+
+  if (options.json) {
+    console.log(JSON.stringify(diff, null, 2))
+  }
+  else {
+    console.log(`🔍 Comparing ${label}\n`)
+
+    if (diff.changes.length === 0) {
+      console.log('✅ No changes')
+    }
+
+    for (const [title, breaking] of [['💥 Breaking changes', true], ['✨ Non-breaking changes', false]] as const) {
+      const changes = diff.changes.filter(change => change.breaking === breaking)
+      if (changes.length === 0) {
+        continue
+      }
+
+      console.log(`${title} (${changes.length}):`)
+      for (const change of changes) {
+        console.log(`   - ${change.operation}${change.location ? ` [${change.location}]` : ''}: ${change.message}`)
+      }
+      console.log('')
+    }
+
+    console.log(`📊 ${diff.summary.breaking} breaking, ${diff.summary.nonBreaking} non-breaking`)
+  }
+
+  if (options.failOnBreaking && diff.summary.breaking > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Spec diff failed:', error)
+  process.exit(1)
+})
@@ -1,9 +1,13 @@
 #!/usr/bin/env tsx
 /* eslint-disable node/prefer-global/process */
 
+import type { ApifulConfig } from 'apiful/config'
 import { execSync } from 'node:child_process'
-import { existsSync, readdirSync, statSync } from 'node:fs'
-import { join } from 'node:path'
+import { existsSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { bundleSpecFile } from '../src/spec-bundler.js'
 
 const OPENAPI_SPECS_DIR = 'openapi-specs'
 
@@ -39,15 +43,42 @@ function findServiceDirectories(baseDir: string): string[] {
   return serviceDirs
 }
 
-function generateTypes(serviceDir: string): void {
+/**
+ * Write a copy of a service's apiful config whose local schemas are bundled into single files
+ *
+ * openapi-typescript would read split specs on its own terms; bundling first gives
+ * the types exactly the document the MCP server loads.
+ */
+async function bundleServices(serviceDir: string, outDir: string): Promise<void> {
+  const { default: config } = await import(pathToFileURL(resolve(serviceDir, 'apiful.config.ts')).href) as { default: ApifulConfig }
+  const services: Record<string, unknown> = {}
+
+  for (const [id, service] of Object.entries(config.services ?? {})) {
+    if (typeof service.schema === 'string' && !service.schema.startsWith('http')) {
+      const spec = await bundleSpecFile(resolve(serviceDir, service.schema), { root: resolve(OPENAPI_SPECS_DIR) })
+      writeFileSync(join(outDir, `${id}.json`), JSON.stringify(spec))
+      services[id] = { ...service, schema: `./${id}.json` }
+    }
+    else {
+      services[id] = service
+    }
+  }
+
+  writeFileSync(join(outDir, 'apiful.config.json'), JSON.stringify({ ...config, services }))
+}
+
+async function generateTypes(serviceDir: string): Promise<void> {
   const serviceName = serviceDir.split('/').pop() || 'unknown'
-  const absolutePath = join(process.cwd(), serviceDir)
+  const outfile = join(process.cwd(), serviceDir, 'types.d.ts')
+  const bundleDir = mkdtempSync(join(tmpdir(), `sufetch-types-${serviceName}-`))
 
   console.log(`\n🔨 Generating types for service: ${serviceName}`)
   console.log(`📁 Directory: ${serviceDir}`)
 
   try {
-    const command = `pnpm apiful generate --root ${absolutePath} --outfile=./types.d.ts`
+    await bundleServices(serviceDir, bundleDir)
+
+    const command = `pnpm apiful generate --root ${bundleDir} --outfile=${outfile}`
     console.log(`⚡ Running: ${command}`)
 
     execSync(command, {
@@ -61,9 +92,12 @@ function generateTypes(serviceDir: string): void {
     console.error(`❌ Failed to generate types for ${serviceName}:`, error)
     process.exit(1)
   }
+  finally {
+    rmSync(bundleDir, { recursive: true, force: true })
+  }
 }
 
-function main(): void {
+async function main(): Promise<void> {
   console.log('🚀 Starting type generation for all OpenAPI specs...\n')
 
   const serviceDirs = findServiceDirectories(OPENAPI_SPECS_DIR)
@@ -77,10 +111,13 @@ function main(): void {
   serviceDirs.forEach(dir => console.log(`   - ${dir}`))
 
   for (const serviceDir of serviceDirs) {
-    generateTypes(serviceDir)
+    await generateTypes(serviceDir)
   }
 
   console.log('\n🎉 All types generated successfully!')
 }
 
-main()
+main().catch((error) => {
+  console.error('❌ Type generation failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+/* eslint-disable node/prefer-global/process */
+
+/**
+ * Lint OpenAPI specs the way the MCP server loads them
+ *
+ * Usage:
+ *   tsx scripts/lint-specs.ts                 (every spec below openapi-specs)
+ *   tsx scripts/lint-specs.ts <spec.json> ...
+ *
+ * Specs may be JSON or YAML (.yaml/.yml), OpenAPI 3 or Swagger 2.0; external $refs are followed.
+ *
+ * Exits with code 1 when a spec has lint errors or cannot be read.
+ *
+ * Flags:
+ *   --json     Print the findings as JSON
+ *   --strict   Fail on warnings as well
+ */
+
+import type { LintReport } from '../src/spec-linter.js'
+import type { SpecFile } from '../src/spec-loader.js'
+import type { OpenAPIDocument } from '../src/types.js'
+import { basename, extname, relative, resolve } from 'node:path'
+import { isOpenAPI31, resolveSchemaIds } from '../src/json-schema.js'
+import { bundleSpec, DocumentCache } from '../src/spec-bundler.js'
+import { lintSpec } from '../src/spec-linter.js'
+import { isSpecDocument, scanSpecFiles, selectSpecFiles } from '../src/spec-loader.js'
+import { convertSwagger2, isSwagger2 } from '../src/swagger-converter.js'
+
+const OPENAPI_SPECS_DIR = 'openapi-specs'
+
+interface Options {
+  files: string[]
+  json: boolean
+  strict: boolean
+}
+
+interface Result {
+  file: string
+  report?: LintReport
+  /** Problems found while bundling and converting the spec */
+  warnings: string[]
+  /** Why the file could not be linted */
+  error?: string
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { files: [], json: false, strict: false }
+
+  for (const arg of args) {
+    if (arg === '--json') {
+      options.json = true
+    }
+    else if (arg === '--strict') {
+      options.strict = true
+    }
+    else {
+      options.files.push(arg)
+    }
+  }
+
+  return options
+}
+
+// Same steps as the MCP server: $id refs, external refs, then Swagger 2.0 conversion
+async function loadSpec(file: string, cache: DocumentCache, root?: string): Promise<{ spec: OpenAPIDocument, files: string[], warnings: string[] } | null> {
+  const document = await cache.load(file) as OpenAPIDocument
+  if (!isSpecDocument(document)) {
+    return null
+  }
+
+  const spec = isOpenAPI31(document) ? resolveSchemaIds({ ...document, paths: document.paths ?? {} }) : document
+  const bundled = await bundleSpec(spec, file, { root, cache })
+  if (!isSwagger2(bundled.spec)) {
+    return bundled
+  }
+
+  const converted = convertSwagger2(bundled.spec)
+  return { spec: converted.spec, files: bundled.files, warnings: [...bundled.warnings, ...converted.warnings] }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  const root = options.files.length > 0 ? undefined : OPENAPI_SPECS_DIR
+  const specFiles: SpecFile[] = options.files.length > 0
+    ? options.files.map(file => ({ key: basename(file, extname(file)), path: file }))
+    : selectSpecFiles(scanSpecFiles(OPENAPI_SPECS_DIR)).selected
+
+  const cache = new DocumentCache()
+  const loaded: Array<{ file: string, result: Awaited<ReturnType<typeof loadSpec>> | Error }> = []
+  for (const { path } of specFiles) {
+    const file = resolve(path)
+    try {
+      loaded.push({ file, result: await loadSpec(file, cache, root) })
+    }
+    catch (error) {
+      loaded.push({ file, result: error instanceof Error ? error : new Error(String(error)) })
+    }
+  }
+
+  // Files other specs pull in via $ref are linted as part of those specs
+  const referenced = new Set(loaded.flatMap(({ result }) => result && !(result instanceof Error) ? result.files : []))
+  const results: Result[] = []
+  for (const { file, result } of loaded) {
+    if (result instanceof Error) {
+      results.push({ file: relative(process.cwd(), file), warnings: [], error: result.message })
+    }
+    else if (result && !referenced.has(file)) {
+      results.push({ file: relative(process.cwd(), file), report: lintSpec(result.spec), warnings: result.warnings })
+    }
+  }
+
+  const failed = results.filter(result => result.error || result.report!.summary.errors > 0 || (options.strict && result.report!.summary.warnings > 0))
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2))
+  }
+  else {
+    console.log(`🔍 Linting ${results.length} spec(s)\n`)
+
+    for (const result of results) {
+      if (result.error) {
+        console.log(`❌ ${result.file}: ${result.error}\n`)
+        continue
+      }
+
+      const { issues, summary } = result.report!
+      console.log(`${summary.errors > 0 ? '❌' : summary.warnings > 0 ? '⚠️ ' : '✅'} ${result.file}: ${summary.errors} error(s), ${summary.warnings} warning(s)`)
+      for (const issue of issues) {
+        console.log(`   - ${issue.severity} ${issue.rule} [${issue.pointer}]: ${issue.message}`)
+      }
+      for (const warning of result.warnings) {
+        console.log(`   - load: ${warning}`)
+      }
+      console.log('')
+    }
+
+    console.log(failed.length > 0 ? `📊 ${failed.length} of ${results.length} spec(s) failed` : `📊 All ${results.length} spec(s) passed`)
+  }
+
+  if (failed.length > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Spec linting failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,75 @@
+/**
+ * Argument completion
+ *
+ * Suggestion lists for prompt arguments and resource template variables.
+ * Prefix matches come first, then case-insensitive substring matches, so
+ * typing "/v2/drop" offers "/v2/droplets" before paths that merely
+ * contain "drop".
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { listOperations, listWebhooks } from './spec-utils.js'
+import { collectTags } from './tags.js'
+
+/**
+ * Arguments of the prompt or resource template filled in so far
+ */
+export interface CompletionContext {
+  arguments?: Record<string, string>
+}
+
+/**
+ * Filter candidates by what has been typed so far
+ */
+export function completeValues(candidates: Iterable<string>, value: string): string[] {
+  const unique = Array.from(new Set(candidates))
+  const lower = value.toLowerCase()
+
+  const prefixed = unique.filter(candidate => candidate.toLowerCase().startsWith(lower))
+  const containing = unique.filter(candidate => !prefixed.includes(candidate) && candidate.toLowerCase().includes(lower))
+
+  return [...prefixed, ...containing]
+}
+
+/**
+ * Complete an endpoint path
+ */
+export function completePaths(spec: OpenAPIDocument, value: string): string[] {
+  return completeValues(Object.keys(spec.paths || {}), value)
+}
+
+/**
+ * Complete an HTTP method (uppercase), limited to the operations of a path when one is given
+ */
+export function completeMethods(spec: OpenAPIDocument, path: string | undefined, value: string): string[] {
+  const operations = listOperations(spec).filter(entry => !path || entry.path === path)
+  return completeValues(operations.map(entry => entry.method.toUpperCase()), value)
+}
+
+/**
+ * Complete a component schema name
+ */
+export function completeSchemaNames(spec: OpenAPIDocument, value: string): string[] {
+  return completeValues(Object.keys(spec.components?.schemas || {}), value)
+}
+
+/**
+ * Complete an operationId
+ */
+export function completeOperationIds(spec: OpenAPIDocument, value: string): string[] {
+  return completeValues(listOperations(spec).flatMap(entry => entry.operation.operationId ?? []), value)
+}
+
+/**
+ * Complete a webhook name
+ */
+export function completeWebhookNames(spec: OpenAPIDocument, value: string): string[] {
+  return completeValues(listWebhooks(spec).map(entry => entry.path), value)
+}
+
+/**
+ * Complete a tag name
+ */
+export function completeTags(spec: OpenAPIDocument, value: string): string[] {
+  return completeValues(collectTags(spec).tags.map(tag => tag.name), value)
+}
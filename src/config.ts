@@ -6,13 +6,33 @@
  */
 
 /* eslint-disable node/prefer-global/process */
+import { readFileSync } from 'node:fs'
 import { dirname, resolve } from 'node:path'
 import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+
+/**
+ * Where and how to send live requests for one API
+ */
+export interface ExecuteTarget {
+  /** Base URL override (defaults to the spec's first server) */
+  baseURL?: string
+  /** Default headers, typically credentials (e.g., Authorization) */
+  headers?: Record<string, string>
+}
+
+/**
+ * Transport the server listens on
+ */
+export type TransportMode = 'stdio' | 'http'
 
 export interface ServerConfig {
   /** Enable debug logging */
   debug: boolean
 
+  /** Environment settings that were invalid and ignored, reported at startup and by get_server_status */
+  warnings: string[]
+
   /** Cache configuration */
   cache: {
     /** Maximum number of code examples to cache */
@@ -27,6 +47,34 @@ export interface ServerConfig {
     specsDir: string
   }
 
+  /** How clients connect */
+  transport: {
+    /** `stdio` (one client per process) or `http` (Streamable HTTP and legacy SSE, many sessions) */
+    mode: TransportMode
+    /** Interface to bind in http mode */
+    host: string
+    /** Port to bind in http mode */
+    port: number
+    /** Bearer token required on every HTTP request (no auth when empty) */
+    authToken: string
+    /** Milliseconds without a request after which an HTTP session is closed (0 keeps sessions open) */
+    sessionIdleTimeout: number
+  }
+
+  /** Hot reload of specs and type definitions */
+  watch: {
+    /** Watch specsDir and reload changed APIs */
+    enabled: boolean
+    /** Quiet period in milliseconds before a batch of file changes is applied */
+    debounce: number
+  }
+
+  /** Tool output limits */
+  output: {
+    /** Default byte budget per tool response; longer results are cut and continued by cursor */
+    maxBytes: number
+  }
+
   /** Server metadata */
   server: {
     /** Server name for MCP protocol */
@@ -51,6 +99,20 @@ export interface ServerConfig {
     importantFieldPatterns: readonly string[]
   }
 
+  /** Live request execution (execute_request tool) */
+  execute: {
+    /** Register the execute_request tool (opt-in) */
+    enabled: boolean
+    /** Uppercase HTTP methods that may actually be sent (dry runs are always allowed) */
+    allowedMethods: readonly string[]
+    /** Per-API base URLs and credentials, keyed by API name (e.g., "hetzner/cloud") */
+    targets: Record<string, ExecuteTarget>
+    /** File that receives one JSON line per executed call (stderr when empty) */
+    auditLog: string
+    /** Request timeout in milliseconds */
+    timeout: number
+  }
+
   /** Example value generation */
   exampleValues: {
     /** Default email for examples */
@@ -68,6 +130,14 @@ export interface ServerConfig {
   }
 }
 
+/**
+ * Version from the package.json that ships with the server
+ */
+function packageVersion(projectRoot: string): string {
+  const { version } = JSON.parse(readFileSync(resolve(projectRoot, 'package.json'), 'utf-8')) as { version: string }
+  return version
+}
+
 /**
  * Load configuration from environment variables with sensible defaults
  */
@@ -76,9 +146,11 @@ export function loadConfig(): ServerConfig {
   const __filename = fileURLToPath(import.meta.url)
   const __dirname = dirname(__filename)
   const projectRoot = resolve(__dirname, '..')
+  const warnings: string[] = []
 
   return {
     debug: process.env.SUFETCH_DEBUG === 'true',
+    warnings,
 
     cache: {
       exampleSize: Number.parseInt(process.env.SUFETCH_CACHE_SIZE || '100', 10),
@@ -89,9 +161,26 @@ export function loadConfig(): ServerConfig {
       specsDir: process.env.SUFETCH_SPECS_DIR || resolve(projectRoot, 'openapi-specs'),
     },
 
+    transport: {
+      mode: envTransportMode(process.env.SUFETCH_TRANSPORT, warnings),
+      host: process.env.SUFETCH_HOST || '127.0.0.1',
+      port: Number.parseInt(process.env.SUFETCH_PORT || '3000', 10),
+      authToken: process.env.SUFETCH_AUTH_TOKEN || '',
+      sessionIdleTimeout: Number.parseInt(process.env.SUFETCH_SESSION_IDLE_TIMEOUT || String(30 * 60 * 1000), 10),
+    },
+
+    watch: {
+      enabled: process.env.SUFETCH_WATCH !== 'false',
+      debounce: Number.parseInt(process.env.SUFETCH_WATCH_DEBOUNCE || '300', 10),
+    },
+
+    output: {
+      maxBytes: Number.parseInt(process.env.SUFETCH_MAX_OUTPUT_BYTES || '24000', 10),
+    },
+
     server: {
       name: 'sufetch-mcp',
-      version: '0.3.0',
+      version: packageVersion(projectRoot),
     },
 
     http: {
@@ -120,6 +209,17 @@ export function loadConfig(): ServerConfig {
       ] as const,
     },
 
+    execute: {
+      enabled: process.env.SUFETCH_EXECUTE === 'true',
+      allowedMethods: (process.env.SUFETCH_EXECUTE_METHODS || 'GET')
+        .split(',')
+        .map(method => method.trim().toUpperCase())
+        .filter(Boolean),
+      targets: parseTargets(process.env.SUFETCH_EXECUTE_TARGETS, warnings),
+      auditLog: process.env.SUFETCH_EXECUTE_AUDIT_LOG || '',
+      timeout: Number.parseInt(process.env.SUFETCH_EXECUTE_TIMEOUT || '30000', 10),
+    },
+
     exampleValues: {
       defaultEmail: 'user@example.com',
       defaultUrl: 'https://example.com',
@@ -131,6 +231,95 @@ export function loadConfig(): ServerConfig {
   }
 }
 
+/**
+ * Command-line flags of the `sufetch-mcp` binary
+ */
+export interface CliOptions {
+  /** Configured transport with `--transport`, `--host` and `--port` applied */
+  transport: ServerConfig['transport']
+  /** `--version`: print the version and exit */
+  version: boolean
+  /** `--help`: print usage and exit */
+  help: boolean
+}
+
+/**
+ * Parse command-line flags, applying `--transport`, `--host` and `--port` over the configured transport
+ *
+ * The auth token is only read from SUFETCH_AUTH_TOKEN, so it never shows up in process listings.
+ *
+ * @throws Error on unknown flags or invalid values
+ */
+export function parseCliArgs(argv: string[], base: ServerConfig['transport']): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+      version: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const port = values.port !== undefined ? Number(values.port) : base.port
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${values.port}`)
+  }
+
+  return {
+    transport: {
+      ...base,
+      mode: values.transport !== undefined ? parseTransportMode(values.transport) : base.mode,
+      host: values.host ?? base.host,
+      port,
+    },
+    version: values.version ?? false,
+    help: values.help ?? false,
+  }
+}
+
+function parseTransportMode(value: string): TransportMode {
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Invalid transport "${value}". Use "stdio" or "http"`)
+  }
+  return value
+}
+
+function envTransportMode(value: string | undefined, warnings: string[]): TransportMode {
+  try {
+    return parseTransportMode(value || 'stdio')
+  }
+  catch (error) {
+    warnings.push(`Ignoring SUFETCH_TRANSPORT: ${(error as Error).message}`)
+    return 'stdio'
+  }
+}
+
+/**
+ * Parse SUFETCH_EXECUTE_TARGETS, a JSON object of API name → { baseURL, headers }
+ */
+function parseTargets(value: string | undefined, warnings: string[]): Record<string, ExecuteTarget> {
+  if (!value) {
+    return {}
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  }
+  catch (error) {
+    warnings.push(`Ignoring SUFETCH_EXECUTE_TARGETS: not valid JSON (${(error as Error).message})`)
+    return {}
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    warnings.push('Ignoring SUFETCH_EXECUTE_TARGETS: expected a JSON object of API name → { baseURL, headers }')
+    return {}
+  }
+  return parsed as Record<string, ExecuteTarget>
+}
+
 /**
  * Default configuration instance
  * Use loadConfig() for custom configuration or testing
@@ -0,0 +1,131 @@
+/**
+ * Error response catalog
+ *
+ * Lists the non-2xx responses of an operation with their resolved schemas
+ * and locates the human-readable message in each error shape, e.g.
+ * Hetzner's `error.message`, DigitalOcean's `message` or Ory's
+ * `genericError` nested under `error`.
+ */
+
+import type { RefResolver } from './schema-resolver.js'
+import type { OpenAPIDocument, OpenAPIOperation, OpenAPIResponse } from './types.js'
+import { primaryType } from './json-schema.js'
+import { dereferenceSchema } from './schema-resolver.js'
+import { pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/**
+ * A declared non-2xx response
+ */
+export interface ErrorResponse {
+  /** Status code, range (e.g., "4XX") or "default" */
+  status: string
+  description?: string
+  mediaType?: string
+  /** Dereferenced body schema */
+  schema?: unknown
+  /** Dotted path of the error message field (e.g., "error.message"), when one exists */
+  messagePath?: string
+}
+
+/** Message field names, most specific first */
+const MESSAGE_FIELDS = ['message', 'error_description', 'detail', 'title', 'reason']
+
+/**
+ * List every non-2xx response of an operation, in declaration order
+ */
+export function listErrorResponses(
+  spec: OpenAPIDocument,
+  operation: OpenAPIOperation,
+  resolveRef: RefResolver = ref => resolvePointer(spec, ref),
+): ErrorResponse[] {
+  const errors: ErrorResponse[] = []
+
+  for (const [status, raw] of Object.entries(operation.responses || {})) {
+    if (status.startsWith('2')) {
+      continue
+    }
+
+    const response = ('$ref' in raw ? resolveRef(raw.$ref) : raw) as OpenAPIResponse | null
+    const media = pickMediaSchema(response?.content)
+    const schema = media ? dereferenceSchema(media.schema, resolveRef) : undefined
+
+    errors.push({
+      status,
+      description: response?.description,
+      mediaType: media?.mediaType,
+      schema,
+      messagePath: schema ? findMessagePath(schema) : undefined,
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Find the path of the string field that carries the error message
+ *
+ * Searches breadth-first, two levels deep, so top-level messages win over
+ * nested ones.
+ */
+export function findMessagePath(schema: unknown): string | undefined {
+  let level: Array<[string[], any]> = [[[], schema]]
+
+  for (let depth = 0; depth < 2 && level.length > 0; depth++) {
+    const next: Array<[string[], any]> = []
+
+    for (const [path, node] of level) {
+      const properties = node?.properties || {}
+      const field = MESSAGE_FIELDS.find(name => primaryType(properties[name]) === 'string')
+      if (field) {
+        return [...path, field].join('.')
+      }
+
+      for (const [name, child] of Object.entries(properties)) {
+        next.push([[...path, name], child])
+      }
+    }
+
+    level = next
+  }
+
+  return undefined
+}
+
+/**
+ * Whether a status key is a client or server error (e.g., "404", "5XX"), as opposed to "default" or a redirect
+ */
+export function isErrorStatus(status: string): boolean {
+  return /^[45]/.test(status)
+}
+
+/**
+ * Turn a status key into a TypeScript condition on a numeric `status`
+ */
+export function statusCondition(status: string): string | null {
+  if (/^\d{3}$/.test(status)) {
+    return `status === ${status}`
+  }
+
+  const range = status.match(/^(\d)xx$/i)
+  if (range) {
+    return `status >= ${range[1]}00 && status < ${Number(range[1]) + 1}00`
+  }
+
+  return null
+}
+
+/**
+ * TypeScript expression reading a dotted path from a variable, bracketing segments that are not identifiers
+ *
+ * `fieldAccess('body', 'error.error-description')` → `body.error['error-description']`
+ *
+ * With `optional`, nested segments are read with optional chaining: `body.error?.['error-description']`.
+ */
+export function fieldAccess(variable: string, path: string, optional = false): string {
+  return path.split('.').reduce((access, segment, index) => {
+    const chain = optional && index > 0 ? '?.' : ''
+    return /^[a-z_$][\w$]*$/i.test(segment)
+      ? `${access}${chain || '.'}${segment}`
+      : `${access}${chain}['${segment.replace(/[\\']/g, '\\$&')}']`
+  }, variable)
+}
@@ -0,0 +1,138 @@
+/**
+ * Structured errors for tools, prompts and resources
+ *
+ * Handlers throw a `ToolError` with a machine-readable code and ranked
+ * suggestions. Tool callbacks wrapped in `withToolErrors` turn it into an
+ * `isError` result carrying `{ error: { code, message, suggestions } }`;
+ * prompts and resources, which have no error result, are wrapped in
+ * `withMcpErrors` and send the same body as JSON-RPC error data.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Machine-readable error code
+ */
+export type ToolErrorCode
+  = | 'API_NOT_FOUND'
+    | 'PATH_NOT_FOUND'
+    | 'METHOD_NOT_FOUND'
+    | 'OPERATION_NOT_FOUND'
+    | 'AMBIGUOUS_OPERATION'
+    | 'SCHEMA_NOT_FOUND'
+    | 'WEBHOOK_NOT_FOUND'
+    | 'RESPONSE_NOT_FOUND'
+    | 'TYPES_NOT_FOUND'
+    | 'INVALID_ARGUMENTS'
+    | 'METHOD_NOT_ALLOWED'
+    | 'NO_BASE_URL'
+    | 'REQUEST_FAILED'
+    | 'VALIDATION_FAILED'
+    | 'INTERNAL_ERROR'
+
+/**
+ * Serialized form of an error
+ */
+export interface ToolErrorBody {
+  code: ToolErrorCode
+  message: string
+  /** Closest valid values, best first */
+  suggestions: string[]
+  /** Structured context, such as the issues behind VALIDATION_FAILED */
+  details?: unknown
+}
+
+/**
+ * An error a caller can act on
+ */
+export class ToolError extends Error {
+  readonly code: ToolErrorCode
+  readonly suggestions: string[]
+  readonly details?: unknown
+
+  constructor(code: ToolErrorCode, message: string, suggestions: string[] = [], details?: unknown) {
+    super(message)
+    this.name = 'ToolError'
+    this.code = code
+    this.suggestions = suggestions
+    this.details = details
+  }
+
+  toJSON(): ToolErrorBody {
+    const body: ToolErrorBody = { code: this.code, message: this.message, suggestions: this.suggestions }
+    if (this.details !== undefined) {
+      body.details = this.details
+    }
+    return body
+  }
+}
+
+/**
+ * Describe any thrown value as an error body
+ */
+export function toErrorBody(error: unknown): ToolErrorBody {
+  if (error instanceof ToolError) {
+    return error.toJSON()
+  }
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : String(error),
+    suggestions: [],
+  }
+}
+
+/**
+ * Tool result for a thrown error
+ */
+export function toolErrorResult(error: unknown): CallToolResult {
+  return {
+    isError: true,
+    content: [{ type: 'text', text: JSON.stringify({ error: toErrorBody(error) }, null, 2) }],
+  }
+}
+
+/**
+ * JSON-RPC error for a thrown error, for prompts and resources
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error
+  }
+
+  const body = toErrorBody(error)
+  const code = body.code === 'INTERNAL_ERROR' ? ErrorCode.InternalError : ErrorCode.InvalidParams
+  return new McpError(code, body.message, body)
+}
+
+/**
+ * Wrap a tool callback so thrown errors become `isError` results
+ */
+export function withToolErrors<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<CallToolResult>,
+): (...args: Args) => Promise<CallToolResult> {
+  return async (...args) => {
+    try {
+      return await handler(...args)
+    }
+    catch (error) {
+      return toolErrorResult(error)
+    }
+  }
+}
+
+/**
+ * Wrap a prompt or resource callback so thrown errors carry their code and suggestions
+ */
+export function withMcpErrors<Args extends unknown[], Result>(
+  handler: (...args: Args) => Promise<Result>,
+): (...args: Args) => Promise<Result> {
+  return async (...args) => {
+    try {
+      return await handler(...args)
+    }
+    catch (error) {
+      throw toMcpError(error)
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Live request execution for the execute_request tool
+ *
+ * Requests are validated against the spec, assembled into a concrete URL and
+ * header set, then sent through an apiful client. Every call (and every dry
+ * run) is recorded in an audit log with credentials redacted.
+ */
+
+import type { ExecuteTarget } from './config.js'
+import type { OpenAPIDocument, OperationEntry } from './types.js'
+import type { RequestInput, ValidationResult } from './validator.js'
+import { appendFileSync } from 'node:fs'
+import { createClient, OpenAPIBuilder } from 'apiful'
+import { ToolError } from './errors.js'
+import { validateRequest } from './validator.js'
+
+/**
+ * A fully assembled request, ready to send
+ */
+export interface PreparedRequest {
+  /** Uppercase HTTP method */
+  method: string
+  /** Final URL including resolved path parameters and query string */
+  url: string
+  baseURL: string
+  /** Templated path (e.g., "/servers/{id}") */
+  path: string
+  pathParams: Record<string, unknown>
+  query: Record<string, unknown>
+  headers: Record<string, string>
+  body?: unknown
+}
+
+/**
+ * Result of preparing a request - `request` is null when validation failed
+ */
+export interface PrepareResult {
+  request: PreparedRequest | null
+  validation: ValidationResult
+}
+
+/**
+ * Outcome of a sent request
+ */
+export interface ExecutionResult {
+  status: number
+  statusText: string
+  headers: Record<string, string>
+  body: unknown
+  durationMs: number
+}
+
+/**
+ * One audit log line
+ */
+export interface AuditEntry {
+  timestamp: string
+  api: string
+  method: string
+  url: string
+  dryRun: boolean
+  status?: number
+  durationMs?: number
+  error?: string
+  /** Why the call was not sent (e.g., its method is not allowed) */
+  refused?: string
+}
+
+/** Header names whose values are never shown in full */
+const SENSITIVE_HEADER = /authorization|cookie|token|api[-_]?key|secret|password/i
+
+/**
+ * Validate a request and assemble it against a target
+ *
+ * Returns the validation result when the request is invalid.
+ *
+ * @throws ToolError (NO_BASE_URL) when neither the target nor the spec's servers give a base URL
+ */
+export function prepareRequest(
+  spec: OpenAPIDocument,
+  entry: OperationEntry,
+  input: RequestInput,
+  target: ExecuteTarget = {},
+  apiName = '<api name>',
+): PrepareResult {
+  const validation = validateRequest(spec, entry, input)
+  if (!validation.valid) {
+    return { request: null, validation }
+  }
+
+  const baseURL = target.baseURL || spec.servers?.[0]?.url
+  if (!baseURL) {
+    throw new ToolError('NO_BASE_URL', `No base URL for ${apiName}: the spec declares no servers. Set SUFETCH_EXECUTE_TARGETS["${apiName}"].baseURL`, [
+      `SUFETCH_EXECUTE_TARGETS='{"${apiName}":{"baseURL":"https://..."}}'`,
+    ])
+  }
+
+  const pathParams = input.path || {}
+  const query = input.query || {}
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    ...target.headers,
+    ...Object.fromEntries(Object.entries(input.headers || {}).map(([name, value]) => [name, String(value)])),
+  }
+
+  if (input.body !== undefined && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const resolvedPath = entry.path.replace(/\{([^}]+)\}/g, (_, name: string) =>
+    encodeURIComponent(String(pathParams[name])))
+
+  return {
+    request: {
+      method: entry.method.toUpperCase(),
+      url: buildUrl(baseURL, resolvedPath, query),
+      baseURL,
+      path: entry.path,
+      pathParams,
+      query,
+      headers,
+      body: input.body,
+    },
+    validation,
+  }
+}
+
+/**
+ * Send a prepared request through an apiful client
+ *
+ * Non-2xx responses are returned, not thrown.
+ */
+export async function sendRequest(request: PreparedRequest, timeout: number): Promise<ExecutionResult> {
+  let captured: Response | undefined
+  const started = Date.now()
+
+  // Not the per-service clients from openapi-specs/<service>/index.ts: their OpenAPIBuilder
+  // type parameter only narrows paths at compile time and builds the same client at runtime,
+  // and here the path comes from whichever spec is loaded, so it cannot be typed
+  const client = createClient({
+    baseURL: request.baseURL,
+    headers: request.headers,
+    timeout,
+    retry: 0,
+    ignoreResponseError: true,
+    onResponse: ({ response }) => {
+      captured = response
+    },
+  }).with(OpenAPIBuilder()) as unknown as (path: string, options: Record<string, unknown>) => Promise<unknown>
+
+  const body = await client(request.path, {
+    method: request.method,
+    path: request.pathParams,
+    query: request.query,
+    body: request.body,
+  })
+
+  return {
+    status: captured?.status ?? 0,
+    statusText: captured?.statusText ?? '',
+    headers: Object.fromEntries(captured?.headers.entries() ?? []),
+    body,
+    durationMs: Date.now() - started,
+  }
+}
+
+/**
+ * Mask credential-like header values, keeping the last 4 characters
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => {
+    if (!SENSITIVE_HEADER.test(name)) {
+      return [name, value]
+    }
+    const scheme = value.match(/^(Bearer|Basic|Token)\s+/i)?.[0] ?? ''
+    const secret = value.slice(scheme.length)
+    return [name, `${scheme}****${secret.length > 8 ? secret.slice(-4) : ''}`]
+  }))
+}
+
+/**
+ * Audit log of executed calls
+ *
+ * Keeps the most recent entries in memory and appends every entry as a
+ * JSON line to a file (or stderr when no file is configured).
+ */
+export class AuditLog {
+  private recent: AuditEntry[] = []
+  private filePath: string
+  private maxEntries: number
+
+  constructor(filePath = '', maxEntries = 100) {
+    this.filePath = filePath
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * Record an entry
+   */
+  record(entry: AuditEntry): void {
+    this.recent.push(entry)
+    if (this.recent.length > this.maxEntries) {
+      this.recent.shift()
+    }
+
+    const line = JSON.stringify(entry)
+    if (this.filePath) {
+      try {
+        appendFileSync(this.filePath, `${line}\n`)
+      }
+      catch (error) {
+        console.error(`[audit] Failed to write ${this.filePath}:`, error)
+      }
+    }
+    else {
+      console.error(`[audit] ${line}`)
+    }
+  }
+
+  /**
+   * Most recent entries, oldest first
+   */
+  entries(): AuditEntry[] {
+    return [...this.recent]
+  }
+}
+
+function buildUrl(baseURL: string, path: string, query: Record<string, unknown>): string {
+  const search = new URLSearchParams()
+  for (const [name, value] of Object.entries(query)) {
+    if (value === undefined || value === null) {
+      continue
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(name, typeof item === 'object' ? JSON.stringify(item) : String(item))
+    }
+  }
+
+  const queryString = search.toString()
+  return `${baseURL.replace(/\/+$/, '')}${path}${queryString ? `?${queryString}` : ''}`
+}
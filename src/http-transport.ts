@@ -0,0 +1,249 @@
+/**
+ * HTTP transports for a shared server instance
+ *
+ * Serves the Streamable HTTP transport at `/mcp` and the legacy SSE
+ * transport at `/sse` (with messages posted to `/messages`) from one Node
+ * HTTP server. Every session gets its own `McpServer` from `createServer`,
+ * while the loaded specs and caches behind it are shared.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import { Buffer } from 'node:buffer'
+import { randomUUID, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+
+/**
+ * Options for the HTTP server
+ */
+export interface HttpServerOptions {
+  host: string
+  /** Port to bind (0 picks a free one) */
+  port: number
+  /** Bearer token every MCP request must carry (no auth when empty) */
+  authToken?: string
+  /** Close streamable HTTP sessions after this many milliseconds without a request (0 never does; default 30 minutes) */
+  sessionIdleTimeout?: number
+  /** Create the MCP server for a new session */
+  createServer: () => McpServer
+  log?: (...args: any[]) => void
+}
+
+/**
+ * A running HTTP server
+ */
+export interface HttpServerHandle {
+  server: Server
+  /** Base URL the server is reachable at (e.g., "http://127.0.0.1:3000") */
+  url: string
+  /** Number of open sessions across both transports */
+  sessionCount: () => number
+  close: () => Promise<void>
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  server: McpServer
+  /** Time of the last request, in epoch milliseconds */
+  lastActive: number
+}
+
+/** Largest accepted JSON-RPC request body */
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000
+
+/** Longest wait between checks for idle sessions */
+const MAX_SWEEP_INTERVAL = 60 * 1000
+
+/**
+ * Start serving MCP over HTTP
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const log = options.log ?? (() => {})
+  const sessions = new Map<string, Session>()
+  const idleTimeout = options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      log('HTTP request failed:', error)
+      if (!res.headersSent) {
+        sendError(res, 500, -32603, 'Internal server error')
+      }
+    })
+  })
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost')
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ status: 'ok', sessions: sessions.size }))
+      return
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      res.setHeader('www-authenticate', 'Bearer')
+      sendError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token')
+      return
+    }
+
+    switch (url.pathname) {
+      case '/mcp':
+        return handleStreamable(req, res)
+      case '/sse':
+        return req.method === 'GET' ? openSse(res) : sendError(res, 405, -32000, 'Method not allowed')
+      case '/messages':
+        return postSseMessage(req, res, url.searchParams.get('sessionId'))
+      default:
+        sendError(res, 404, -32000, `Not found: ${url.pathname}`)
+    }
+  }
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id']
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId)
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, -32001, 'Session not found')
+        return
+      }
+      session.lastActive = Date.now()
+      await session.transport.handleRequest(req, res)
+      return
+    }
+
+    const body = req.method === 'POST' ? await readJson(req) : undefined
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, 'Bad Request: no valid session ID provided')
+      return
+    }
+
+    const server = options.createServer()
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActive: Date.now() })
+        log(`Session ${id} opened (streamable HTTP)`)
+      },
+    })
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId)
+        log(`Session ${transport.sessionId} closed`)
+      }
+    }
+
+    await server.connect(transport)
+    await transport.handleRequest(req, res, body)
+  }
+
+  async function openSse(res: ServerResponse): Promise<void> {
+    const server = options.createServer()
+    const transport = new SSEServerTransport('/messages', res)
+
+    sessions.set(transport.sessionId, { transport, server, lastActive: Date.now() })
+    log(`Session ${transport.sessionId} opened (SSE)`)
+    res.on('close', () => {
+      sessions.delete(transport.sessionId)
+      log(`Session ${transport.sessionId} closed`)
+    })
+
+    await server.connect(transport)
+  }
+
+  async function postSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? sessions.get(sessionId) : undefined
+    if (req.method !== 'POST' || !session || !(session.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, -32001, 'Session not found')
+      return
+    }
+    session.lastActive = Date.now()
+    await session.transport.handlePostMessage(req, res)
+  }
+
+  // Streamable HTTP clients may vanish without a DELETE; SSE sessions end with their stream
+  function closeIdleSessions(): void {
+    const cutoff = Date.now() - idleTimeout
+    for (const [id, session] of sessions) {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastActive < cutoff) {
+        sessions.delete(id)
+        log(`Session ${id} expired after ${idleTimeout} ms without requests`)
+        session.transport.close().catch(error => log(`Closing session ${id} failed:`, error))
+      }
+    }
+  }
+
+  const sweeper = idleTimeout > 0 ? setInterval(closeIdleSessions, Math.min(idleTimeout, MAX_SWEEP_INTERVAL)) : undefined
+  sweeper?.unref()
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject)
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject)
+      resolve()
+    })
+  })
+
+  const address = httpServer.address()
+  const port = address && typeof address === 'object' ? address.port : options.port
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host
+
+  return {
+    server: httpServer,
+    url: `http://${host}:${port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweeper)
+      for (const session of sessions.values()) {
+        await session.transport.close()
+      }
+      sessions.clear()
+      httpServer.closeAllConnections()
+      await new Promise<void>(resolve => httpServer.close(() => resolve()))
+    },
+  }
+}
+
+/**
+ * Check the `Authorization: Bearer <token>` header in constant time
+ */
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) {
+    return true
+  }
+
+  const header = req.headers.authorization || ''
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(header)
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      return undefined
+    }
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+  }
+  catch {
+    return undefined
+  }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'content-type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+}
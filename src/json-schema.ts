@@ -0,0 +1,290 @@
+/**
+ * Schema dialect helpers for OpenAPI 3.0 and 3.1
+ *
+ * OpenAPI 3.0 schemas have a single `type`, `nullable` and a single
+ * `example`. OpenAPI 3.1 schemas are JSON Schema 2020-12: `type` may be a
+ * list (`["string", "null"]`), examples are an `examples` array, tuples use
+ * `prefixItems`, and `$ref`s may address a schema by its `$id` or
+ * `$anchor`. These helpers read both dialects, so callers never inspect
+ * `type` directly.
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { escapePointer, resolvePointer } from './spec-utils.js'
+
+/**
+ * Whether a spec uses OpenAPI 3.1 (JSON Schema 2020-12) schemas
+ */
+export function isOpenAPI31(spec: unknown): boolean {
+  const version = (spec as { openapi?: unknown } | null)?.openapi
+  return typeof version === 'string' && /^3\.[1-9]/.test(version)
+}
+
+/**
+ * The keywords these helpers read, in either dialect
+ *
+ * Callers pass 3.0 `SchemaObject`s, 3.1 schemas (which `openapi-types` does
+ * not model) and raw nodes of a document, so everything is read as unknown
+ * and checked before use.
+ */
+interface SchemaKeywords {
+  type?: unknown
+  nullable?: unknown
+  const?: unknown
+  enum?: unknown
+  example?: unknown
+  examples?: unknown
+  properties?: unknown
+  additionalProperties?: unknown
+  items?: unknown
+  prefixItems?: unknown
+  anyOf?: unknown
+  oneOf?: unknown
+}
+
+function keywords(schema: unknown): SchemaKeywords | undefined {
+  return schema && typeof schema === 'object' ? schema as SchemaKeywords : undefined
+}
+
+/**
+ * Declared types of a schema, including "null" for 3.0 `nullable`
+ *
+ * Returns an empty list when the schema does not constrain the type.
+ */
+export function schemaTypes(schema: unknown): string[] {
+  const node = keywords(schema)
+  if (!node) {
+    return []
+  }
+  const types = Array.isArray(node.type)
+    ? node.type.filter((type): type is string => typeof type === 'string')
+    : (typeof node.type === 'string' ? [node.type] : [])
+  return node.nullable === true && types.length > 0 && !types.includes('null') ? [...types, 'null'] : types
+}
+
+/**
+ * The main non-null type of a schema, inferred from its keywords when `type` is missing
+ */
+export function primaryType(schema: unknown): string | undefined {
+  const node = keywords(schema)
+  if (!node) {
+    return undefined
+  }
+
+  const declared = schemaTypes(node)
+  const type = declared.find(candidate => candidate !== 'null')
+  if (type) {
+    return type
+  }
+  if (declared.length > 0) {
+    return 'null'
+  }
+
+  if (node.const !== undefined) {
+    return jsonType(node.const)
+  }
+  if (node.properties || node.additionalProperties) {
+    return 'object'
+  }
+  return node.items || node.prefixItems ? 'array' : undefined
+}
+
+/**
+ * Whether null is a valid value (3.1 `"null"` type, 3.0 `nullable`, or a null enum member)
+ */
+export function allowsNull(schema: unknown): boolean {
+  const node = keywords(schema)
+  return schemaTypes(node).includes('null')
+    || node?.const === null
+    || (Array.isArray(node?.enum) && node.enum.includes(null))
+}
+
+/**
+ * The non-null member of a nullable union, or the schema itself
+ *
+ * 3.1 marks refs as nullable with `anyOf: [{ $ref }, { type: 'null' }]`,
+ * since `nullable` is gone and siblings of a `$ref` used to be ignored.
+ */
+export function withoutNull<Schema>(schema: Schema): Schema {
+  const node = keywords(schema)
+  const variants: unknown = node?.anyOf ?? node?.oneOf
+  if (!Array.isArray(variants)) {
+    return schema
+  }
+  const others = variants.filter(variant => !(primaryType(variant) === 'null' && schemaTypes(variant).length === 1))
+  // Members of a union are schemas of the same kind as the union itself
+  return others.length === 1 && others.length < variants.length ? others[0] as Schema : schema
+}
+
+/**
+ * The first example of a schema: 3.0 `example` or the first of 3.1 `examples`
+ */
+export function schemaExample(schema: unknown): unknown {
+  const node = keywords(schema)
+  if (node?.example !== undefined) {
+    return node.example
+  }
+  return Array.isArray(node?.examples) ? node.examples[0] : undefined
+}
+
+/**
+ * JSON Schema type name of a value
+ */
+export function jsonType(value: unknown): string {
+  if (value === null) {
+    return 'null'
+  }
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number'
+  }
+  return typeof value
+}
+
+/** Base URI of the document itself, so relative `$id`s have something to resolve against */
+const DOCUMENT_BASE = 'https://sufetch.invalid/spec'
+
+/**
+ * Where each `$id` resource and `$anchor` of a document lives, as JSON pointers
+ */
+interface IdIndex {
+  /** Absolute resource URI → pointer */
+  resources: Map<string, string>
+  /** Absolute resource URI + "#" + anchor name → pointer */
+  anchors: Map<string, string>
+}
+
+/**
+ * Rewrite `$id`- and `$anchor`-based refs of a 3.1 spec into local JSON pointers
+ *
+ * In JSON Schema 2020-12 a `$ref` resolves against the nearest enclosing
+ * `$id`, so `{ $ref: '#/$defs/tag' }` inside a schema with an `$id` means
+ * that schema's `$defs`, and `{ $ref: 'pet.json' }` means the schema whose
+ * `$id` is "pet.json". Everything after loading only resolves pointers from
+ * the document root, so those refs are rewritten once here
+ * (e.g., to "#/components/schemas/Pet/$defs/tag"). Refs that match no
+ * `$id` in the document are left as they are.
+ */
+export function resolveSchemaIds(spec: OpenAPIDocument): OpenAPIDocument {
+  const ids = indexIds(spec)
+  if (ids.resources.size === 0 && ids.anchors.size === 0) {
+    return spec
+  }
+
+  const rewrite = (node: unknown, base: string): unknown => {
+    if (Array.isArray(node)) {
+      let changed = false
+      const items = node.map((item) => {
+        const result = rewrite(item, base)
+        changed ||= result !== item
+        return result
+      })
+      return changed ? items : node
+    }
+    if (!node || typeof node !== 'object') {
+      return node
+    }
+
+    const object = node as Record<string, unknown>
+    const current = typeof object.$id === 'string' ? withoutFragment(resolveUri(object.$id, base) ?? base) : base
+    let changed = false
+    const result: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(object)) {
+      result[key] = key === '$ref' && typeof value === 'string'
+        ? idPointer(spec, ids, value, current) ?? value
+        : rewrite(value, current)
+      changed ||= result[key] !== value
+    }
+    return changed ? result : node
+  }
+
+  return rewrite(spec, DOCUMENT_BASE) as OpenAPIDocument
+}
+
+/**
+ * The local JSON pointer of a ref by `$id` or `$anchor` (e.g., "pet.json" or "#pet"), or null
+ */
+export function schemaIdPointer(spec: OpenAPIDocument, ref: string): string | null {
+  return idPointer(spec, indexIds(spec), ref, DOCUMENT_BASE)
+}
+
+function indexIds(spec: OpenAPIDocument): IdIndex {
+  const ids: IdIndex = { resources: new Map(), anchors: new Map() }
+
+  const index = (node: unknown, base: string, at: string): void => {
+    if (Array.isArray(node)) {
+      node.forEach((item, position) => index(item, base, `${at}/${position}`))
+      return
+    }
+    if (!node || typeof node !== 'object') {
+      return
+    }
+
+    const object = node as Record<string, unknown>
+    let current = base
+    if (typeof object.$id === 'string') {
+      current = withoutFragment(resolveUri(object.$id, base) ?? base)
+      ids.resources.set(current, at)
+    }
+    for (const keyword of ['$anchor', '$dynamicAnchor']) {
+      if (typeof object[keyword] === 'string') {
+        ids.anchors.set(`${current}#${object[keyword]}`, at)
+      }
+    }
+    for (const [key, value] of Object.entries(object)) {
+      index(value, current, `${at}/${escapePointer(key)}`)
+    }
+  }
+
+  index(spec, DOCUMENT_BASE, '')
+  return ids
+}
+
+function idPointer(spec: OpenAPIDocument, ids: IdIndex, ref: string, base: string): string | null {
+  const uri = resolveUri(ref, base)
+  if (!uri) {
+    return null
+  }
+
+  const resource = withoutFragment(uri)
+  const fragment = decodeFragment(uri.slice(resource.length + 1))
+  if (fragment && !fragment.startsWith('/')) {
+    const anchor = ids.anchors.get(`${resource}#${fragment}`)
+    return anchor === undefined ? null : `#${anchor}`
+  }
+
+  // Pointers into the document itself stay as they are
+  const root = resource === DOCUMENT_BASE ? undefined : ids.resources.get(resource)
+  if (root === undefined) {
+    return null
+  }
+
+  // Specs that put `$id` on components often still mean root pointers; keep those when the rewrite points nowhere
+  const pointer = `#${root}${fragment}`
+  return resolvePointer(spec, pointer) === null ? null : pointer
+}
+
+function resolveUri(reference: string, base: string): string | null {
+  try {
+    return new URL(reference, base).href
+  }
+  catch {
+    return null
+  }
+}
+
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment)
+  }
+  catch {
+    return fragment
+  }
+}
+
+function withoutFragment(uri: string): string {
+  const hash = uri.indexOf('#')
+  return hash < 0 ? uri : uri.slice(0, hash)
+}
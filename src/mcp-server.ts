@@ -1,6 +1,14 @@
 #!/usr/bin/env node
 /* eslint-disable node/prefer-global/process */
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import type { CompletionContext } from './completions.js'
 import type { ServerConfig } from './config.js'
+import type { HttpServerHandle } from './http-transport.js'
+import type { ShapeOptions } from './output.js'
+import type { PaginationInfo } from './pagination.js'
+import type { SecurityRequirementDetail } from './security.js'
+import type { LintReport } from './spec-linter.js'
+import type { SpecChange } from './spec-watcher.js'
 import type { ResponseVariant } from './type-parser.js'
 import type {
   CachedExample,
@@ -14,13 +22,38 @@ import type {
   ResponseStructure,
 } from './types.js'
 import { existsSync, readdirSync } from 'node:fs'
-import { readFile } from 'node:fs/promises'
-import { join } from 'node:path'
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { isAbsolute, join, relative, resolve } from 'node:path'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { z } from 'zod'
-import { loadConfig } from './config.js'
+import { completeMethods, completeOperationIds, completePaths, completeSchemaNames, completeTags, completeValues, completeWebhookNames } from './completions.js'
+import { loadConfig, parseCliArgs } from './config.js'
+import { fieldAccess, isErrorStatus, listErrorResponses, statusCondition } from './error-responses.js'
+import { ToolError, withMcpErrors, withToolErrors } from './errors.js'
+import { AuditLog, prepareRequest, redactHeaders, sendRequest } from './executor.js'
+import { startHttpServer } from './http-transport.js'
+import { isOpenAPI31, primaryType, resolveSchemaIds, schemaExample, schemaIdPointer, withoutNull } from './json-schema.js'
+import { mockResponse } from './mock-generator.js'
+import { OperationIndex } from './operation-index.js'
+import { OutputCache, shapeOutput } from './output.js'
+import { detectPagination } from './pagination.js'
+import { SchemaGraph } from './schema-graph.js'
+import { dereferenceSchema, locateSchema } from './schema-resolver.js'
+import { SearchIndex } from './search-index.js'
+import { describeRequirements, getOperationSecurity } from './security.js'
+import { bundleSpec, DocumentCache } from './spec-bundler.js'
+import { diffSpecs } from './spec-diff.js'
+import { lintSpec } from './spec-linter.js'
+import { isSpecDocument, preferredSpecFile, readSpecFile, scanSpecFiles, selectSpecFiles, SpecParseError } from './spec-loader.js'
+import { findOperation, findResponseSchema, findWebhook, getOperationParameters, listOperations, listWebhooks, pickMediaSchema, resolvePointer } from './spec-utils.js'
+import { watchSpecs } from './spec-watcher.js'
+import { suggestNames, suggestPaths } from './suggestions.js'
+import { convertSwagger2, isSwagger2 } from './swagger-converter.js'
+import { collectTags } from './tags.js'
 import { parseResponseStructure, TypeInfoCache } from './type-parser.js'
+import { validateRequest, validateResponse } from './validator.js'
+import { planWorkflow } from './workflow-planner.js'
 
 /**
  * Represents a loaded API specification.
@@ -29,6 +62,14 @@ interface ApiSpec {
   name: string
   path: string
   spec: OpenAPIDocument
+  /** External files the spec references via $ref */
+  files?: string[]
+  /** Swagger version of the file, when it was converted to OpenAPI 3 on load */
+  convertedFrom?: string
+  /** Problems found while bundling and converting the spec */
+  warnings?: string[]
+  /** Lint findings for the loaded document */
+  diagnostics?: LintReport
 }
 
 /**
@@ -38,18 +79,39 @@ interface ApiSpec {
  * Uses McpServer for automatic validation and cleaner code.
  */
 class SuFetchMCPServer {
-  private server: McpServer
   private specs: Map<string, ApiSpec> = new Map()
   private config: ServerConfig
 
-  private refCache: Map<string, ResolvedSchema> = new Map()
+  private refCache: Map<OpenAPIDocument, Map<string, ResolvedSchema>> = new Map()
   private exampleCache: Map<string, CachedExample> = new Map()
   private typeCache: TypeInfoCache = new TypeInfoCache()
+  private searchIndex: SearchIndex = new SearchIndex()
+  private operationIndex: OperationIndex = new OperationIndex()
+  private schemaGraphs: Map<string, SchemaGraph> = new Map()
+  private documents: DocumentCache = new DocumentCache()
+  private loadFailures: Map<string, string> = new Map()
+  private auditLog: AuditLog
+  private outputCache: OutputCache = new OutputCache()
+  private servers: Set<McpServer> = new Set()
 
   constructor(config?: Partial<ServerConfig>) {
     this.config = { ...loadConfig(), ...config }
+    this.auditLog = new AuditLog(this.config.execute.auditLog)
+  }
+
+  async initialize() {
+    this.log(`Looking for specs in: ${this.config.paths.specsDir}`)
+    await this.loadSpecs()
+  }
 
-    this.server = new McpServer(
+  /**
+   * Create an MCP server with every tool, prompt and resource registered
+   *
+   * stdio uses one; the HTTP transport creates one per session, all
+   * sharing the loaded specs and caches.
+   */
+  private createServer(): McpServer {
+    const server = new McpServer(
       {
         name: this.config.server.name,
         version: this.config.server.version,
@@ -58,16 +120,20 @@ class SuFetchMCPServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: {},
         },
       },
     )
-  }
 
-  async initialize() {
-    this.log(`Looking for specs in: ${this.config.paths.specsDir}`)
-    await this.loadSpecs()
-    this.registerTools()
-    this.registerPrompts()
+    this.registerTools(server)
+    this.registerPrompts(server)
+    this.registerResources(server)
+
+    // Tracked for list_changed notifications after a hot reload
+    this.servers.add(server)
+    server.server.onclose = () => this.servers.delete(server)
+
+    return server
   }
 
   private log(...args: any[]) {
@@ -118,62 +184,51 @@ class SuFetchMCPServer {
   }
 
   /**
-   * Load all OpenAPI JSON files from openapi-specs directory
+   * Load all OpenAPI JSON and YAML files from openapi-specs directory
    */
   private async loadSpecs() {
     try {
-      const jsonFiles: Array<{ key: string, path: string }> = []
-
-      const scanDir = (dir: string, prefix = '') => {
-        const entries = readdirSync(dir, { withFileTypes: true })
-
-        for (const entry of entries) {
-          const fullPath = join(dir, entry.name)
+      const specFiles = scanSpecFiles(this.config.paths.specsDir)
 
-          if (entry.isDirectory()) {
-            scanDir(fullPath, prefix ? `${prefix}/${entry.name}` : entry.name)
-          }
-          else if (entry.name.endsWith('.json') && !entry.name.includes('package')) {
-            const name = entry.name.replace('.json', '')
-            const key = prefix ? `${prefix}/${name}` : name
-            jsonFiles.push({ key, path: fullPath })
-          }
-        }
+      // One file per API when a spec exists in several formats (JSON first, then YAML)
+      const { selected, skipped } = selectSpecFiles(specFiles)
+      for (const file of skipped) {
+        this.log(`Skipping ${file.path}: ${file.key} is loaded from ${selected.find(chosen => chosen.key === file.key)?.path}`)
       }
 
-      scanDir(this.config.paths.specsDir)
-
       // Load all spec files in parallel
-      const loadPromises = jsonFiles.map(async ({ key, path }) => {
+      const loadPromises = selected.map(async ({ key, path }) => {
         try {
-          const jsonContent = await readFile(path, 'utf-8')
-          const spec = JSON.parse(jsonContent) as OpenAPIDocument
-
-          return {
-            key,
-            spec: {
-              name: key,
-              path,
-              spec,
-            },
-          }
+          return await this.readApi(key, path)
         }
         catch (error) {
-          this.log(`Failed to load ${path}:`, error)
+          this.loadFailures.set(path, error instanceof Error ? error.message : String(error))
+          // Parse errors carry file:line:column; anything else is logged as is
+          if (error instanceof SpecParseError) {
+            this.log(`Failed to load ${error.message}`)
+          }
+          else {
+            this.log(`Failed to load ${path}:`, error)
+          }
           return null
         }
       })
 
-      const results = await Promise.all(loadPromises)
+      const results = (await Promise.all(loadPromises)).filter(result => result !== null)
 
-      // Store successfully loaded specs
+      // Store and index successfully loaded specs, except files other specs pull in via $ref
+      const referenced = new Set(results.flatMap(result => result.files ?? []))
       for (const result of results) {
-        if (result) {
-          this.specs.set(result.key, result.spec)
+        if (referenced.has(resolve(result.path))) {
+          this.log(`Skipping ${result.path}: referenced by another spec`)
+        }
+        else {
+          this.addApi(result)
         }
       }
 
       this.log(`Loaded ${this.specs.size} API specs`)
+      this.log(`Indexed ${this.searchIndex.size} operations for search`)
 
       // Load types.d.ts files for type hint generation
       await this.loadTypeDefs()
@@ -183,6 +238,174 @@ class SuFetchMCPServer {
     }
   }
 
+  /**
+   * Read a spec file, resolve its external refs and convert Swagger 2.0 to OpenAPI 3
+   *
+   * Returns null for files that are not OpenAPI documents, such as schema
+   * fragments that specs reference.
+   */
+  private async readApi(key: string, path: string): Promise<ApiSpec | null> {
+    const document = await readSpecFile(path)
+    if (!isSpecDocument(document)) {
+      this.log(`Skipping ${path}: not an OpenAPI document`)
+      return null
+    }
+
+    // 3.1 refs by `$id` or `$anchor` become plain pointers before file refs are followed
+    const spec = isOpenAPI31(document) ? resolveSchemaIds({ ...document, paths: document.paths ?? {} }) : document
+    const bundled = await bundleSpec(spec, path, { root: this.config.paths.specsDir, cache: this.documents })
+    const apiSpec: ApiSpec = { name: key, path, spec: bundled.spec, files: bundled.files, warnings: bundled.warnings }
+
+    if (isSwagger2(bundled.spec)) {
+      const converted = convertSwagger2(bundled.spec)
+      apiSpec.spec = converted.spec
+      apiSpec.convertedFrom = `Swagger ${(bundled.spec as { swagger?: string }).swagger}`
+      apiSpec.warnings = [...bundled.warnings, ...converted.warnings]
+      this.log(`Converted ${key} from ${apiSpec.convertedFrom} to OpenAPI ${converted.spec.openapi}`)
+    }
+
+    for (const warning of apiSpec.warnings ?? []) {
+      this.log(`${key}: ${warning}`)
+    }
+
+    apiSpec.diagnostics = lintSpec(apiSpec.spec)
+    const { errors, warnings } = apiSpec.diagnostics.summary
+    if (errors + warnings > 0) {
+      this.log(`${key}: ${errors} lint error(s), ${warnings} lint warning(s); see get_spec_diagnostics`)
+    }
+    this.loadFailures.delete(path)
+    return apiSpec
+  }
+
+  /**
+   * Store a spec and add it to the search, operationId and schema indexes
+   */
+  private addApi(apiSpec: ApiSpec) {
+    const key = apiSpec.name
+    this.specs.set(key, apiSpec)
+
+    // Ranked search across all APIs
+    this.searchIndex.addSpec(key, apiSpec.spec)
+
+    // Map operationIds back to path + method, flagging ids declared twice
+    this.operationIndex.addSpec(key, apiSpec.spec)
+    for (const duplicate of this.operationIndex.duplicates(key)) {
+      const locations = duplicate.operations.map(op => `${op.method} ${op.path}`).join(', ')
+      this.log(`Duplicate operationId "${duplicate.operationId}" in ${duplicate.api}: ${locations}`)
+    }
+
+    // Reference graph for schema catalog and reverse usage lookups
+    this.schemaGraphs.set(key, new SchemaGraph(apiSpec.spec))
+  }
+
+  /**
+   * Drop a spec with everything indexed or cached for it
+   */
+  private removeApi(key: string) {
+    const existing = this.specs.get(key)
+    if (!existing) {
+      return
+    }
+
+    this.specs.delete(key)
+    this.refCache.delete(existing.spec)
+    this.clearExamples(key)
+    this.searchIndex.removeSpec(key)
+    this.operationIndex.removeSpec(key)
+    this.schemaGraphs.delete(key)
+  }
+
+  private clearExamples(key: string) {
+    for (const cacheKey of this.exampleCache.keys()) {
+      if (cacheKey.startsWith(`${key}:`)) {
+        this.exampleCache.delete(cacheKey)
+      }
+    }
+  }
+
+  /**
+   * Apply changes from the spec watcher, then tell every connected client
+   *
+   * A spec that no longer parses keeps its previous version, so a
+   * half-written file never takes an API offline.
+   */
+  private async applyChanges(changes: SpecChange[]) {
+    let changed = false
+
+    for (const change of changes) {
+      if (change.kind === 'types') {
+        this.typeCache.invalidate(change.path)
+        for (const [key, apiSpec] of this.specs) {
+          if (join(apiSpec.path, '..') === join(change.path, '..')) {
+            this.clearExamples(key)
+          }
+        }
+        this.log(`Reloaded type definitions for: ${change.key}`)
+        changed = true
+        continue
+      }
+
+      // A file referenced via $ref reloads the specs using it instead of loading as an API
+      this.documents.invalidate(change.path)
+      const dependents = Array.from(this.specs.values()).filter(apiSpec => apiSpec.files?.includes(resolve(change.path)))
+      for (const apiSpec of dependents) {
+        changed = await this.reloadApi(apiSpec.name, apiSpec.path) || changed
+      }
+      if (dependents.length > 0) {
+        continue
+      }
+
+      // Another format of the same spec may still exist, and may be the preferred one
+      const path = preferredSpecFile(change.path)
+      if (!path) {
+        this.loadFailures.delete(change.path)
+        if (this.specs.has(change.key)) {
+          this.removeApi(change.key)
+          this.log(`Removed API: ${change.key}`)
+          changed = true
+        }
+        continue
+      }
+
+      changed = await this.reloadApi(change.key, path) || changed
+    }
+
+    if (!changed) {
+      return
+    }
+
+    for (const server of this.servers) {
+      if (server.isConnected()) {
+        server.sendToolListChanged()
+        server.sendResourceListChanged()
+      }
+    }
+  }
+
+  /**
+   * Replace a loaded API with the current contents of its file
+   *
+   * @returns whether the API changed
+   */
+  private async reloadApi(key: string, path: string): Promise<boolean> {
+    try {
+      const apiSpec = await this.readApi(key, path)
+      if (!apiSpec) {
+        return false
+      }
+
+      this.removeApi(key)
+      this.addApi(apiSpec)
+      this.log(`Reloaded API: ${key}`)
+      return true
+    }
+    catch (error) {
+      this.loadFailures.set(path, error instanceof Error ? error.message : String(error))
+      this.log(`Failed to reload ${key}, keeping the previous version:`, error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+
   // Removed warmCaches() and preResolveRefs() methods
   // Now using lazy loading: schemas are resolved and cached on first use in resolveRef()
   // This saves ~121KB memory (75% of unused cache) and improves startup time
@@ -195,6 +418,7 @@ class SuFetchMCPServer {
     method: string,
     typeHelperName: string,
     operation: OpenAPIOperation,
+    parameters: OpenAPIParameter[],
   ): string[] {
     const lowerMethod = method.toLowerCase()
     const typeDefs: string[] = []
@@ -202,15 +426,11 @@ class SuFetchMCPServer {
     // Find type helper info for adding JSDoc comments
     const typeHelperInfo = this.typeCache.findTypeHelper(typeHelperName)
 
-    const pathParams = operation.parameters?.filter((p): p is OpenAPIParameter =>
-      !('$ref' in p) && p.in === 'path',
-    )
-    const queryParams = operation.parameters?.filter((p): p is OpenAPIParameter =>
-      !('$ref' in p) && p.in === 'query',
-    )
+    const pathParams = parameters.filter(p => p.in === 'path')
+    const queryParams = parameters.filter(p => p.in === 'query')
     const requestBody = operation.requestBody
 
-    if (pathParams && pathParams.length > 0) {
+    if (pathParams.length > 0) {
       const pathDesc = typeHelperInfo?.properties.find(p => p.name === 'path')?.description
       if (pathDesc) {
         typeDefs.push(`/** ${pathDesc} */`)
@@ -218,7 +438,7 @@ class SuFetchMCPServer {
       typeDefs.push(`type PathParams = ${typeHelperName}<'${path}', '${lowerMethod}'>['path']`)
     }
 
-    if (queryParams && queryParams.length > 0) {
+    if (queryParams.length > 0) {
       const queryDesc = typeHelperInfo?.properties.find(p => p.name === 'query')?.description
       if (queryDesc) {
         typeDefs.push(`/** ${queryDesc} */`)
@@ -234,42 +454,88 @@ class SuFetchMCPServer {
       typeDefs.push(`type RequestBody = ${typeHelperName}<'${path}', '${lowerMethod}'>['request']`)
     }
 
+    if (Object.keys(operation.responses || {}).some(isErrorStatus)) {
+      typeDefs.push('/** Error responses by status code */')
+      typeDefs.push(`type ErrorResponses = ${typeHelperName}<'${path}', '${lowerMethod}'>['responses']`)
+    }
+
     return typeDefs
   }
 
   /**
-   * Generate authentication headers based on security schemes
+   * Generate authentication options for one set of security requirements
+   *
+   * Schemes a static header cannot satisfy (e.g., HTTP Digest, which answers
+   * a per-request server challenge) become a comment instead of wrong code.
    */
-  private generateAuthHeaders(securitySchemes: Record<string, unknown>): string[] {
+  private generateAuthHeaders(requirements: SecurityRequirementDetail[]): string[] {
     const headers: string[] = []
+    const query: string[] = []
+    const unsupported: string[] = []
 
-    if (securitySchemes.bearerAuth || securitySchemes.Bearer) {
-      headers.push('  headers: {')
-      // eslint-disable-next-line no-template-curly-in-string
-      headers.push('    \'Authorization\': `Bearer ${YOUR_TOKEN}`,')
-      headers.push('  },')
+    for (const requirement of requirements) {
+      if (requirement.type === 'http' && requirement.httpScheme === 'basic') {
+        // eslint-disable-next-line no-template-curly-in-string
+        headers.push('    \'Authorization\': `Basic ${btoa(`${USERNAME}:${PASSWORD}`)}`,')
+      }
+      else if (requirement.type === 'http' && requirement.httpScheme === 'bearer') {
+        // eslint-disable-next-line no-template-curly-in-string
+        headers.push('    \'Authorization\': `Bearer ${YOUR_TOKEN}`,')
+      }
+      else if (requirement.type === 'http') {
+        unsupported.push(`  // ${requirement.scheme}: HTTP ${requirement.httpScheme} authentication is not supported here; send its Authorization header yourself (${requirement.usage})`)
+      }
+      else if (requirement.type === 'oauth2' || requirement.type === 'openIdConnect') {
+        const scopes = requirement.scopes.length > 0 ? ` // scopes: ${requirement.scopes.join(', ')}` : ''
+        headers.push(`    'Authorization': \`Bearer \${ACCESS_TOKEN}\`,${scopes}`)
+      }
+      else if (requirement.type === 'apiKey' && requirement.in === 'query') {
+        query.push(`    '${requirement.name}': YOUR_API_KEY,`)
+      }
+      else if (requirement.type === 'apiKey' && requirement.in === 'cookie') {
+        headers.push(`    'Cookie': \`${requirement.name}=\${YOUR_API_KEY}\`,`)
+      }
+      else if (requirement.type === 'apiKey') {
+        headers.push(`    '${requirement.name}': YOUR_API_KEY,`)
+      }
+      else {
+        unsupported.push(`  // ${requirement.scheme}: ${requirement.usage}`)
+      }
     }
-    else if (securitySchemes.apiKey || securitySchemes.ApiKey) {
-      headers.push('  headers: {')
-      headers.push('    \'X-API-Key\': YOUR_API_KEY,')
-      headers.push('  },')
+
+    const parts: string[] = [...unsupported]
+    if (headers.length > 0) {
+      parts.push('  headers: {', ...headers, '  },')
+    }
+    if (query.length > 0) {
+      parts.push('  query: {', ...query, '  },')
     }
 
-    return headers
+    return parts
   }
 
   /**
    * Generate client setup code with authentication
+   *
+   * Uses the operation's own security requirements when given, otherwise the spec's global ones.
    */
-  private generateClientSetup(serviceName: string, spec: OpenAPIDocument): string {
+  private generateClientSetup(serviceName: string, spec: OpenAPIDocument, operation?: OpenAPIOperation): string {
     const baseUrlExample = spec.servers?.[0]?.url || 'https://api.example.com'
     const setupParts = [
       'const client = createClient({',
       `  baseURL: '${baseUrlExample}',`,
     ]
 
-    if (spec.components?.securitySchemes) {
-      setupParts.push(...this.generateAuthHeaders(spec.components.securitySchemes))
+    const alternatives = operation
+      ? getOperationSecurity(spec, operation).alternatives
+      : describeRequirements(spec, spec.security || [])
+
+    if (alternatives[0]) {
+      setupParts.push(...this.generateAuthHeaders(alternatives[0]))
+    }
+    if (alternatives.length > 1) {
+      const others = alternatives.slice(1).map(set => set.map(requirement => requirement.scheme).join(' + '))
+      setupParts.push(`  // Alternatively authenticate with: ${others.join(' or ')}`)
     }
 
     setupParts.push(`}).with(${serviceName})`)
@@ -441,6 +707,135 @@ class SuFetchMCPServer {
     return requestParts
   }
 
+  /**
+   * Generate a loop that collects the items of every page
+   */
+  private generatePaginatedRequestCode(
+    path: string,
+    method: string,
+    pathParams: OpenAPIParameter[] | undefined,
+    queryParams: OpenAPIParameter[] | undefined,
+    pagination: PaginationInfo,
+  ): string[] {
+    const [requestLine] = this.generateRequestCode(path, method, pathParams, undefined, undefined)
+    const itemsName = pagination.itemsField ? this.camelCase(pagination.itemsField) : 'items'
+    const itemsType = pagination.itemsField ? `Page['${pagination.itemsField}']` : 'Page'
+    const itemsAccess = pagination.itemsField ? fieldAccess('response', pagination.itemsField) : 'response'
+    const cursor = this.camelCase(pagination.pageParam)
+    const pageSize = pagination.maxPageSize ?? 50
+    const numeric = pagination.style !== 'cursor'
+    const fromUrl = (url: string): string => numeric
+      ? `${url} ? Number(new URL(${url}).searchParams.get('${pagination.pageParam}')) : undefined`
+      : `${url} ? new URL(${url}).searchParams.get('${pagination.pageParam}') ?? undefined : undefined`
+
+    const descriptions: Record<string, string> = {
+      'field': `the next ${numeric ? 'page number' : 'page token'} is in ${pagination.next.location}`,
+      'link': `the next page URL is in ${pagination.next.location}`,
+      'header': 'the next page URL is in the Link header',
+      'short-page': 'stop at the first page with fewer items than requested',
+    }
+
+    const parts = [
+      `// Fetch every page: ${descriptions[pagination.next.source]}`,
+      `const ${itemsName}: ${itemsType} = []`,
+      `let ${cursor}: ${numeric ? 'number' : 'string'} | undefined${pagination.style === 'page' ? ' = 1' : (pagination.style === 'offset' ? ' = 0' : '')}`,
+      'do {',
+    ]
+
+    if (pagination.next.source === 'header') {
+      parts.push('  let link = null as string | null')
+    }
+
+    parts.push(`  ${requestLine}`)
+    parts.push(`    method: '${method.toUpperCase()}',`)
+    parts.push('    query: {')
+    if (queryParams && queryParams.length > 0) {
+      parts.push('      ...queryParams,')
+    }
+    parts.push(`      ${pagination.pageParam}: ${cursor},`)
+    if (pagination.sizeParam) {
+      parts.push(`      ${pagination.sizeParam}: ${pageSize},`)
+    }
+    parts.push('    },')
+    if (pagination.next.source === 'header') {
+      parts.push('    onResponse: ({ response }) => {')
+      parts.push('      link = response.headers.get(\'link\')')
+      parts.push('    },')
+    }
+    parts.push('  })')
+    parts.push(`  ${itemsName}.push(...${itemsAccess})`)
+
+    switch (pagination.next.source) {
+      case 'field':
+        parts.push(`  ${cursor} = ${fieldAccess('response', pagination.next.location!, true)} ?? undefined`)
+        break
+      case 'link':
+        parts.push(`  const next = ${fieldAccess('response', pagination.next.location!, true)}`)
+        parts.push(`  ${cursor} = ${fromUrl('next')}`)
+        break
+      case 'header':
+        parts.push('  const next = link?.match(/<([^>]+)>;\\s*rel="next"/)?.[1]')
+        parts.push(`  ${cursor} = ${fromUrl('next')}`)
+        break
+      case 'short-page':
+        parts.push(`  ${cursor} = ${itemsAccess}.length < ${pageSize} ? undefined : ${cursor}! + ${pagination.style === 'offset' ? pageSize : 1}`)
+        break
+    }
+
+    parts.push(`} while (${cursor} !== undefined)`)
+    parts.push('')
+    parts.push(`console.log(\`Fetched \${${itemsName}.length} ${pagination.itemsField || 'items'}\`)`)
+
+    return parts
+  }
+
+  /**
+   * Wrap request code in a try/catch that narrows on the declared error responses
+   */
+  private generateErrorHandlingCode(spec: OpenAPIDocument, operation: OpenAPIOperation, requestParts: string[]): string[] {
+    // Redirects and informational responses don't throw; "default" alone may well be the success response
+    const errors = listErrorResponses(spec, operation, ref => this.resolveRef(ref, spec))
+      .filter(response => !/^[13]/.test(response.status))
+    if (!errors.some(response => isErrorStatus(response.status))) {
+      return requestParts
+    }
+
+    const parts = ['try {', ...requestParts.map(line => (line ? `  ${line}` : line)), '}', 'catch (error) {']
+    parts.push('  // Non-2xx responses throw; the status and parsed error body are on the error')
+    parts.push('  const { status = 0, data } = error as { status?: number, data?: unknown }')
+
+    // Exact codes before ranges before default, as the spec resolves them
+    const ordered = [...errors].sort((a, b) => statusRank(a.status) - statusRank(b.status))
+    const branches = ordered.map((response) => {
+      const condition = statusCondition(response.status)
+      const access = response.messagePath ? fieldAccess('body', response.messagePath) : 'body'
+      const summary = response.description?.split('\n')[0]
+      return [
+        condition,
+        [
+          ...(summary ? [`// ${summary}`] : []),
+          `const body = data as ErrorResponses['${response.status}']`,
+          `console.error(status, ${access})`,
+        ],
+      ] as const
+    })
+
+    branches.forEach(([condition, body], index) => {
+      const keyword = condition
+        ? `${index === 0 ? 'if' : 'else if'} (${condition}) {`
+        : (index === 0 ? '{' : 'else {')
+      parts.push(`  ${keyword}`, ...body.map(line => `    ${line}`), '  }')
+    })
+
+    parts.push('  throw error')
+    parts.push('}')
+    return parts
+
+    function statusRank(status: string): number {
+      return /^\d{3}$/.test(status) ? 0 : (status === 'default' ? 2 : 1)
+    }
+  }
+
   /**
    * Get the path to types.d.ts for the given API
    */
@@ -556,18 +951,21 @@ class SuFetchMCPServer {
   /**
    * Register all tools with automatic Zod validation
    */
-  private registerTools() {
+  private registerTools(server: McpServer) {
     // Note: We use z.string() with descriptions instead of z.enum() because:
     // 1. Specs are loaded asynchronously, so enum values aren't available at registration time
     // 2. The SDK validates against actual loaded APIs at runtime
     // 3. This provides better error messages to users
+    // Suggestions come from prompt and resource template completions (MCP has no completion for tool arguments)
     const httpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'])
+    const { budgetShape, outputShape } = this.outputShapes()
 
     // Tool 1: list_apis
-    this.server.tool(
+    server.tool(
       'list_apis',
       'List all available API specifications with their metadata',
-      async () => {
+      outputShape,
+      this.withOutput(async (output) => {
         const apis = Array.from(this.specs.values()).map(spec => ({
           name: spec.name,
           title: spec.spec.info?.title || 'Unknown',
@@ -575,112 +973,92 @@ class SuFetchMCPServer {
           description: spec.spec.info?.description || '',
         }))
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(apis, null, 2) }],
-        }
-      },
+        return this.json(apis, output)
+      }),
     )
 
     // Tool 2: get_api_info
-    this.server.tool(
+    server.tool(
       'get_api_info',
       'Get detailed information about a specific API',
       {
         api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        ...outputShape,
       },
-      async ({ api_name }) => {
-        const spec = this.specs.get(api_name)!
+      this.withOutput(async ({ api_name, ...output }) => {
+        const spec = this.getSpec(api_name)
 
         const info = {
           title: spec.spec.info?.title,
           version: spec.spec.info?.version,
           description: spec.spec.info?.description,
           servers: spec.spec.servers || [],
-          tags: spec.spec.tags || [],
+          tags: collectTags(spec.spec).tags.map(tag => ({
+            name: tag.name,
+            description: tag.description,
+            operationCount: tag.operationCount,
+          })),
         }
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(info, null, 2) }],
-        }
-      },
+        return this.json(info, output)
+      }),
     )
 
     // Tool 3: search_endpoints
-    this.server.tool(
+    server.tool(
       'search_endpoints',
-      'Search for API endpoints by query, method, or tags',
+      'Search for API endpoints by query, method, or tags. Results are ranked by relevance across path, operationId, summary, description, tags and parameter names',
       {
-        api_name: z.string().describe('API to search (e.g., "hetzner/cloud", "ory/kratos")'),
-        query: z.string().optional().describe('Search query for path/summary/operationId'),
+        api_name: z.string().optional().describe('API to search (e.g., "hetzner/cloud", "ory/kratos"). Omit to search all APIs'),
+        query: z.string().optional().describe('Free-text search query (e.g., "resize droplet", "list server types")'),
         method: httpMethodSchema.optional().describe('Filter by HTTP method'),
+        tags: z.array(z.string()).optional().describe('Only return endpoints with at least one of these tags (use list_tags to browse)'),
         limit: z.number().min(1).max(100).default(20).describe('Maximum results to return'),
+        ...outputShape,
       },
-      async ({ api_name, query, method, limit }) => {
-        const spec = this.specs.get(api_name)!
-        const paths = spec.spec.paths || {}
-        const results: any[] = []
-
-        for (const [path, pathItem] of Object.entries(paths)) {
-          if (results.length >= limit)
-            break
-
-          for (const [m, operation] of Object.entries(pathItem as any)) {
-            if (results.length >= limit)
-              break
-
-            if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(m)) {
-              const op = operation as any
-              const matchesQuery = !query
-                || path.toLowerCase().includes(query.toLowerCase())
-                || op.summary?.toLowerCase().includes(query.toLowerCase())
-                || op.operationId?.toLowerCase().includes(query.toLowerCase())
-
-              const matchesMethod = !method || m.toUpperCase() === method
-
-              if (matchesQuery && matchesMethod) {
-                results.push({
-                  path,
-                  method: m.toUpperCase(),
-                  operationId: op.operationId,
-                  summary: op.summary,
-                  description: op.description,
-                  tags: op.tags || [],
-                })
-              }
-            }
-          }
+      this.withOutput(async ({ api_name, query, method, tags, limit, ...output }) => {
+        if (api_name) {
+          this.getSpec(api_name)
         }
+        const options = { api: api_name, method, tags, limit }
+        const results = query
+          ? this.searchIndex.search(query, options)
+          : this.searchIndex.list(options)
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-        }
-      },
+        return this.json(results, output)
+      }),
     )
 
-    // Tool 4: get_endpoint_details
-    this.server.tool(
-      'get_endpoint_details',
-      'Get complete details and usage example for a specific endpoint',
+    // Tool 4: list_tags
+    server.tool(
+      'list_tags',
+      'List all tags of an API with descriptions, operation counts and navigation grouping',
       {
         api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
-        path: z.string().describe('Endpoint path (e.g., "/users")'),
-        method: httpMethodSchema.describe('HTTP method'),
+        ...outputShape,
       },
-      async ({ api_name, path, method }) => {
-        const spec = this.specs.get(api_name)!
-        const pathItem = spec.spec.paths?.[path]
+      this.withOutput(async ({ api_name, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const catalog = collectTags(spec.spec)
 
-        if (!pathItem) {
-          throw new Error(`Path not found: ${path}`)
-        }
+        return this.json(catalog, output)
+      }),
+    )
 
-        const operation = (pathItem as any)[method.toLowerCase()] as OpenAPIOperation
-        if (!operation) {
-          const availableMethods = Object.keys(pathItem)
-            .filter(m => ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(m))
-            .map(m => m.toUpperCase())
-          throw new Error(`Method ${method} not found for ${path}. Available: ${availableMethods.join(', ')}`)
-        }
+    // Tool 5: get_endpoint_details
+    server.tool(
+      'get_endpoint_details',
+      'Get complete details and usage example for a specific endpoint, addressed by path + method or by operationId',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().optional().describe('Endpoint path (e.g., "/users")'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId (e.g., "droplets_create"), instead of path + method'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
 
         const codeExample = this.generateCodeExample(api_name, spec.spec, path, method, operation)
 
@@ -689,63 +1067,93 @@ class SuFetchMCPServer {
         const { 'x-codeSamples': _, 'x-code-samples': __, ...cleanOperation } = operationWithExtensions
 
         const result = {
+          path,
+          method,
           endpoint: cleanOperation,
+          security: getOperationSecurity(spec.spec, operation),
+          pagination: detectPagination(spec.spec, findOperation(spec.spec, path, method)!, ref => this.resolveRef(ref, spec.spec)),
           usage_example: {
             description: 'Copy-paste ready TypeScript code',
             code: codeExample.fullExample,
           },
         }
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-        }
-      },
+        return this.json(result, output)
+      }),
     )
 
-    // Tool 5: get_schema_details
-    this.server.tool(
+    // Tool 6: get_schema_details
+    server.tool(
       'get_schema_details',
       'Get details about a schema/model definition',
       {
         api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
         schema_name: z.string().describe('Schema name from components/schemas'),
+        ...outputShape,
       },
-      async ({ api_name, schema_name }) => {
-        const spec = this.specs.get(api_name)!
+      this.withOutput(async ({ api_name, schema_name, ...output }) => {
+        const spec = this.getSpec(api_name)
         const schema = spec.spec.components?.schemas?.[schema_name]
 
         if (!schema) {
-          const availableSchemas = Object.keys(spec.spec.components?.schemas || {})
-          throw new Error(`Schema "${schema_name}" not found. Available: ${availableSchemas.slice(0, 10).join(', ')}`)
+          throw this.schemaNotFound(api_name, schema_name)
         }
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(schema, null, 2) }],
-        }
-      },
+        return this.json(schema, output)
+      }),
     )
 
-    // Tool 6: generate_code_example
-    this.server.tool(
-      'generate_code_example',
-      'Generate a complete TypeScript code example for an endpoint',
+    // Tool 7: get_resolved_schema
+    server.tool(
+      'get_resolved_schema',
+      'Get a fully dereferenced schema (refs inlined, allOf merged, oneOf/anyOf variants labeled) by component name or by location inside an endpoint',
       {
         api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
-        path: z.string().describe('Endpoint path'),
-        method: httpMethodSchema.describe('HTTP method'),
+        schema_name: z.string().optional().describe('Schema name from components/schemas'),
+        path: z.string().optional().describe('Endpoint path, when addressing a schema by location'),
+        method: httpMethodSchema.optional().describe('HTTP method, when addressing a schema by location'),
+        location: z.string().optional().describe('Schema location: "requestBody", "response:<status>" or "parameter:<name>"'),
+        max_depth: z.number().min(1).max(20).default(8).describe('Maximum nesting depth before truncating'),
+        ...outputShape,
       },
-      async ({ api_name, path, method }) => {
-        const spec = this.specs.get(api_name)!
-        const pathItem = spec.spec.paths?.[path]
-
-        if (!pathItem) {
-          throw new Error(`Path not found: ${path}`)
+      this.withOutput(async ({ api_name, schema_name, path, method, location, max_depth, ...output }) => {
+        const spec = this.getSpec(api_name)
+        let schema: unknown
+
+        if (schema_name) {
+          schema = spec.spec.components?.schemas?.[schema_name]
+          if (!schema) {
+            throw this.schemaNotFound(api_name, schema_name)
+          }
         }
-
-        const operation = (pathItem as any)[method.toLowerCase()] as OpenAPIOperation
-        if (!operation) {
-          throw new Error(`Method ${method} not found for ${path}`)
+        else if (path && method && location) {
+          this.resolveEndpoint(api_name, spec.spec, path, method)
+          schema = locateSchema(spec.spec, findOperation(spec.spec, path, method)!, location)
         }
+        else {
+          throw new ToolError('INVALID_ARGUMENTS', 'Provide either schema_name, or path + method + location')
+        }
+
+        const resolved = this.dereference(schema, spec.spec, max_depth)
+
+        return this.json(resolved, output)
+      }),
+    )
+
+    // Tool 8: generate_code_example
+    server.tool(
+      'generate_code_example',
+      'Generate a complete TypeScript code example for an endpoint, addressed by path + method or by operationId',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().optional().describe('Endpoint path'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId (e.g., "createIdentity"), instead of path + method'),
+        ...budgetShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
 
         const codeExample = this.generateCodeExample(api_name, spec.spec, path, method, operation)
 
@@ -777,18 +1185,19 @@ ${codeExample.usage}
         return {
           content: [{ type: 'text', text: markdown }],
         }
-      },
+      }),
     )
 
-    // Tool 7: get_quickstart
-    this.server.tool(
+    // Tool 9: get_quickstart
+    server.tool(
       'get_quickstart',
       'Generate a quickstart guide with common operations for an API',
       {
         api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        ...budgetShape,
       },
-      async ({ api_name }) => {
-        const spec = this.specs.get(api_name)!
+      this.withOutput(async ({ api_name }) => {
+        const spec = this.getSpec(api_name)
         const quickstart = this.generateQuickstart(api_name, spec.spec)
 
         const markdown = `# Quickstart Guide: ${spec.spec.info?.title || api_name}
@@ -819,26 +1228,489 @@ ${quickstart}
         return {
           content: [{ type: 'text', text: markdown }],
         }
+      }),
+    )
+
+    // Tool 10: validate_request
+    server.tool(
+      'validate_request',
+      'Validate a candidate request (path params, query, headers, body) against an endpoint\'s parameter and request body schemas. Returns JSON-pointer errors',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().describe('Endpoint path (e.g., "/servers/{id}")'),
+        method: httpMethodSchema.describe('HTTP method'),
+        path_params: z.record(z.any()).optional().describe('Path parameter values (e.g., { "id": 42 })'),
+        query: z.record(z.any()).optional().describe('Query parameter values'),
+        headers: z.record(z.any()).optional().describe('Header values'),
+        body: z.any().optional().describe('Request body as JSON'),
+        ...outputShape,
       },
+      this.withOutput(async ({ api_name, path, method, path_params, query, headers, body, ...output }) => {
+        const spec = this.getSpec(api_name)
+        this.resolveEndpoint(api_name, spec.spec, path, method)
+        const entry = findOperation(spec.spec, path, method)!
+
+        const result = validateRequest(spec.spec, entry, { path: path_params, query, headers, body })
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 11: validate_response
+    server.tool(
+      'validate_response',
+      'Validate a real API response against the schema declared for its status code. Lists undeclared fields, missing required fields and type mismatches',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().describe('Endpoint path (e.g., "/servers/{id}")'),
+        method: httpMethodSchema.describe('HTTP method'),
+        status: z.number().int().min(100).max(599).describe('HTTP status code of the response'),
+        payload: z.any().describe('Response body as JSON'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path, method, status, payload, ...output }) => {
+        const spec = this.getSpec(api_name)
+        this.resolveEndpoint(api_name, spec.spec, path, method)
+        const entry = findOperation(spec.spec, path, method)!
+
+        const result = validateResponse(spec.spec, entry, status, payload)
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 12: get_operation
+    server.tool(
+      'get_operation',
+      'Look up an endpoint by operationId (as cited in vendor docs and x-codeSamples). Returns path, method and tags, and flags operationIds that the spec declares more than once',
+      {
+        operation_id: z.string().describe('operationId (e.g., "droplets_create", "createIdentity")'),
+        api_name: z.string().optional().describe('API to look in (e.g., "hetzner/cloud", "ory/kratos"). Omit to search all APIs'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ operation_id, api_name, ...output }) => {
+        if (api_name) {
+          this.getSpec(api_name)
+        }
+        const matches = this.operationIndex.find(operation_id, api_name)
+
+        if (matches.length === 0) {
+          throw new ToolError('OPERATION_NOT_FOUND', `operationId "${operation_id}" not found${api_name ? ` in ${api_name}` : ''}`, suggestNames(this.operationIndex.ids(api_name), operation_id))
+        }
+
+        const result = {
+          matches,
+          duplicates: this.operationIndex.duplicates(api_name)
+            .filter(duplicate => matches.some(match => match.api === duplicate.api && match.operationId === duplicate.operationId)),
+        }
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 13: diff_specs
+    server.tool(
+      'diff_specs',
+      'Compare an older version of a spec with the loaded one. Lists added/removed operations, added/removed/retyped fields, new required parameters, enum and response code changes, each classified as breaking or non-breaking',
+      {
+        api_name: z.string().describe('API name of the new version (e.g., "hetzner/cloud", "ory/kratos")'),
+        base_file: z.string().optional().describe('Path to the older spec file (JSON or YAML), relative to or inside the specs directory'),
+        base_spec: z.record(z.any()).optional().describe('The older spec as a JSON object, instead of base_file'),
+        breaking_only: z.boolean().default(false).describe('Only return breaking changes'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, base_file, base_spec, breaking_only, ...output }) => {
+        const spec = this.getSpec(api_name)
+        let before: OpenAPIDocument
+
+        if (base_spec) {
+          before = base_spec as OpenAPIDocument
+        }
+        else if (base_file) {
+          // Over HTTP the path comes from a remote client, so only files below the specs directory are readable
+          const specsDir = this.config.paths.specsDir
+          const file = resolve(specsDir, base_file)
+          const relativePath = relative(specsDir, file)
+          if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+            throw new ToolError('INVALID_ARGUMENTS', `base_file must be inside the specs directory (${specsDir})`, ['Pass the older spec as base_spec instead'])
+          }
+          before = (await bundleSpec(await readSpecFile(file), file, { root: specsDir, cache: this.documents })).spec
+        }
+        else {
+          throw new ToolError('INVALID_ARGUMENTS', 'Provide either base_file or base_spec')
+        }
+
+        // A Swagger 2.0 base is compared in converted form, like the loaded spec
+        if (isSwagger2(before)) {
+          before = convertSwagger2(before).spec
+        }
+
+        const diff = diffSpecs(before, spec.spec)
+        const result = breaking_only
+          ? { ...diff, changes: diff.changes.filter(change => change.breaking) }
+          : diff
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 14: list_schemas
+    server.tool(
+      'list_schemas',
+      'List component schemas of an API with search and pagination. Each entry shows type, property count and how many operations use it',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        query: z.string().optional().describe('Filter by name or description (case-insensitive)'),
+        offset: z.number().int().min(0).default(0).describe('Number of schemas to skip'),
+        limit: z.number().int().min(1).max(200).default(50).describe('Maximum schemas to return'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, query, offset, limit, ...output }) => {
+        const page = this.schemaGraphs.get(this.getSpec(api_name).name)!.list({ query, offset, limit })
+
+        return this.json(page, output)
+      }),
+    )
+
+    // Tool 15: find_schema_usages
+    server.tool(
+      'find_schema_usages',
+      'Find which operations accept or return a schema (directly or nested in other schemas), in which field, and which schemas reference it',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        schema_name: z.string().describe('Schema name from components/schemas'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, schema_name, ...output }) => {
+        const graph = this.schemaGraphs.get(this.getSpec(api_name).name)!
+
+        if (!graph.has(schema_name)) {
+          throw this.schemaNotFound(api_name, schema_name)
+        }
+
+        const result = { schema: schema_name, ...graph.findUsages(schema_name) }
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 16: get_security_requirements
+    server.tool(
+      'get_security_requirements',
+      'Get the security schemes that apply to an endpoint: HTTP bearer/basic, apiKey location and name, or OAuth2 flows with token URLs and required scopes',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/hydra")'),
+        path: z.string().optional().describe('Endpoint path'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId, instead of path + method'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
+
+        const result = { path, method, ...getOperationSecurity(spec.spec, operation) }
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 17: get_error_responses
+    server.tool(
+      'get_error_responses',
+      'List every non-2xx response of an endpoint with its resolved schema and the field carrying the error message',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().optional().describe('Endpoint path'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId, instead of path + method'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
+
+        const errors = listErrorResponses(spec.spec, operation, ref => this.resolveRef(ref, spec.spec))
+        const result = {
+          path,
+          method,
+          errors,
+          ...(errors.length === 0 && { note: 'The spec declares no non-2xx responses for this endpoint; check the API documentation for its error format' }),
+        }
+
+        return this.json(result, output)
+      }),
+    )
+
+    // Tool 18: plan_workflow
+    server.tool(
+      'plan_workflow',
+      'Plan the chain of calls needed to perform an endpoint: finds operations whose responses produce its required path params and body fields, and returns ordered steps with sufetch code',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().optional().describe('Target endpoint path'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId, instead of path + method'),
+        include_optional: z.boolean().default(false).describe('Also chain optional body fields that another operation can produce'),
+        follow_ups: z.boolean().default(true).describe('Append calls that read back the result (e.g., polling an action)'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id, include_optional, follow_ups, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
+        const entry = findOperation(spec.spec, path, method)!
+
+        const plan = planWorkflow(spec.spec, entry, { includeOptional: include_optional, followUps: follow_ups })
+
+        const serviceName = this.getApiServiceName(api_name)
+        const setup = [
+          `import { createClient, ${serviceName} } from 'sufetch/${api_name.split('/')[0]}'`,
+          '',
+          this.generateClientSetup(serviceName, spec.spec, operation),
+        ].join('\n')
+        const code = [setup, ...plan.steps.map(step => `// Step ${step.step} (${step.role}): ${step.operation}\n${step.code}`)].join('\n\n')
+
+        return this.json({ ...plan, code }, output)
+      }),
+    )
+
+    // Tool 19: generate_mock_response
+    server.tool(
+      'generate_mock_response',
+      'Generate a schema-valid mock response (body and headers) for an endpoint and status code, for unit tests against sufetch clients. Honors enums, formats, bounds, $refs, allOf and a chosen oneOf/anyOf variant; pass a seed for deterministic output',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().optional().describe('Endpoint path (e.g., "/servers/{id}")'),
+        method: httpMethodSchema.optional().describe('HTTP method'),
+        operation_id: z.string().optional().describe('operationId, instead of path + method'),
+        status: z.string().optional().describe('Status code, range or "default" (default: first 2xx response)'),
+        seed: z.number().int().optional().describe('Random seed; the same seed always yields the same mock'),
+        variant: z.number().int().min(0).default(0).describe('Index of the oneOf/anyOf variant to generate'),
+        use_examples: z.boolean().default(true).describe('Use valid example values from the spec'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path: pathArg, method: methodArg, operation_id, status, seed, variant, use_examples, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
+        const entry = findOperation(spec.spec, path, method)!
+
+        const mock = mockResponse(spec.spec, entry, status, { seed, variant, useExamples: use_examples }, ref => this.resolveRef(ref, spec.spec))
+
+        return this.json({ operation: `${method} ${path}`, ...mock }, output)
+      }),
+    )
+
+    // Tool 20: get_server_status
+    server.tool(
+      'get_server_status',
+      'Show what the server has loaded: each API with its source format, operation and schema counts, and warnings from resolving external refs or converting Swagger 2.0, plus spec files that failed to load and environment settings that were ignored',
+      outputShape,
+      this.withOutput(async (output) => {
+        const status = {
+          server: {
+            name: this.config.server.name,
+            version: this.config.server.version,
+            transport: this.config.transport.mode,
+            specsDir: this.config.paths.specsDir,
+            watching: this.config.watch.enabled,
+            configWarnings: this.config.warnings,
+          },
+          apis: Array.from(this.specs.values()).map(apiSpec => ({
+            name: apiSpec.name,
+            file: relative(this.config.paths.specsDir, apiSpec.path),
+            format: apiSpec.convertedFrom
+              ? `${apiSpec.convertedFrom} (converted to OpenAPI ${apiSpec.spec.openapi})`
+              : `OpenAPI ${apiSpec.spec.openapi}`,
+            operations: listOperations(apiSpec.spec).length,
+            webhooks: listWebhooks(apiSpec.spec).length,
+            schemas: this.schemaGraphs.get(apiSpec.name)?.size ?? 0,
+            externalFiles: apiSpec.files?.length ?? 0,
+            warnings: apiSpec.warnings ?? [],
+            diagnostics: apiSpec.diagnostics?.summary,
+          })),
+          failures: Array.from(this.loadFailures, ([path, error]) => ({ file: relative(this.config.paths.specsDir, path), error })),
+        }
+
+        return this.json(status, output)
+      }),
+    )
+
+    // Tool 21: list_webhooks
+    server.tool(
+      'list_webhooks',
+      'List the webhooks of an API (OpenAPI 3.1): requests the API sends to your endpoints. Use get_webhook for a payload schema',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, ...output }) => {
+        const spec = this.getSpec(api_name)
+        const webhooks = listWebhooks(spec.spec).map(({ path, method, operation }) => ({
+          name: path,
+          method: method.toUpperCase(),
+          operationId: operation.operationId,
+          summary: operation.summary,
+          tags: operation.tags,
+        }))
+
+        return this.json(webhooks, output)
+      }),
+    )
+
+    // Tool 22: get_webhook
+    server.tool(
+      'get_webhook',
+      'Get a webhook with its resolved payload schema and an example payload, to implement the receiving endpoint',
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        name: z.string().describe('Webhook name from list_webhooks (e.g., "newPet")'),
+        method: httpMethodSchema.optional().describe('HTTP method, for webhooks with more than one (default: the first)'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, name, method, ...output }) => {
+        const spec = this.getSpec(api_name)
+        return this.json(this.describeWebhook(spec, name, method), output)
+      }),
+    )
+
+    // Tool 23: get_spec_diagnostics
+    server.tool(
+      'get_spec_diagnostics',
+      'Lint findings for loaded specs: dangling $refs, duplicate operationIds and mismatched path parameters (errors), required fields missing from properties, operations without a success response and missing servers (warnings)',
+      {
+        api_name: z.string().optional().describe('API to report on (e.g., "hetzner/cloud", "ory/kratos"). Omit for all APIs'),
+        severity: z.enum(['error', 'warning']).optional().describe('Only return findings of this severity'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, severity, ...output }) => {
+        const apiSpecs = api_name ? [this.getSpec(api_name)] : Array.from(this.specs.values())
+        const diagnostics = apiSpecs.map(apiSpec => ({
+          name: apiSpec.name,
+          file: relative(this.config.paths.specsDir, apiSpec.path),
+          summary: apiSpec.diagnostics?.summary,
+          issues: (apiSpec.diagnostics?.issues ?? []).filter(issue => !severity || issue.severity === severity),
+          loadWarnings: apiSpec.warnings ?? [],
+        }))
+
+        return this.json(diagnostics, output)
+      }),
+    )
+
+    // Tool 24: execute_request (opt-in via SUFETCH_EXECUTE=true)
+    if (this.config.execute.enabled) {
+      this.registerExecuteTool(server, httpMethodSchema)
+    }
+  }
+
+  /**
+   * Register the execute_request tool
+   *
+   * Only methods in config.execute.allowedMethods are sent; any method can be dry-run.
+   */
+  private registerExecuteTool(server: McpServer, httpMethodSchema: z.ZodEnum<[string, ...string[]]>) {
+    const allowed = this.config.execute.allowedMethods
+    const { outputShape } = this.outputShapes()
+
+    server.tool(
+      'execute_request',
+      `Send a validated request to the live API and return status, headers and body. Allowed methods: ${allowed.join(', ') || 'none'}. Use dry_run to see the exact URL and headers without sending`,
+      {
+        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
+        path: z.string().describe('Endpoint path (e.g., "/servers/{id}")'),
+        method: httpMethodSchema.describe('HTTP method'),
+        path_params: z.record(z.any()).optional().describe('Path parameter values (e.g., { "id": 42 })'),
+        query: z.record(z.any()).optional().describe('Query parameter values'),
+        headers: z.record(z.any()).optional().describe('Extra header values'),
+        body: z.any().optional().describe('Request body as JSON'),
+        dry_run: z.boolean().default(false).describe('Return the assembled request without sending it'),
+        ...outputShape,
+      },
+      this.withOutput(async ({ api_name, path, method, path_params, query, headers, body, dry_run, ...output }) => {
+        const spec = this.getSpec(api_name)
+        this.resolveEndpoint(api_name, spec.spec, path, method)
+        const entry = findOperation(spec.spec, path, method)!
+
+        const { request, validation } = prepareRequest(
+          spec.spec,
+          entry,
+          { path: path_params, query, headers, body },
+          this.config.execute.targets[api_name],
+          api_name,
+        )
+
+        if (!request) {
+          this.auditLog.record({
+            timestamp: new Date().toISOString(),
+            api: api_name,
+            method: entry.method.toUpperCase(),
+            url: entry.path,
+            dryRun: dry_run,
+            refused: 'validation failed',
+          })
+          const issues = validation.errors.map(issue => `${issue.pointer}: ${issue.message}`)
+          throw new ToolError('VALIDATION_FAILED', `Request to ${entry.method.toUpperCase()} ${entry.path} is invalid: ${issues.join('; ')}`, [], validation)
+        }
+
+        const audit = {
+          timestamp: new Date().toISOString(),
+          api: api_name,
+          method: request.method,
+          url: request.url,
+          dryRun: dry_run,
+        }
+
+        if (dry_run) {
+          this.auditLog.record(audit)
+          const preview = {
+            sent: false,
+            method: request.method,
+            url: request.url,
+            headers: redactHeaders(request.headers),
+            body: request.body,
+            warnings: validation.warnings,
+          }
+
+          return this.json(preview, output)
+        }
+
+        if (!allowed.includes(request.method)) {
+          this.auditLog.record({ ...audit, refused: `${request.method} is not in SUFETCH_EXECUTE_METHODS` })
+          throw new ToolError('METHOD_NOT_ALLOWED', `Method ${request.method} is not allowed. Allowed: ${allowed.join(', ') || 'none'} (set SUFETCH_EXECUTE_METHODS)`, [...allowed])
+        }
+
+        try {
+          const result = await sendRequest(request, this.config.execute.timeout)
+          this.auditLog.record({ ...audit, status: result.status, durationMs: result.durationMs })
+
+          return this.json({ sent: true, url: request.url, ...result }, output)
+        }
+        catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          this.auditLog.record({ ...audit, error: message })
+          throw new ToolError('REQUEST_FAILED', `Request to ${request.url} failed: ${message}`)
+        }
+      }),
     )
   }
 
   /**
    * Register all prompts for common workflows
    */
-  private registerPrompts() {
-    // Note: We use z.string() with descriptions instead of z.enum() for the same reasons as tools
+  private registerPrompts(server: McpServer) {
+    // Note: We use z.string() with descriptions instead of z.enum() for the same reasons as tools;
+    // completions offer the loaded values instead
     const httpMethodSchema = z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS', 'HEAD'])
+    const complete = this.completers()
 
     // Prompt 1: quickstart
-    this.server.prompt(
+    server.prompt(
       'quickstart',
       'Get started with an API - installation, setup, and common examples',
       {
-        api_name: z.string().describe('API to generate quickstart for (e.g., "hetzner/cloud", "ory/kratos")'),
+        api_name: completable(z.string().describe('API to generate quickstart for (e.g., "hetzner/cloud", "ory/kratos")'), complete.apiName),
       },
-      async ({ api_name }) => {
-        const spec = this.specs.get(api_name)!
+      withMcpErrors(async ({ api_name }) => {
+        const spec = this.getSpec(api_name)
 
         return {
           messages: [
@@ -860,26 +1732,22 @@ Description: ${spec.spec.info?.description || 'No description available'}`,
             },
           ],
         }
-      },
+      }),
     )
 
     // Prompt 2: implement-endpoint
-    this.server.prompt(
+    server.prompt(
       'implement-endpoint',
       'Generate implementation guide for a specific endpoint with full code',
       {
-        api_name: z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'),
-        path: z.string().describe('Endpoint path'),
-        method: httpMethodSchema.describe('HTTP method'),
+        api_name: completable(z.string().describe('API name (e.g., "hetzner/cloud", "ory/kratos")'), complete.apiName),
+        path: completable(z.string().optional().describe('Endpoint path'), complete.path),
+        method: completable(httpMethodSchema.optional().describe('HTTP method'), (value, context) => complete.method(value, context) as Array<z.infer<typeof httpMethodSchema>>),
+        operation_id: completable(z.string().optional().describe('operationId, instead of path + method'), complete.operationId),
       },
-      async ({ api_name, path, method }) => {
-        const spec = this.specs.get(api_name)!
-        const pathItem = spec.spec.paths?.[path]
-        const operation = (pathItem as any)?.[method.toLowerCase()] as OpenAPIOperation
-
-        if (!operation) {
-          throw new Error(`Endpoint ${method} ${path} not found`)
-        }
+      withMcpErrors(async ({ api_name, path: pathArg, method: methodArg, operation_id }) => {
+        const spec = this.getSpec(api_name)
+        const { path, method, operation } = this.resolveEndpoint(api_name, spec.spec, pathArg, methodArg, operation_id)
 
         return {
           messages: [
@@ -890,7 +1758,7 @@ Description: ${spec.spec.info?.description || 'No description available'}`,
                 text: `Generate a complete implementation guide for this endpoint:
 
 **API**: ${api_name}
-**Endpoint**: ${method} ${path}
+**Endpoint**: ${method} ${path}${operation.operationId ? `\n**Operation ID**: ${operation.operationId}` : ''}
 **Summary**: ${operation.summary || 'No summary'}
 **Description**: ${operation.description || 'No description'}
 
@@ -906,19 +1774,19 @@ Use the \`generate_code_example\` tool to get the initial code, then enhance it
             },
           ],
         }
-      },
+      }),
     )
 
     // Prompt 3: explore-api
-    this.server.prompt(
+    server.prompt(
       'explore-api',
       'Interactive guide to explore an API with focus on specific area',
       {
-        api_name: z.string().describe('API to explore (e.g., "hetzner/cloud", "ory/kratos")'),
-        focus: z.string().optional().describe('Focus area (e.g., "authentication", "users")'),
+        api_name: completable(z.string().describe('API to explore (e.g., "hetzner/cloud", "ory/kratos")'), complete.apiName),
+        focus: completable(z.string().optional().describe('Focus area (e.g., "authentication", "users")'), complete.tag),
       },
-      async ({ api_name, focus }) => {
-        const spec = this.specs.get(api_name)!
+      withMcpErrors(async ({ api_name, focus }) => {
+        const spec = this.getSpec(api_name)
         const focusArea = focus || 'general overview'
 
         return {
@@ -948,7 +1816,160 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
             },
           ],
         }
-      },
+      }),
+    )
+  }
+
+  /**
+   * Completion callbacks shared by prompts and resource templates
+   *
+   * Arguments filled in so far arrive in `context.arguments`, so paths
+   * complete within the chosen API and methods within the chosen path.
+   */
+  private completers() {
+    const bySpec = (completeIn: (spec: OpenAPIDocument, value: string, context?: CompletionContext) => string[]) =>
+      (value: string | undefined, context?: CompletionContext): string[] => {
+        const api = context?.arguments?.api_name ?? context?.arguments?.api
+        const spec = api ? this.specs.get(api)?.spec : undefined
+        return spec ? completeIn(spec, value ?? '', context) : []
+      }
+
+    return {
+      apiName: (value: string | undefined): string[] => completeValues(this.specs.keys(), value ?? ''),
+      path: bySpec(completePaths),
+      method: bySpec((spec, value, context) => completeMethods(spec, context?.arguments?.path, value)),
+      operationId: bySpec(completeOperationIds),
+      schemaName: bySpec(completeSchemaNames),
+      webhookName: bySpec(completeWebhookNames),
+      tag: bySpec(completeTags),
+    }
+  }
+
+  /**
+   * Register resource templates for specs, operations, schemas and types
+   *
+   * API names contain a slash, so `{+api}` (reserved expansion) is used:
+   * `sufetch://hetzner/cloud/spec` reads the spec of "hetzner/cloud".
+   *
+   * `resources/list` has no pagination here, so it only lists the per-API
+   * spec and types resources. Operations, schemas and webhooks number in the
+   * thousands; clients reach them through their templates, with completions
+   * for the names.
+   */
+  private registerResources(server: McpServer) {
+    const complete = this.completers()
+    const apiNames = (): string[] => Array.from(this.specs.keys())
+    const json = (uri: URL, value: unknown) => ({
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+    })
+    const getSpec = (api: string | string[]): ApiSpec => this.getSpec(String(api))
+
+    // Resource 1: full spec
+    server.resource(
+      'spec',
+      new ResourceTemplate('sufetch://{+api}/spec', {
+        complete: { api: complete.apiName },
+        list: async () => ({
+          resources: apiNames().map(api => ({
+            uri: `sufetch://${api}/spec`,
+            name: `${api} spec`,
+            description: this.specs.get(api)!.spec.info?.title,
+            mimeType: 'application/json',
+          })),
+        }),
+      }),
+      { description: 'Full OpenAPI document of an API', mimeType: 'application/json' },
+      withMcpErrors(async (uri, { api }) => json(uri, getSpec(api!).spec)),
+    )
+
+    // Resource 2: operations by operationId
+    server.resource(
+      'operation',
+      new ResourceTemplate('sufetch://{+api}/operations/{operationId}', {
+        complete: { api: complete.apiName, operationId: complete.operationId },
+        list: undefined,
+      }),
+      { description: 'An endpoint addressed by operationId, with its security and pagination', mimeType: 'application/json' },
+      withMcpErrors(async (uri, { api, operationId }) => {
+        const spec = getSpec(api!)
+        const { path, method, operation } = this.resolveEndpoint(spec.name, spec.spec, undefined, undefined, decodeURIComponent(String(operationId)))
+        const { 'x-codeSamples': _, 'x-code-samples': __, ...cleanOperation } = operation as Record<string, any>
+
+        return json(uri, {
+          path,
+          method,
+          endpoint: cleanOperation,
+          security: getOperationSecurity(spec.spec, operation),
+          pagination: detectPagination(spec.spec, findOperation(spec.spec, path, method)!, ref => this.resolveRef(ref, spec.spec)),
+        })
+      }),
+    )
+
+    // Resource 3: component schemas
+    server.resource(
+      'schema',
+      new ResourceTemplate('sufetch://{+api}/schemas/{name}', {
+        complete: { api: complete.apiName, name: complete.schemaName },
+        list: undefined,
+      }),
+      { description: 'A component schema, as declared in the spec', mimeType: 'application/json' },
+      withMcpErrors(async (uri, { api, name }) => {
+        const spec = getSpec(api!)
+        const schemaName = decodeURIComponent(String(name))
+        const schema = spec.spec.components?.schemas?.[schemaName]
+
+        if (!schema) {
+          throw this.schemaNotFound(spec.name, schemaName)
+        }
+
+        return json(uri, schema)
+      }),
+    )
+
+    // Resource 4: webhooks by name
+    server.resource(
+      'webhook',
+      new ResourceTemplate('sufetch://{+api}/webhooks/{name}', {
+        complete: { api: complete.apiName, name: complete.webhookName },
+        list: undefined,
+      }),
+      { description: 'A webhook the API sends, with its resolved payload schema', mimeType: 'application/json' },
+      withMcpErrors(async (uri, { api, name }) => json(uri, this.describeWebhook(getSpec(api!), decodeURIComponent(String(name))))),
+    )
+
+    // Resource 5: type helper info from types.d.ts
+    server.resource(
+      'types',
+      new ResourceTemplate('sufetch://{+api}/types', {
+        complete: { api: complete.apiName },
+        list: async () => ({
+          resources: apiNames().filter(api => this.getTypesFilePath(api)).map(api => ({
+            uri: `sufetch://${api}/types`,
+            name: `${api} types`,
+            description: `Type helper for ${api} (${this.getTypeHelperName(api)})`,
+            mimeType: 'application/json',
+          })),
+        }),
+      }),
+      { description: 'Type helper of an API: name, documentation, usage examples and properties', mimeType: 'application/json' },
+      withMcpErrors(async (uri, { api }) => {
+        const spec = getSpec(api!)
+        const typesPath = this.getTypesFilePath(spec.name)
+
+        if (!typesPath) {
+          throw new ToolError('TYPES_NOT_FOUND', `No types.d.ts found for ${spec.name}`)
+        }
+
+        const typeHelper = this.getTypeHelperName(spec.name)
+        const helpers = this.typeCache.get(typesPath)
+
+        return json(uri, {
+          typeHelper,
+          import: `import type { ${typeHelper} } from 'sufetch/${spec.name.split('/')[0]}'`,
+          helper: helpers.find(helper => helper.name === typeHelper) ?? null,
+          otherHelpers: helpers.filter(helper => helper.name !== typeHelper).map(helper => helper.name),
+        })
+      }),
     )
   }
 
@@ -958,14 +1979,19 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
   }
 
   private generateExampleValue(property: any, propertyName: string, schema: any, spec: any): any {
-    if (property.example !== undefined) {
-      return property.example
+    const example = schemaExample(property)
+    if (example !== undefined) {
+      return example
     }
 
     if (property.default !== undefined) {
       return property.default
     }
 
+    if (property.const !== undefined) {
+      return property.const
+    }
+
     if (property.enum && property.enum.length > 0) {
       return property.enum[0]
     }
@@ -977,7 +2003,13 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
       }
     }
 
-    const type = property.type
+    const variant = withoutNull(property)
+    if (variant !== property) {
+      return this.generateExampleValue(variant, propertyName, schema, spec)
+    }
+
+    // 3.1 type lists (["string", "null"]) use their first non-null type
+    const type = primaryType(property)
 
     if (type === 'string') {
       const format = property.format
@@ -1017,13 +2049,17 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     }
 
     if (type === 'array') {
+      // 3.1 tuples: one value per prefixItems position
+      if (Array.isArray(property.prefixItems)) {
+        return property.prefixItems.map((item: any) => this.generateExampleValue(item, propertyName, schema, spec))
+      }
       const itemExample = property.items
         ? this.generateExampleValue(property.items, propertyName, schema, spec)
         : 'example'
       return [itemExample]
     }
 
-    if (type === 'object' || property.properties) {
+    if (type === 'object') {
       const obj: Record<string, any> = {}
       if (property.properties) {
         for (const [key, value] of Object.entries(property.properties)) {
@@ -1036,91 +2072,209 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     return null
   }
 
+  /**
+   * Resolve a local $ref against a spec
+   *
+   * Results are cached per spec, since the same ref (e.g. "#/components/schemas/genericError")
+   * points at different schemas in different APIs.
+   */
   private resolveRef(ref: string, spec: OpenAPIDocument): ResolvedSchema | null {
-    if (this.refCache.has(ref)) {
-      return this.refCache.get(ref) || null
+    let cache = this.refCache.get(spec)
+    if (!cache) {
+      cache = new Map()
+      this.refCache.set(spec, cache)
+    }
+
+    if (cache.has(ref)) {
+      return cache.get(ref) || null
     }
 
     this.log(`[resolveRef] Resolving: ${ref}`)
 
-    if (!ref.startsWith('#/')) {
-      this.log(`[resolveRef] External ref not supported: ${ref}`)
+    // 3.1 refs by `$id` or `$anchor` ("pet.json", "#pet") map to a pointer inside the spec
+    const pointer = ref.startsWith('#/') ? ref : (isOpenAPI31(spec) ? schemaIdPointer(spec, ref) : null)
+    if (!pointer) {
+      this.log(`[resolveRef] External ref was not resolved when loading the spec: ${ref}`)
+      return null
+    }
+
+    const resolved = resolvePointer(spec, pointer) as ResolvedSchema | null
+    if (!resolved) {
+      this.log(`[resolveRef] Final result: not found`)
       return null
     }
 
-    const path = ref.substring(2)
-    const segments = path.split('/')
+    cache.set(ref, resolved)
+    return resolved
+  }
 
-    this.log(`[resolveRef] Path segments:`, segments)
+  /**
+   * Output control arguments: every tool cuts its output at max_bytes,
+   * JSON results can also be narrowed by detail and fields first
+   */
+  private outputShapes() {
+    const budgetShape = {
+      max_bytes: z.number().int().min(1000).optional().describe(`Cut the output into parts of at most this many bytes (default: ${this.config.output.maxBytes}). A cut result ends with a cursor for the next part`),
+      cursor: z.string().optional().describe('Cursor from a cut result; returns its next part (other arguments are ignored)'),
+    }
+    const outputShape = {
+      detail: z.enum(['summary', 'standard', 'full']).default('standard').describe('summary: shallow, short strings and lists; standard: long descriptions and lists shortened; full: everything. Shortened values are marked with "x-omitted"'),
+      fields: z.array(z.string()).optional().describe('Dot paths to keep (e.g., ["path", "endpoint.parameters.name"]); arrays are traversed'),
+      ...budgetShape,
+    }
 
-    let current: any = spec
-    for (const segment of segments) {
-      if (!current || typeof current !== 'object') {
-        this.log(`[resolveRef] Stopped at segment ${segment}: current is not an object`)
-        return null
+    return { budgetShape, outputShape }
+  }
+
+  /**
+   * Wrap a tool callback with the byte budget and cursor continuation
+   *
+   * Errors become structured `isError` results; they are never cut.
+   */
+  private withOutput<Args extends { max_bytes?: number, cursor?: string }, Extra>(
+    handler: (args: Args, extra: Extra) => Promise<CallToolResult>,
+  ): (args: Args, extra: Extra) => Promise<CallToolResult> {
+    return withToolErrors(async (args: Args, extra: Extra) => {
+      const maxBytes = args.max_bytes ?? this.config.output.maxBytes
+      if (args.cursor) {
+        return this.outputCache.continue(args.cursor, maxBytes)
       }
+      return this.outputCache.paginate(await handler(args, extra), maxBytes)
+    })
+  }
 
-      current = current[segment]
-      this.log(`[resolveRef] After segment ${segment}:`, current ? 'exists' : 'undefined')
+  /**
+   * JSON tool result, narrowed by `fields` and `detail`
+   */
+  private json(value: unknown, options: ShapeOptions): CallToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify(shapeOutput(value, options), null, 2) }],
     }
+  }
 
-    if (!current) {
-      this.log(`[resolveRef] Final result: not found`)
-      return null
+  /**
+   * Look up a loaded API, suggesting the closest names when it is missing
+   */
+  private getSpec(apiName: string): ApiSpec {
+    const spec = this.specs.get(apiName)
+    if (!spec) {
+      const names = Array.from(this.specs.keys())
+      const suggestions = suggestNames(names, apiName)
+      throw new ToolError('API_NOT_FOUND', `API "${apiName}" not found. Use list_apis to see all APIs`, suggestions.length > 0 ? suggestions : names)
     }
+    return spec
+  }
 
-    this.log(`[resolveRef] Final result: exists - has allOf:`, !!current.allOf)
-
-    const resolved = current as ResolvedSchema
-    this.refCache.set(ref, resolved)
-    return resolved
+  /**
+   * Error for a missing component schema, suggesting the closest names
+   */
+  private schemaNotFound(apiName: string, schemaName: string): ToolError {
+    const names = Object.keys(this.getSpec(apiName).spec.components?.schemas || {})
+    return new ToolError('SCHEMA_NOT_FOUND', `Schema "${schemaName}" not found in ${apiName}. Use list_schemas to browse all schemas`, suggestNames(names, schemaName))
   }
 
-  private analyzeResponseStructure(
-    operation: OpenAPIOperation,
+  /**
+   * Resolve an endpoint from path + method or from an operationId
+   */
+  private resolveEndpoint(
+    apiName: string,
     spec: OpenAPIDocument,
-  ): ResponseStructure | null {
-    // Note: Analysis is fast (<1ms), no need for separate cache
-    // Result is already cached via exampleCache when used in code generation
-
-    const responses = operation.responses || {}
-    const successCodes = [200, 201, 202, 204]
-    let statusCode = 200
-    let responseObj = responses['200'] || responses['201'] || responses['202'] || responses['204']
-
-    if (!responseObj) {
-      for (const code of successCodes) {
-        if (responses[code]) {
-          responseObj = responses[code]
-          statusCode = code
-          break
-        }
+    path?: string,
+    method?: string,
+    operationId?: string,
+  ): { path: string, method: string, operation: OpenAPIOperation } {
+    if (operationId) {
+      const matches = this.operationIndex.find(operationId, apiName)
+      if (matches.length === 0) {
+        throw new ToolError('OPERATION_NOT_FOUND', `operationId "${operationId}" not found in ${apiName}`, suggestNames(this.operationIndex.ids(apiName), operationId))
       }
+      if (matches.length > 1) {
+        const locations = matches.map(match => `${match.method} ${match.path}`)
+        throw new ToolError('AMBIGUOUS_OPERATION', `operationId "${operationId}" is declared more than once in ${apiName} (${locations.join(', ')}). Use path + method instead`, locations)
+      }
+      path = matches[0]!.path
+      method = matches[0]!.method
     }
 
-    if (!responseObj) {
-      return null
+    if (!path || !method) {
+      throw new ToolError('INVALID_ARGUMENTS', 'Provide either path + method, or operation_id')
     }
 
-    if (responses['201'])
-      statusCode = 201
-    else if (responses['202'])
-      statusCode = 202
+    const pathItem = spec.paths?.[path]
+    if (!pathItem) {
+      throw new ToolError('PATH_NOT_FOUND', `Path not found in ${apiName}: ${path}`, suggestPaths(Object.keys(spec.paths || {}), path))
+    }
 
-    // Type guard: ensure responseObj is not a reference
-    if (!responseObj || '$ref' in responseObj) {
-      return null
+    const operation = (pathItem as any)[method.toLowerCase()] as OpenAPIOperation
+    if (!operation) {
+      const availableMethods = Object.keys(pathItem)
+        .filter(m => ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(m))
+        .map(m => m.toUpperCase())
+      throw new ToolError('METHOD_NOT_FOUND', `Method ${method} not found for ${path}. Available: ${availableMethods.join(', ')}`, availableMethods)
     }
 
-    const schema = responseObj.content?.['application/json']?.schema
+    return { path, method: method.toUpperCase(), operation }
+  }
 
-    if (!schema) {
+  /**
+   * A webhook operation with its payload schema dereferenced and an example payload
+   */
+  private describeWebhook(apiSpec: ApiSpec, name: string, method?: string) {
+    const entry = findWebhook(apiSpec.spec, name, method)
+    if (!entry) {
+      const names = Array.from(new Set(listWebhooks(apiSpec.spec).map(webhook => webhook.path)))
+      const message = names.includes(name)
+        ? `Webhook "${name}" in ${apiSpec.name} has no ${method} operation`
+        : `Webhook "${name}" not found in ${apiSpec.name}. Use list_webhooks to browse all webhooks`
+      throw new ToolError('WEBHOOK_NOT_FOUND', message, suggestNames(names, name))
+    }
+
+    const spec = apiSpec.spec
+    const { 'x-codeSamples': _, 'x-code-samples': __, ...cleanOperation } = entry.operation as Record<string, any>
+    const requestBody = entry.operation.requestBody && '$ref' in entry.operation.requestBody
+      ? resolvePointer(spec, entry.operation.requestBody.$ref) as OpenAPIRequestBody | null
+      : entry.operation.requestBody
+    const media = pickMediaSchema(requestBody?.content)
+
+    return {
+      name: entry.path,
+      method: entry.method.toUpperCase(),
+      webhook: cleanOperation,
+      payload: media
+        ? {
+            mediaType: media.mediaType,
+            schema: this.dereference(media.schema, spec),
+            example: this.generateExampleValue(media.schema, '', media.schema, spec),
+          }
+        : null,
+    }
+  }
+
+  /**
+   * Fully dereference a schema using resolveRef() for every $ref
+   */
+  private dereference(schema: unknown, spec: OpenAPIDocument, maxDepth?: number): any {
+    return dereferenceSchema(schema, ref => this.resolveRef(ref, spec), { maxDepth })
+  }
+
+  private analyzeResponseStructure(
+    operation: OpenAPIOperation,
+    spec: OpenAPIDocument,
+  ): ResponseStructure | null {
+    // Note: Analysis is fast (<1ms), no need for separate cache
+    // Result is already cached via exampleCache when used in code generation
+
+    // Use the first declared success code, same order as config.http.successCodes
+    const statusCode = this.config.http.successCodes.find(code => operation.responses?.[code])
+    const found = statusCode ? findResponseSchema(spec, operation, statusCode) : null
+
+    if (!statusCode || !found) {
       return null
     }
 
-    let resolvedSchema: ResolvedSchema | OpenAPISchema = schema
-    if ('$ref' in schema) {
-      const resolved = this.resolveRef(schema.$ref, spec)
+    let resolvedSchema: ResolvedSchema | OpenAPISchema = found.schema
+    if ('$ref' in resolvedSchema) {
+      const resolved = this.resolveRef(resolvedSchema.$ref, spec)
       if (!resolved)
         return null
       resolvedSchema = resolved
@@ -1141,7 +2295,7 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
       hasActions: false,
     }
 
-    if (resolvedSchema.type === 'array') {
+    if (primaryType(resolvedSchema) === 'array') {
       result.isArray = true
       return result
     }
@@ -1150,8 +2304,8 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
       const props = Object.keys(resolvedSchema.properties)
 
       for (const key of props) {
-        const prop = resolvedSchema.properties[key] as any
-        if (prop?.type === 'object' || prop?.$ref) {
+        const prop = withoutNull(resolvedSchema.properties[key])
+        if (primaryType(prop) === 'object' || (prop && '$ref' in prop)) {
           result.wrapperKeys.push(key)
 
           if (!result.primaryResource) {
@@ -1165,10 +2319,8 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
       }
 
       if (result.primaryResource) {
-        let primarySchema = resolvedSchema.properties[result.primaryResource] as any
-        if (primarySchema?.$ref) {
-          primarySchema = this.resolveRef(primarySchema.$ref, spec)
-        }
+        const declared = withoutNull(resolvedSchema.properties[result.primaryResource])
+        const primarySchema = declared && '$ref' in declared ? this.resolveRef(declared.$ref, spec) : declared
 
         if (primarySchema?.properties) {
           const idFields = ['id', 'uuid', 'name', 'slug']
@@ -1211,7 +2363,15 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     const typeHelperName = this.getTypeHelperName(apiName)
 
     // 1. Generate type definitions
-    const typeDefs = this.generateTypeDefinitions(path, method, typeHelperName, operation)
+    const entry = findOperation(spec, path, method)
+    const pagination = entry ? detectPagination(spec, entry, ref => this.resolveRef(ref, spec)) : null
+    // Path-level and $ref parameters count too; list endpoints often share theirs via components
+    const parameters = entry ? getOperationParameters(spec, entry) : []
+    const typeDefs = this.generateTypeDefinitions(path, method, typeHelperName, operation, parameters)
+    if (pagination) {
+      typeDefs.push('/** One page of results */')
+      typeDefs.push(`type Page = ${typeHelperName}<'${path}', '${method.toLowerCase()}'>['response']`)
+    }
     const typeDefsStr = typeDefs.length > 0 ? `\n\n${typeDefs.join('\n')}` : ''
 
     // 2. Generate imports (include type helper import for type safety)
@@ -1226,15 +2386,11 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     imports += typeDefsStr
 
     // 3. Generate client setup
-    const setup = this.generateClientSetup(serviceName, spec)
+    const setup = this.generateClientSetup(serviceName, spec, operation)
 
     // 4. Generate usage code with parameters and request
-    const pathParams = operation.parameters?.filter((p): p is OpenAPIParameter =>
-      !('$ref' in p) && p.in === 'path',
-    )
-    const queryParams = operation.parameters?.filter((p): p is OpenAPIParameter =>
-      !('$ref' in p) && p.in === 'query',
-    )
+    const pathParams = parameters.filter(p => p.in === 'path')
+    const queryParams = parameters.filter(p => p.in === 'query')
     // Resolve request body if it's a reference
     let requestBody = operation.requestBody
     if (requestBody && '$ref' in requestBody) {
@@ -1244,12 +2400,12 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     const usageParts: string[] = []
 
     // Add path parameters
-    if (pathParams && pathParams.length > 0) {
+    if (pathParams.length > 0) {
       usageParts.push(this.generatePathParamsCode(pathParams, spec))
     }
 
     // Add query parameters
-    if (queryParams && queryParams.length > 0) {
+    if (queryParams.length > 0) {
       usageParts.push(this.generateQueryParamsCode(queryParams, spec))
     }
 
@@ -1261,14 +2417,18 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
       }
     }
 
-    // 5. Generate the actual request code
-    const requestParts = this.generateRequestCode(path, method, pathParams, queryParams, requestBody)
+    // 5. Generate the actual request code (a loop over all pages for list endpoints)
+    const requestParts = pagination
+      ? this.generatePaginatedRequestCode(path, method, pathParams, queryParams, pagination)
+      : this.generateRequestCode(path, method, pathParams, queryParams, requestBody)
 
     // 6. Add response handling code
-    const responseParts = this.generateResponseHandlingCode(apiName, path, method)
-    requestParts.push(...responseParts)
+    if (!pagination) {
+      requestParts.push(...this.generateResponseHandlingCode(apiName, path, method))
+    }
 
-    const usage = usageParts.concat(requestParts).join('\n')
+    // 7. Wrap in error handling for the declared non-2xx responses
+    const usage = usageParts.concat(this.generateErrorHandlingCode(spec, operation, requestParts)).join('\n')
     const fullExample = `${imports}\n\n${setup}\n\n${usage}`
 
     const example: CodeExample = { imports, setup, usage, fullExample }
@@ -1325,67 +2485,40 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     return allHelpers
   }
 
+  private camelCase(str: string): string {
+    return str.replace(/[-_.]+([a-z0-9])/gi, (_, char: string) => char.toUpperCase())
+  }
+
   private capitalizeFirst(str: string): string {
     return str.charAt(0).toUpperCase() + str.slice(1)
   }
 
-  private generateQuickstart(apiName: string, spec: any): string {
+  private generateQuickstart(apiName: string, spec: OpenAPIDocument): string {
     const serviceName = this.getApiServiceName(apiName)
     const packageName = apiName.split('/')[0]
-    const baseUrl = spec.servers?.[0]?.url || 'https://api.example.com'
+    const entries = listOperations(spec)
+      .filter(entry => ['get', 'post', 'put', 'delete'].includes(entry.method))
+      .slice(0, 3)
+
+    // Authenticate like the first shown operation that needs credentials; its own security overrides the global one
+    const secured = entries.find(entry => !getOperationSecurity(spec, entry.operation).anonymous)
 
     const setupParts = [
       `import { createClient, ${serviceName} } from 'sufetch/${packageName}'`,
       '',
-      'const client = createClient({',
-      `  baseURL: '${baseUrl}',`,
+      this.generateClientSetup(serviceName, spec, (secured ?? entries[0])?.operation),
+      '',
+      '// Common operations',
     ]
 
-    if (spec.components?.securitySchemes) {
-      const securitySchemes = spec.components.securitySchemes
-      if (securitySchemes.bearerAuth || securitySchemes.Bearer) {
-        setupParts.push('  headers: {')
-        // eslint-disable-next-line no-template-curly-in-string
-        setupParts.push('    \'Authorization\': `Bearer ${YOUR_TOKEN}`,')
-        setupParts.push('  },')
-      }
-      else if (securitySchemes.apiKey || securitySchemes.ApiKey) {
-        setupParts.push('  headers: {')
-        setupParts.push('    \'X-API-Key\': YOUR_API_KEY,')
-        setupParts.push('  },')
-      }
-    }
-
-    setupParts.push(`}).with(${serviceName})`)
-    setupParts.push('')
-    setupParts.push('// Common operations')
-
-    const paths = spec.paths || {}
     const operations: string[] = []
-    let count = 0
-
-    for (const [path, pathItem] of Object.entries(paths)) {
-      if (count >= 3)
-        break
-
-      for (const [method, operation] of Object.entries(pathItem as any)) {
-        if (count >= 3)
-          break
-
-        if (['get', 'post', 'put', 'delete'].includes(method)) {
-          const op = operation as any
-          const summary = op.summary || path
-
-          operations.push(`// ${summary}`)
-          operations.push(`const result${count + 1} = await client('${path}', {`)
-          operations.push(`  method: '${method.toUpperCase()}',`)
-          operations.push('})')
-          operations.push('')
-
-          count++
-        }
-      }
-    }
+    entries.forEach(({ path, method, operation }, index) => {
+      operations.push(`// ${operation.summary || path}`)
+      operations.push(`const result${index + 1} = await client('${path}', {`)
+      operations.push(`  method: '${method.toUpperCase()}',`)
+      operations.push('})')
+      operations.push('')
+    })
 
     return setupParts.concat(operations).join('\n')
   }
@@ -1393,7 +2526,10 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
   private cleanup() {
     this.log('Shutting down gracefully...')
 
-    const refsCleared = this.refCache.size
+    let refsCleared = 0
+    for (const cache of this.refCache.values()) {
+      refsCleared += cache.size
+    }
     const examplesCleared = this.exampleCache.size
 
     this.refCache.clear()
@@ -1404,18 +2540,42 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
   }
 
   async run() {
+    for (const warning of this.config.warnings) {
+      console.error(`Warning: ${warning}`)
+    }
     await this.initialize()
 
-    const transport = new StdioServerTransport()
-    await this.server.connect(transport)
-    console.error('SuFetch MCP server running on stdio')
+    let httpServer: HttpServerHandle | undefined
+    if (this.config.transport.mode === 'http') {
+      const { host, port, authToken, sessionIdleTimeout } = this.config.transport
+      httpServer = await startHttpServer({ host, port, authToken, sessionIdleTimeout, createServer: () => this.createServer(), log: (...args) => this.log(...args) })
+      console.error(`SuFetch MCP server listening on ${httpServer.url}/mcp (legacy SSE: ${httpServer.url}/sse)`)
+      if (!authToken) {
+        console.error('Warning: SUFETCH_AUTH_TOKEN is not set - anyone who can reach this port can use the server')
+      }
+    }
+    else {
+      await this.createServer().connect(new StdioServerTransport())
+      console.error('SuFetch MCP server running on stdio')
+    }
     if (this.config.debug) {
       console.error('Debug mode enabled - Set SUFETCH_DEBUG=false to disable verbose logging')
     }
 
+    const watcher = this.config.watch.enabled
+      ? watchSpecs(this.config.paths.specsDir, (changes) => {
+          this.applyChanges(changes).catch(error => this.log('Hot reload failed:', error))
+        }, {
+          debounce: this.config.watch.debounce,
+          log: (...args) => this.log(...args),
+        })
+      : undefined
+
     // Graceful shutdown handlers
     const shutdown = async (signal: string) => {
       console.error(`\nReceived ${signal}, shutting down gracefully...`)
+      watcher?.close()
+      await httpServer?.close()
       this.cleanup()
       process.exit(0)
     }
@@ -1423,6 +2583,11 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
     process.on('SIGINT', () => shutdown('SIGINT'))
     process.on('SIGTERM', () => shutdown('SIGTERM'))
 
+    // The stdio transport does not report a closed stdin, and the spec watcher would keep the process alive
+    if (this.config.transport.mode === 'stdio') {
+      process.stdin.once('end', () => shutdown('end of input'))
+    }
+
     process.on('uncaughtException', (error) => {
       console.error('Uncaught exception:', error)
       this.cleanup()
@@ -1437,9 +2602,27 @@ Use \`search_endpoints\` to find relevant endpoints, then \`get_endpoint_details
   }
 }
 
-// Start the server
-const server = new SuFetchMCPServer()
-server.run().catch((error) => {
+const USAGE = `Usage: sufetch-mcp [options]
+
+Options:
+  --transport <stdio|http>  Transport to serve (default: stdio, or SUFETCH_TRANSPORT)
+  --host <host>             HTTP host (default: 127.0.0.1, or SUFETCH_HOST)
+  --port <port>             HTTP port (default: 3000, or SUFETCH_PORT)
+  -v, --version             Print the version
+  -h, --help                Print this help`
+
+// Start the server (CLI flags override the transport settings from the environment)
+async function main() {
+  const config = loadConfig()
+  const { transport, version, help } = parseCliArgs(process.argv.slice(2), config.transport)
+  if (version || help) {
+    process.stdout.write(`${version ? config.server.version : USAGE}\n`)
+    return
+  }
+  await new SuFetchMCPServer({ transport }).run()
+}
+
+main().catch((error) => {
   console.error('Failed to start server:', error)
   process.exit(1)
 })
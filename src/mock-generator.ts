@@ -0,0 +1,416 @@
+/**
+ * Schema-driven mock data
+ *
+ * Produces schema-valid JSON for an operation's response, for use in unit
+ * tests against sufetch clients. Values honor enums, formats, numeric and
+ * length bounds, array sizes, `$ref`s, merged `allOf`s, a chosen
+ * `oneOf` / `anyOf` variant and 3.1 `const`, type lists and tuples. Everything random comes from a seeded
+ * generator, so the same seed always yields the same mock.
+ */
+
+import type { RefResolver } from './schema-resolver.js'
+import type { OpenAPIDocument, OperationEntry } from './types.js'
+import { ToolError } from './errors.js'
+import { primaryType, schemaExample } from './json-schema.js'
+import { mergeAllOfSchema } from './schema-resolver.js'
+import { findResponse, pickMediaSchema, resolvePointer } from './spec-utils.js'
+import { validateValue } from './validator.js'
+
+/**
+ * Mock generation options
+ */
+export interface MockOptions {
+  /** Seed for the random generator; a random seed is picked (and reported) when omitted */
+  seed?: number
+  /** Index of the variant to use for every `oneOf` / `anyOf` (default: 0, wraps around) */
+  variant?: number
+  /** Use `example` values from the spec when they are valid (default: true) */
+  useExamples?: boolean
+  /** Nesting depth after which only required properties are generated (default: 6) */
+  maxDepth?: number
+}
+
+/**
+ * A mocked response
+ */
+export interface MockResponse {
+  /** Declared response key that was mocked (e.g., "200", "4XX", "default") */
+  status: string
+  description?: string
+  mediaType?: string
+  /** Seed that reproduces this mock */
+  seed: number
+  headers: Record<string, unknown>
+  /** Response body, or undefined when the response declares none */
+  body?: unknown
+}
+
+const WORDS = ['alpha', 'bravo', 'cedar', 'delta', 'ember', 'falcon', 'granite', 'harbor', 'indigo', 'juniper', 'kestrel', 'lumen']
+const REGIONS = ['fsn1', 'nbg1', 'hel1', 'ash', 'nyc3', 'ams3', 'fra1', 'sgp1']
+
+/** Base timestamp for dates: 2024-01-01T00:00:00Z */
+const BASE_TIME = Date.UTC(2024, 0, 1)
+
+/**
+ * Mock the response an operation declares for a status code
+ *
+ * Without a status, the first declared 2xx response is used.
+ *
+ * @throws ToolError when the operation declares no response for the status
+ */
+export function mockResponse(
+  spec: OpenAPIDocument,
+  entry: OperationEntry,
+  status?: string | number,
+  options: MockOptions = {},
+  resolveRef: RefResolver = ref => resolvePointer(spec, ref),
+): MockResponse {
+  const declared = Object.keys(entry.operation.responses || {})
+  const wanted = status ?? declared.find(code => code.startsWith('2')) ?? declared[0]
+  const found = wanted !== undefined ? findResponse(spec, entry.operation, wanted) : null
+
+  if (!found) {
+    throw new ToolError('RESPONSE_NOT_FOUND', `No response declared for status ${wanted ?? '(none)'}. Declared: ${declared.join(', ') || 'none'}`, declared)
+  }
+
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 31)
+  const media = pickMediaSchema(found.response.content)
+  const headers: Record<string, unknown> = {}
+
+  for (const [index, [name, raw]] of Object.entries(found.response.headers || {}).entries()) {
+    const header = ('$ref' in raw ? resolveRef(raw.$ref) : raw) as { schema?: unknown } | null
+    if (header?.schema) {
+      headers[name.toLowerCase()] = generateMock(header.schema, resolveRef, { ...options, seed: seed + index + 1 }, name)
+    }
+  }
+
+  return {
+    status: found.status,
+    description: found.response.description,
+    mediaType: media?.mediaType,
+    seed,
+    headers,
+    body: media ? generateMock(media.schema, resolveRef, { ...options, seed }) : undefined,
+  }
+}
+
+/**
+ * Generate a value that validates against a schema
+ *
+ * `name` is the property the value is for; it steers string values
+ * (e.g., "email", "name", "ip") towards realistic ones.
+ */
+export function generateMock(schema: unknown, resolveRef: RefResolver, options: MockOptions = {}, name = ''): unknown {
+  const random = createRandom(options.seed ?? Math.floor(Math.random() * 2 ** 31))
+  const variant = options.variant ?? 0
+  const useExamples = options.useExamples ?? true
+  const maxDepth = options.maxDepth ?? 6
+
+  const int = (min: number, max: number): number => min + Math.floor(random() * (max - min + 1))
+  const pick = <T>(values: readonly T[]): T => values[int(0, values.length - 1)]!
+
+  function generate(node: any, key: string, depth: number, stack: string[]): unknown {
+    if (!node || typeof node !== 'object') {
+      return null
+    }
+
+    if (typeof node.$ref === 'string') {
+      const target = resolveRef(node.$ref)
+      // A cycle can only close with the smallest value the schema allows
+      if (!target || stack.includes(node.$ref)) {
+        return minimal(target)
+      }
+      return generate(target, key, depth, [...stack, node.$ref])
+    }
+
+    const example = schemaExample(node)
+    if (useExamples && example !== undefined && isValid(node, example)) {
+      return example
+    }
+
+    if (node.const !== undefined) {
+      return node.const
+    }
+
+    if (Array.isArray(node.enum) && node.enum.length > 0) {
+      const values = node.enum.filter((value: unknown) => value !== null)
+      return values.length > 0 ? pick(values) : null
+    }
+
+    if (Array.isArray(node.allOf)) {
+      const members = node.allOf.map((member: any) => resolveAll(member, stack))
+      return generate(mergeAllOfSchema({ ...node, allOf: members }), key, depth, stack)
+    }
+
+    for (const keyword of ['oneOf', 'anyOf']) {
+      const variants: any[] | undefined = node[keyword]
+      if (Array.isArray(variants) && variants.length > 0) {
+        const index = variant % variants.length
+        const { [keyword]: _, ...rest } = node
+        const chosen = resolveAll(variants[index], stack)
+        const value = generate(mergeAllOfSchema({ ...rest, allOf: [chosen] }), key, depth, stack)
+        return applyDiscriminator(node, variants[index], value)
+      }
+    }
+
+    switch (primaryType(node)) {
+      case 'string':
+        return generateString(node, key)
+      case 'integer':
+      case 'number':
+        return generateNumber(node)
+      case 'boolean':
+        return random() < 0.5
+      case 'array':
+        return generateArray(node, key, depth, stack)
+      case 'object':
+        return generateObject(node, depth, stack)
+      default:
+        return null
+    }
+  }
+
+  function generateObject(node: any, depth: number, stack: string[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    const required = new Set<string>(node.required || [])
+
+    for (const [property, child] of Object.entries<any>(node.properties || {})) {
+      const resolved = resolveAll(child, stack)
+      if (resolved?.writeOnly || (depth >= maxDepth && !required.has(property))) {
+        continue
+      }
+      result[property] = generate(child, property, depth + 1, stack)
+    }
+
+    // Some specs require fields they never declare (e.g., DigitalOcean's sinks_response.urn)
+    for (const property of required) {
+      if (!(property in result) && !node.properties?.[property]) {
+        result[property] = generateString({}, property)
+      }
+    }
+
+    if (Object.keys(result).length === 0 && node.additionalProperties && typeof node.additionalProperties === 'object') {
+      result[pick(WORDS)] = generate(node.additionalProperties, '', depth + 1, stack)
+    }
+
+    return result
+  }
+
+  function generateArray(node: any, key: string, depth: number, stack: string[]): unknown[] {
+    // 3.1 tuples: one value per position, and nothing after them unless `items` allows it
+    if (Array.isArray(node.prefixItems)) {
+      return node.prefixItems.map((item: any) => generate(item, singular(key), depth + 1, stack))
+    }
+
+    const min = node.minItems ?? (depth >= maxDepth ? 0 : 1)
+    const max = Math.max(min, node.maxItems ?? min + 1)
+    const count = int(min, Math.min(max, min + 2))
+    const items: unknown[] = []
+    const seen = new Set<string>()
+
+    // Bounded retries: uniqueItems over a small enum may not have enough values
+    for (let attempt = 0; items.length < count && attempt < count * 5; attempt++) {
+      const item = node.items ? generate(node.items, singular(key), depth + 1, stack) : pick(WORDS)
+      const serialized = JSON.stringify(item)
+      if (node.uniqueItems && seen.has(serialized)) {
+        continue
+      }
+      seen.add(serialized)
+      items.push(item)
+    }
+
+    return items
+  }
+
+  function generateNumber(node: any): number {
+    const integer = primaryType(node) === 'integer'
+    const step = integer ? 1 : 0.01
+    const exclusiveMin = node.exclusiveMinimum === true || typeof node.exclusiveMinimum === 'number'
+    const exclusiveMax = node.exclusiveMaximum === true || typeof node.exclusiveMaximum === 'number'
+    const lower = typeof node.exclusiveMinimum === 'number' ? node.exclusiveMinimum : node.minimum
+    const upper = typeof node.exclusiveMaximum === 'number' ? node.exclusiveMaximum : node.maximum
+
+    const min: number = lower !== undefined
+      ? lower + (exclusiveMin ? step : 0)
+      : (upper !== undefined && upper < 1 ? upper - 1000 : 1)
+    const max: number = Math.max(min, upper !== undefined ? upper - (exclusiveMax ? step : 0) : min + 1000)
+
+    if (node.multipleOf > 0) {
+      const multiple = node.multipleOf
+      const first = Math.ceil(min / multiple)
+      const last = Math.floor(max / multiple)
+      return last >= first ? int(first, last) * multiple : first * multiple
+    }
+
+    if (integer) {
+      return int(Math.ceil(min), Math.floor(max))
+    }
+    return Math.round((min + random() * (max - min)) * 100) / 100
+  }
+
+  function generateString(node: any, key: string): string {
+    const value = formatValue(node.format) ?? nameValue(key.toLowerCase()) ?? `${pick(WORDS)}-${int(1, 999)}`
+    const minLength = node.minLength ?? 0
+    const maxLength = node.maxLength ?? Infinity
+    const fitted = value.length < minLength
+      ? value.padEnd(minLength, 'x')
+      : (value.length > maxLength ? value.slice(0, maxLength) : value)
+
+    if (!node.pattern || safeRegExp(node.pattern)?.test(fitted) !== false) {
+      return fitted
+    }
+
+    // Patterns are not generated from; try a few common shapes instead
+    const pattern = safeRegExp(node.pattern)!
+    const candidates = [
+      String(int(1, 999)),
+      `${int(1, 60)}s`,
+      `${int(1, 24)}h`,
+      pick(WORDS),
+      pick(WORDS).toUpperCase(),
+      `${pick(WORDS)}-${int(1, 99)}`,
+      formatValue('uuid')!,
+    ]
+    return candidates.find(candidate => pattern.test(candidate)) ?? fitted
+  }
+
+  function formatValue(format: string | undefined): string | undefined {
+    const date = new Date(BASE_TIME + int(0, 365 * 24 * 3600) * 1000)
+    const hex = (length: number): string => Array.from({ length }, () => int(0, 15).toString(16)).join('')
+
+    switch (format) {
+      case 'date-time':
+        return date.toISOString().replace('.000Z', 'Z')
+      case 'date':
+        return date.toISOString().slice(0, 10)
+      case 'time':
+        return date.toISOString().slice(11, 19)
+      case 'email':
+        return `${pick(WORDS)}@example.com`
+      case 'uuid':
+        return `${hex(8)}-${hex(4)}-4${hex(3)}-${pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`
+      case 'uri':
+      case 'url':
+        return `https://example.com/${pick(WORDS)}`
+      case 'hostname':
+        return `${pick(WORDS)}.example.com`
+      case 'ipv4':
+        return `203.0.113.${int(1, 254)}`
+      case 'ipv6':
+        return `2001:db8::${int(1, 65535).toString(16)}`
+      case 'byte':
+        return btoa(`${pick(WORDS)}-${int(1, 999)}`)
+      case 'password':
+        return `P@ss-${hex(12)}`
+      default:
+        return undefined
+    }
+  }
+
+  function nameValue(key: string): string | undefined {
+    if (key.includes('email'))
+      return `${pick(WORDS)}@example.com`
+    if (key.endsWith('url') || key.endsWith('uri') || key === 'href')
+      return `https://example.com/${pick(WORDS)}`
+    if (/(?:^|_)ip(?:v[46])?(?:_|$)/.test(key))
+      return `203.0.113.${int(1, 254)}`
+    if (key.endsWith('_at') || key === 'created' || key === 'updated')
+      return formatValue('date-time')
+    if (key === 'id' || key.endsWith('_id'))
+      return formatValue('uuid')
+    if (key.includes('region') || key.includes('location') || key.includes('datacenter'))
+      return pick(REGIONS)
+    if (key.includes('description'))
+      return `The ${pick(WORDS)} ${pick(WORDS)} resource`
+    if (key.includes('name'))
+      return `${pick(WORDS)}-${int(1, 99)}`
+    return undefined
+  }
+
+  /** Smallest valid value, used where recursion has to stop */
+  function minimal(node: any, depth = 0): unknown {
+    const schema = resolveAll(node, []) ?? {}
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[0]
+    }
+
+    switch (primaryType(schema)) {
+      case 'array':
+        return []
+      case 'object': {
+        // Required fields still have to be there, recursion or not
+        const required: string[] = depth < 3 ? (schema.required || []).filter((field: string) => schema.properties?.[field]) : []
+        return Object.fromEntries(required.map(field => [field, minimal(schema.properties[field], depth + 1)]))
+      }
+      case 'string':
+        return ''.padEnd(schema.minLength ?? 0, 'x')
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0
+      case 'boolean':
+        return false
+      default:
+        return null
+    }
+  }
+
+  /** Resolve a schema's own `$ref`s (not those of its children) */
+  function resolveAll(node: any, stack: string[]): any {
+    let current = node
+    for (let hops = 0; typeof current?.$ref === 'string' && hops < 10; hops++) {
+      if (stack.includes(current.$ref)) {
+        return {}
+      }
+      current = resolveRef(current.$ref)
+    }
+    return Array.isArray(current?.allOf)
+      ? mergeAllOfSchema({ ...current, allOf: current.allOf.map((member: any) => resolveAll(member, stack)) })
+      : current
+  }
+
+  function applyDiscriminator(node: any, chosen: any, value: unknown): unknown {
+    const propertyName = node.discriminator?.propertyName
+    if (!propertyName || !value || typeof value !== 'object' || Array.isArray(value)) {
+      return value
+    }
+
+    const mapping = Object.entries<string>(node.discriminator.mapping || {}).find(([, ref]) => ref === chosen?.$ref)?.[0]
+    const fallback = typeof chosen?.$ref === 'string' ? chosen.$ref.split('/').pop() : undefined
+    const tag = mapping ?? fallback
+    return tag ? { ...value, [propertyName]: tag } : value
+  }
+
+  function isValid(node: any, value: unknown): boolean {
+    return validateValue(node, value, resolveRef, { direction: 'response' }).length === 0
+  }
+
+  return generate(schema, name, 0, [])
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'u')
+  }
+  catch {
+    return null
+  }
+}
+
+function singular(key: string): string {
+  return key.endsWith('ies') ? `${key.slice(0, -3)}y` : key.replace(/s$/, '')
+}
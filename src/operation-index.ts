@@ -0,0 +1,141 @@
+/**
+ * operationId index
+ *
+ * Vendor docs, x-codeSamples and error messages cite operationIds
+ * (`droplets_create`, `createIdentity`) rather than templated paths. This
+ * index maps them back to path + method, and keeps track of ids that the
+ * spec declares more than once.
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { listOperations } from './spec-utils.js'
+
+/**
+ * Location of an operation
+ */
+export interface OperationLocation {
+  api: string
+  operationId: string
+  path: string
+  /** Uppercase HTTP method */
+  method: string
+  summary?: string
+  tags: string[]
+}
+
+/**
+ * An operationId declared by more than one operation
+ */
+export interface DuplicateOperationId {
+  api: string
+  operationId: string
+  operations: Array<{ path: string, method: string }>
+}
+
+/**
+ * Index of operationIds across all loaded APIs
+ */
+export class OperationIndex {
+  private byApi = new Map<string, Map<string, OperationLocation[]>>()
+
+  /**
+   * Index every operation of a spec that has an operationId
+   */
+  addSpec(api: string, spec: OpenAPIDocument): void {
+    const ids = new Map<string, OperationLocation[]>()
+
+    for (const { path, method, operation } of listOperations(spec)) {
+      if (!operation.operationId) {
+        continue
+      }
+
+      const location: OperationLocation = {
+        api,
+        operationId: operation.operationId,
+        path,
+        method: method.toUpperCase(),
+        summary: operation.summary,
+        tags: operation.tags || [],
+      }
+
+      const existing = ids.get(operation.operationId)
+      if (existing) {
+        existing.push(location)
+      }
+      else {
+        ids.set(operation.operationId, [location])
+      }
+    }
+
+    this.byApi.set(api, ids)
+  }
+
+  /**
+   * Drop the operationIds of an API
+   */
+  removeSpec(api: string): void {
+    this.byApi.delete(api)
+  }
+
+  /**
+   * Find operations by operationId, optionally within one API
+   *
+   * Exact matches win; otherwise falls back to a case-insensitive match.
+   */
+  find(operationId: string, api?: string): OperationLocation[] {
+    const scopes = api ? [this.byApi.get(api)] : Array.from(this.byApi.values())
+    const exact: OperationLocation[] = []
+    const insensitive: OperationLocation[] = []
+    const lowerId = operationId.toLowerCase()
+
+    for (const ids of scopes) {
+      if (!ids) {
+        continue
+      }
+
+      exact.push(...(ids.get(operationId) || []))
+      if (exact.length === 0) {
+        for (const [id, locations] of ids) {
+          if (id.toLowerCase() === lowerId) {
+            insensitive.push(...locations)
+          }
+        }
+      }
+    }
+
+    return exact.length > 0 ? exact : insensitive
+  }
+
+  /**
+   * All operationIds of an API (or every API)
+   */
+  ids(api?: string): string[] {
+    const scopes = api ? [this.byApi.get(api)] : Array.from(this.byApi.values())
+    return scopes.flatMap(ids => Array.from(ids?.keys() || []))
+  }
+
+  /**
+   * operationIds declared more than once within the same API
+   */
+  duplicates(api?: string): DuplicateOperationId[] {
+    const result: DuplicateOperationId[] = []
+
+    for (const [name, ids] of this.byApi) {
+      if (api && name !== api) {
+        continue
+      }
+
+      for (const [operationId, locations] of ids) {
+        if (locations.length > 1) {
+          result.push({
+            api: name,
+            operationId,
+            operations: locations.map(({ path, method }) => ({ path, method })),
+          })
+        }
+      }
+    }
+
+    return result
+  }
+}
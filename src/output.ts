@@ -0,0 +1,260 @@
+/**
+ * Size-aware tool output
+ *
+ * Tool results pass through three stages:
+ * 1. `fields` keeps only the listed dot paths (`endpoint.parameters.name`)
+ * 2. `detail` shortens long strings and arrays and collapses deep nesting
+ * 3. the rendered text is cut into chunks of at most `maxBytes`; the rest
+ *    is kept in an `OutputCache` and fetched with the returned cursor
+ *
+ * Nothing is dropped silently: shortened values carry an `x-omitted`
+ * marker and cut results end with a continuation notice.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { Buffer } from 'node:buffer'
+import { randomUUID } from 'node:crypto'
+import { ToolError } from './errors.js'
+
+/**
+ * How much of a result to return
+ */
+export type DetailLevel = 'summary' | 'standard' | 'full'
+
+/**
+ * Output controls shared by all JSON-returning tools
+ */
+export interface ShapeOptions {
+  /** Detail level (default: standard) */
+  detail?: DetailLevel
+  /** Dot paths to keep (e.g., ["path", "endpoint.parameters.name"]); arrays are traversed */
+  fields?: string[]
+}
+
+/**
+ * Limits applied at a detail level
+ */
+interface DetailLimits {
+  /** Objects and arrays nested deeper than this are collapsed */
+  maxDepth: number
+  /** Strings longer than this are shortened */
+  maxString: number
+  /** Arrays longer than this are shortened */
+  maxItems: number
+}
+
+const DETAIL_LIMITS: Record<Exclude<DetailLevel, 'full'>, DetailLimits> = {
+  summary: { maxDepth: 3, maxString: 160, maxItems: 10 },
+  standard: { maxDepth: 10, maxString: 1000, maxItems: 100 },
+}
+
+/**
+ * Apply field selection and detail level to a result
+ */
+export function shapeOutput(value: unknown, options: ShapeOptions = {}): unknown {
+  const projected = options.fields && options.fields.length > 0 ? projectFields(value, options.fields) : value
+  const detail = options.detail ?? 'standard'
+  return detail === 'full' ? projected : limitDetail(projected, DETAIL_LIMITS[detail])
+}
+
+/** Requested field paths as nested keys ("a.b" and "a.c" → a → {b, c}); an empty map keeps everything below */
+type FieldTree = Map<string, FieldTree>
+
+/**
+ * Keep only the given dot paths
+ *
+ * Arrays are traversed, so "servers.name" keeps the name of every server.
+ *
+ * @throws ToolError when no path matches anything
+ */
+export function projectFields(value: unknown, fields: string[]): unknown {
+  const tree: FieldTree = new Map()
+  for (const field of fields) {
+    let node = tree
+    for (const key of field.split('.').filter(Boolean)) {
+      let child = node.get(key)
+      if (!child) {
+        child = new Map()
+        node.set(key, child)
+      }
+      node = child
+    }
+  }
+
+  const projected = project(value, tree)
+  if (projected === undefined) {
+    throw new ToolError('INVALID_ARGUMENTS', `None of the fields ${fields.join(', ')} exist in the result`, topLevelKeys(value))
+  }
+  return projected
+}
+
+function project(value: unknown, tree: FieldTree): unknown {
+  if (tree.size === 0) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, tree) ?? null)
+  }
+  if (!value || typeof value !== 'object') {
+    return undefined
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, subtree] of tree) {
+    if (key in value) {
+      const projected = project((value as Record<string, unknown>)[key], subtree)
+      if (projected !== undefined) {
+        result[key] = projected
+      }
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined
+}
+
+function topLevelKeys(value: unknown): string[] {
+  const sample = Array.isArray(value) ? value[0] : value
+  return sample && typeof sample === 'object' ? Object.keys(sample) : []
+}
+
+function limitDetail(value: unknown, limits: DetailLimits, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > limits.maxString
+      ? `${value.slice(0, limits.maxString)}… [x-omitted: ${value.length - limits.maxString} more characters]`
+      : value
+  }
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    if (depth >= limits.maxDepth && value.length > 0) {
+      return [{ 'x-omitted': `${value.length} items (use detail "full" or fields to expand)` }]
+    }
+    const items = value.slice(0, limits.maxItems).map(item => limitDetail(item, limits, depth + 1))
+    return value.length > limits.maxItems
+      ? [...items, { 'x-omitted': `${value.length - limits.maxItems} more items` }]
+      : items
+  }
+
+  const entries = Object.entries(value)
+  if (depth >= limits.maxDepth && entries.length > 0) {
+    return { 'x-omitted': `object with ${entries.length} keys (use detail "full" or fields to expand)` }
+  }
+  return Object.fromEntries(entries.map(([key, child]) => [key, limitDetail(child, limits, depth + 1)]))
+}
+
+/**
+ * One chunk of a text that exceeds the byte budget
+ */
+export interface TextChunk {
+  text: string
+  /** Character offset where the next chunk starts, or null after the last chunk */
+  next: number | null
+}
+
+/**
+ * Cut a chunk of at most `maxBytes` (UTF-8) from `text`, starting at `offset`
+ *
+ * Chunks end at a line break when one falls in the second half of the
+ * budget, so JSON stays readable across chunks.
+ */
+export function sliceText(text: string, offset: number, maxBytes: number): TextChunk {
+  let end = offset
+  let bytes = 0
+  let lastBreak = -1
+
+  while (end < text.length) {
+    const codePoint = text.codePointAt(end)!
+    const width = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+    if (bytes + width > maxBytes) {
+      break
+    }
+    bytes += width
+    end += codePoint > 0xFFFF ? 2 : 1
+    if (text[end - 1] === '\n' && bytes >= maxBytes / 2) {
+      lastBreak = end
+    }
+  }
+
+  if (end < text.length && lastBreak > offset) {
+    end = lastBreak
+  }
+  // Always make progress, even when a single character exceeds the budget
+  if (end === offset && offset < text.length) {
+    end = offset + (text.codePointAt(offset)! > 0xFFFF ? 2 : 1)
+  }
+
+  return { text: text.slice(offset, end), next: end < text.length ? end : null }
+}
+
+/**
+ * Remainders of cut results, fetched by cursor
+ *
+ * Keeps the most recent `size` results, so a random mock or a live
+ * response continues exactly where it was cut instead of being recomputed.
+ */
+export class OutputCache {
+  private entries: Map<string, string> = new Map()
+  private size: number
+
+  constructor(size = 50) {
+    this.size = size
+  }
+
+  /**
+   * Apply the byte budget to the text of a tool result
+   */
+  paginate(result: CallToolResult, maxBytes: number): CallToolResult {
+    const [first, ...rest] = result.content
+    if (result.isError || rest.length > 0 || first?.type !== 'text' || Buffer.byteLength(first.text) <= maxBytes) {
+      return result
+    }
+
+    const id = randomUUID()
+    this.entries.set(id, first.text)
+    if (this.entries.size > this.size) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+
+    return this.chunk(id, first.text, 0, maxBytes)
+  }
+
+  /**
+   * Return the chunk a cursor points at
+   *
+   * @throws ToolError when the cursor is malformed or has expired
+   */
+  continue(cursor: string, maxBytes: number): CallToolResult {
+    const [id = '', offsetText = ''] = cursor.split(':')
+    const offset = Number(offsetText)
+    const text = this.entries.get(id)
+
+    if (text === undefined || !Number.isInteger(offset) || offset < 0 || offset >= text.length) {
+      throw new ToolError('INVALID_ARGUMENTS', `Cursor "${cursor}" is unknown or has expired. Call the tool again without cursor`)
+    }
+
+    return this.chunk(id, text, offset, maxBytes)
+  }
+
+  private chunk(id: string, text: string, offset: number, maxBytes: number): CallToolResult {
+    const chunk = sliceText(text, offset, maxBytes)
+    const total = Buffer.byteLength(text)
+    const returned = Buffer.byteLength(text.slice(0, offset + chunk.text.length))
+
+    const notice = chunk.next === null
+      ? { truncated: false, part: 'last', bytes: { returned, total } }
+      : {
+          truncated: true,
+          bytes: { returned, total, remaining: total - returned },
+          cursor: `${id}:${chunk.next}`,
+          hint: 'The result was cut at max_bytes. Call the same tool again with this cursor for the next part, or narrow it with detail/fields',
+        }
+
+    return {
+      content: [
+        { type: 'text', text: chunk.text },
+        { type: 'text', text: JSON.stringify(notice) },
+      ],
+    }
+  }
+}
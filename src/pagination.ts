@@ -0,0 +1,176 @@
+/**
+ * Pagination detection
+ *
+ * Each API paginates differently:
+ * - Hetzner: `page` / `per_page`, next page number in `meta.pagination.next_page`
+ * - DigitalOcean: `page` / `per_page`, next page URL in `links.pages.next`
+ * - Ory: `page_token` / `page_size`, next page in the `Link` header and the
+ *   total in `x-total-count`
+ *
+ * The style is classified from an operation's query parameters, success
+ * response schema and declared response headers.
+ */
+
+import type { RefResolver } from './schema-resolver.js'
+import type { OpenAPIDocument, OpenAPIResponse, OperationEntry } from './types.js'
+import { primaryType } from './json-schema.js'
+import { dereferenceSchema } from './schema-resolver.js'
+import { getOperationParameters, pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/**
+ * How pages are addressed
+ */
+export type PaginationStyle = 'page' | 'cursor' | 'offset'
+
+/**
+ * Where the position of the next page comes from
+ *
+ * - `field`: a body field holding the next page number or token (null when done)
+ * - `link`: a body field holding the URL of the next page
+ * - `header`: an RFC 8288 `Link` header with `rel="next"`
+ * - `short-page`: none - keep going until a page has fewer items than requested
+ */
+export type NextPageSource = 'field' | 'link' | 'header' | 'short-page'
+
+/**
+ * Pagination metadata of a list operation
+ */
+export interface PaginationInfo {
+  style: PaginationStyle
+  /** Query parameter selecting the page (e.g., "page", "page_token", "offset") */
+  pageParam: string
+  /** Query parameter setting the page size (e.g., "per_page", "page_size", "limit") */
+  sizeParam?: string
+  /** Largest page size the spec allows, if declared */
+  maxPageSize?: number
+  /** Dotted path of the item array in the body ("" when the body is the array) */
+  itemsField: string
+  next: {
+    source: NextPageSource
+    /** Body field path for `field` / `link`, header name for `header` */
+    location?: string
+  }
+  total?: {
+    source: 'body' | 'header'
+    /** Body field path or header name */
+    location: string
+  }
+}
+
+/** Query parameter names per style: [page selector, page size] */
+const STYLE_PARAMS: Array<[PaginationStyle, string[], string[]]> = [
+  ['cursor', ['page_token', 'pagetoken', 'cursor', 'next_token', 'starting_after', 'after'], ['page_size', 'limit', 'per_page']],
+  ['page', ['page', 'page_number'], ['per_page', 'page_size', 'limit']],
+  ['offset', ['offset', 'skip'], ['limit', 'page_size', 'per_page']],
+]
+
+/** Body fields holding the next page number or token */
+const NEXT_FIELDS = ['next_page', 'next_page_token', 'next_cursor', 'next_token', 'cursor.next']
+/** Body fields holding the next page URL */
+const NEXT_LINK_FIELDS = ['links.pages.next', 'links.next', 'next']
+/** Body fields holding the total number of items */
+const TOTAL_FIELDS = ['total_entries', 'total', 'total_count', 'count']
+
+/**
+ * Classify the pagination of an operation, or null when it isn't paginated
+ */
+export function detectPagination(
+  spec: OpenAPIDocument,
+  entry: OperationEntry,
+  resolveRef: RefResolver = ref => resolvePointer(spec, ref),
+): PaginationInfo | null {
+  if (entry.method !== 'get') {
+    return null
+  }
+
+  const queryParams = getOperationParameters(spec, entry).filter(param => param.in === 'query')
+  const byName = new Map(queryParams.map(param => [param.name.toLowerCase(), param]))
+
+  let match: { style: PaginationStyle, pageParam: string, sizeParam?: string } | null = null
+  for (const [style, pageNames, sizeNames] of STYLE_PARAMS) {
+    const page = pageNames.map(name => byName.get(name)).find(Boolean)
+    if (page) {
+      match = { style, pageParam: page.name, sizeParam: sizeNames.map(name => byName.get(name)).find(Boolean)?.name }
+      break
+    }
+  }
+  if (!match) {
+    return null
+  }
+
+  const status = Object.keys(entry.operation.responses || {}).find(code => code.startsWith('2'))
+  const raw = status ? entry.operation.responses[status] : undefined
+  const response = (raw && '$ref' in raw ? resolveRef(raw.$ref) : raw) as OpenAPIResponse | undefined
+  const media = pickMediaSchema(response?.content)
+  const schema = media ? dereferenceSchema(media.schema, resolveRef, { maxDepth: 6 }) : undefined
+  const fields = collectFields(schema)
+
+  const itemsField = primaryType(schema) === 'array' ? '' : fields.find(field => field.isArray && !field.path.includes('.'))?.path
+  if (itemsField === undefined) {
+    return null
+  }
+
+  const headers = Object.keys(response?.headers || {}).map(name => name.toLowerCase())
+  const nextField = findField(fields, NEXT_FIELDS)
+  const nextLink = findField(fields, NEXT_LINK_FIELDS)
+  const hasLinkHeader = headers.includes('link') || match.style === 'cursor'
+
+  const next: PaginationInfo['next'] = nextField
+    ? { source: 'field', location: nextField }
+    : nextLink
+      ? { source: 'link', location: nextLink }
+      : hasLinkHeader
+        ? { source: 'header', location: 'link' }
+        : { source: 'short-page' }
+
+  // Token-paginated APIs report the total next to the Link header
+  const totalField = findField(fields, TOTAL_FIELDS)
+  const totalHeader = headers.includes('x-total-count') || next.source === 'header' ? 'x-total-count' : undefined
+  const total: PaginationInfo['total'] = totalField
+    ? { source: 'body', location: totalField }
+    : totalHeader ? { source: 'header', location: totalHeader } : undefined
+
+  const sizeSchema = match.sizeParam ? byName.get(match.sizeParam.toLowerCase())?.schema : undefined
+  const maxPageSize = (sizeSchema && !('$ref' in sizeSchema) ? sizeSchema.maximum : undefined)
+
+  return {
+    ...match,
+    ...(maxPageSize !== undefined && { maxPageSize }),
+    itemsField,
+    next,
+    ...(total && { total }),
+  }
+}
+
+/**
+ * Property paths of a schema, three levels deep
+ *
+ * Properties of anyOf / oneOf variants count too: DigitalOcean declares
+ * `links.pages` as forward or backward links.
+ */
+function collectFields(schema: any, prefix = '', depth = 0): Array<{ path: string, isArray: boolean }> {
+  if (!schema || depth > 2) {
+    return []
+  }
+
+  const variants = [...(schema.anyOf || []), ...(schema.oneOf || [])]
+  const properties = Object.assign({}, ...variants.map((variant: any) => variant?.properties), schema.properties)
+
+  return Object.entries<any>(properties).flatMap(([name, property]) => {
+    const path = prefix ? `${prefix}.${name}` : name
+    return [{ path, isArray: primaryType(property) === 'array' }, ...collectFields(property, path, depth + 1)]
+  })
+}
+
+/**
+ * First candidate that exists, matching at the root or under a single wrapper (e.g., "meta.pagination.next_page")
+ */
+function findField(fields: Array<{ path: string }>, candidates: string[]): string | undefined {
+  for (const candidate of candidates) {
+    const found = fields.find(field => field.path === candidate || field.path.endsWith(`.${candidate}`))
+    if (found) {
+      return found.path
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,265 @@
+/**
+ * Schema reference graph
+ *
+ * Built once per spec: records, for every component schema, which
+ * operations reach it (through parameters, request bodies or responses,
+ * directly or via other schemas) and in which field, plus which other
+ * component schemas reference it.
+ */
+
+import type { OpenAPIDocument, OpenAPIResponse, OpenAPIV3 } from './types.js'
+import { primaryType } from './json-schema.js'
+import { getOperationParameters, listOperations, pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/** Prefix of refs that point at component schemas */
+const SCHEMA_REF_PREFIX = '#/components/schemas/'
+
+/**
+ * Where an operation uses a schema
+ */
+export interface SchemaUsage {
+  /** Operation label (e.g., "POST /servers") */
+  operation: string
+  operationId?: string
+  /** `requestBody`, `response:<status>` or `parameter:<name>` */
+  location: string
+  /** Field paths inside that location ("" is the root, `[]` marks array items) */
+  fields: string[]
+}
+
+/**
+ * A component schema that references another one
+ */
+export interface SchemaReference {
+  schema: string
+  field: string
+}
+
+/**
+ * Catalog entry for list_schemas
+ */
+export interface SchemaSummary {
+  name: string
+  type?: string
+  description?: string
+  propertyCount: number
+  /** Number of operations that use the schema */
+  operationCount: number
+}
+
+/**
+ * Options for listing schemas
+ */
+export interface ListSchemasOptions {
+  /** Case-insensitive filter on name, then description */
+  query?: string
+  offset?: number
+  limit?: number
+}
+
+/**
+ * One page of the schema catalog
+ */
+export interface SchemaPage {
+  total: number
+  offset: number
+  limit: number
+  /** Offset of the next page, or null when this is the last one */
+  nextOffset: number | null
+  schemas: SchemaSummary[]
+}
+
+/**
+ * Reference graph of a single spec
+ */
+export class SchemaGraph {
+  private schemas: Record<string, OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject>
+  private usages = new Map<string, SchemaUsage[]>()
+  private referencedBy = new Map<string, SchemaReference[]>()
+
+  constructor(spec: OpenAPIDocument) {
+    this.schemas = spec.components?.schemas || {}
+
+    // Schema → schema edges (refs are not followed)
+    for (const [name, schema] of Object.entries(this.schemas)) {
+      walkSchema(spec, schema, '', false, new Set(), (target, field) => {
+        const references = this.referencedBy.get(target) || []
+        if (!references.some(ref => ref.schema === name && ref.field === field)) {
+          references.push({ schema: name, field })
+        }
+        this.referencedBy.set(target, references)
+      })
+    }
+
+    // Operation → schema usages (refs are followed)
+    for (const entry of listOperations(spec)) {
+      const operation = `${entry.method.toUpperCase()} ${entry.path}`
+      const locations: Array<[string, unknown]> = []
+
+      for (const param of getOperationParameters(spec, entry)) {
+        locations.push([`parameter:${param.name}`, param.schema])
+      }
+
+      const requestBody = resolveObject<OpenAPIV3.RequestBodyObject>(spec, entry.operation.requestBody)
+      locations.push(['requestBody', pickMediaSchema(requestBody?.content)?.schema])
+
+      for (const [status, response] of Object.entries(entry.operation.responses || {})) {
+        const resolved = resolveObject<OpenAPIResponse>(spec, response)
+        locations.push([`response:${status}`, pickMediaSchema(resolved?.content)?.schema])
+      }
+
+      for (const [location, schema] of locations) {
+        if (!schema) {
+          continue
+        }
+
+        walkSchema(spec, schema, '', true, new Set(), (target, field) => {
+          this.recordUsage(target, { operation, operationId: entry.operation.operationId, location, fields: [field] })
+        })
+      }
+    }
+  }
+
+  /**
+   * Number of component schemas
+   */
+  get size(): number {
+    return Object.keys(this.schemas).length
+  }
+
+  /**
+   * Whether a component schema exists
+   */
+  has(name: string): boolean {
+    return name in this.schemas
+  }
+
+  /**
+   * Page through component schemas, optionally filtered by a query
+   *
+   * Name matches are listed before description-only matches.
+   */
+  list(options: ListSchemasOptions = {}): SchemaPage {
+    const { offset = 0, limit = 50 } = options
+    const query = options.query?.toLowerCase()
+    let names = Object.keys(this.schemas)
+
+    if (query) {
+      const byName = names.filter(name => name.toLowerCase().includes(query))
+      const byDescription = names.filter(name =>
+        !byName.includes(name) && schemaDescription(this.schemas[name])?.toLowerCase().includes(query))
+      names = [...byName, ...byDescription]
+    }
+
+    const page = names.slice(offset, offset + limit)
+
+    return {
+      total: names.length,
+      offset,
+      limit,
+      nextOffset: offset + limit < names.length ? offset + limit : null,
+      schemas: page.map(name => this.summarize(name)),
+    }
+  }
+
+  /**
+   * Operations that accept or return a schema, and the schemas that reference it
+   */
+  findUsages(name: string): { operations: SchemaUsage[], referencedBy: SchemaReference[] } {
+    return {
+      operations: this.usages.get(name) || [],
+      referencedBy: this.referencedBy.get(name) || [],
+    }
+  }
+
+  private summarize(name: string): SchemaSummary {
+    const schema = this.schemas[name] as Record<string, any>
+    const description = schemaDescription(schema)
+
+    return {
+      name,
+      type: primaryType(schema),
+      // First line only: catalog entries should stay short
+      description: description?.split('\n')[0],
+      propertyCount: Object.keys(schema?.properties || {}).length,
+      operationCount: new Set((this.usages.get(name) || []).map(usage => usage.operation)).size,
+    }
+  }
+
+  private recordUsage(name: string, usage: SchemaUsage): void {
+    const usages = this.usages.get(name) || []
+    const existing = usages.find(u => u.operation === usage.operation && u.location === usage.location)
+
+    if (!existing) {
+      usages.push(usage)
+    }
+    else if (!existing.fields.includes(usage.fields[0]!)) {
+      existing.fields.push(usage.fields[0]!)
+    }
+
+    this.usages.set(name, usages)
+  }
+}
+
+/**
+ * Visit every component schema ref inside a schema
+ *
+ * With `follow`, referenced schemas are walked as well; each schema's
+ * subtree is walked once per call, so only its first field path is
+ * reported for schemas nested below it.
+ */
+function walkSchema(
+  spec: OpenAPIDocument,
+  node: unknown,
+  field: string,
+  follow: boolean,
+  walked: Set<string>,
+  visit: (name: string, field: string) => void,
+): void {
+  if (!node || typeof node !== 'object') {
+    return
+  }
+
+  const schema = node as Record<string, any>
+
+  if (typeof schema.$ref === 'string') {
+    if (!schema.$ref.startsWith(SCHEMA_REF_PREFIX)) {
+      return
+    }
+
+    const name = schema.$ref.slice(SCHEMA_REF_PREFIX.length).replace(/~1/g, '/').replace(/~0/g, '~')
+    visit(name, field)
+
+    if (follow && !walked.has(name)) {
+      walked.add(name)
+      walkSchema(spec, resolvePointer(spec, schema.$ref), field, follow, walked, visit)
+    }
+    return
+  }
+
+  const join = (name: string): string => (field ? `${field}.${name}` : name)
+
+  for (const [name, child] of Object.entries(schema.properties || {})) {
+    walkSchema(spec, child, join(name), follow, walked, visit)
+  }
+  walkSchema(spec, schema.items, `${field}[]`, follow, walked, visit)
+  walkSchema(spec, schema.additionalProperties, join('*'), follow, walked, visit)
+
+  for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+    for (const member of schema[keyword] || []) {
+      walkSchema(spec, member, field, follow, walked, visit)
+    }
+  }
+}
+
+function resolveObject<T>(spec: OpenAPIDocument, node: unknown): T | undefined {
+  if (node && typeof node === 'object' && '$ref' in node) {
+    return resolvePointer(spec, (node as OpenAPIV3.ReferenceObject).$ref) ?? undefined
+  }
+  return node as T | undefined
+}
+
+function schemaDescription(schema: unknown): string | undefined {
+  const { description, title } = (schema || {}) as Record<string, unknown>
+  return typeof description === 'string' ? description : (typeof title === 'string' ? title : undefined)
+}
@@ -0,0 +1,229 @@
+/**
+ * Schema dereferencing for display and validation
+ *
+ * Turns a schema full of `$ref`s into a self-contained tree:
+ * - `$ref`s are inlined (cycles become `{ $ref, 'x-circular': true }`)
+ * - nesting beyond `maxDepth` is cut off with `'x-truncated': true`
+ * - `allOf` members are merged into a single object schema
+ * - `oneOf` / `anyOf` variants are labeled with `x-variant`
+ */
+
+import type { OpenAPIDocument, OperationEntry } from './types.js'
+import { ToolError } from './errors.js'
+import { findResponse, findResponseSchema, getOperationParameters, pickMediaSchema, resolvePointer } from './spec-utils.js'
+import { suggestNames } from './suggestions.js'
+
+/**
+ * Resolves a `$ref` string to its target, or null when it cannot be found
+ */
+export type RefResolver = (ref: string) => unknown
+
+/**
+ * Options for dereferencing
+ */
+export interface DereferenceOptions {
+  /** Maximum schema nesting depth before truncating (default: 8) */
+  maxDepth?: number
+  /** Merge `allOf` members into one schema (default: true) */
+  mergeAllOf?: boolean
+}
+
+/**
+ * Where a schema lives inside an operation
+ *
+ * - `requestBody`
+ * - `response:<status>` (e.g., "response:200", "response:4XX", "response:default")
+ * - `parameter:<name>`
+ */
+export type SchemaLocation = string
+
+/** Keywords whose value is a map of name → schema */
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas']
+/** Keywords whose value is a single schema */
+const SCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'contains', 'if', 'then', 'else', 'propertyNames', 'unevaluatedItems', 'unevaluatedProperties', 'contentSchema']
+/** Keywords whose value is a list of schemas */
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'oneOf', 'anyOf', 'prefixItems']
+
+/**
+ * Dereference a schema into a self-contained, cycle-safe tree
+ */
+export function dereferenceSchema(schema: unknown, resolveRef: RefResolver, options: DereferenceOptions = {}): any {
+  const maxDepth = options.maxDepth ?? 8
+  const mergeAllOf = options.mergeAllOf ?? true
+
+  const walk = (node: any, depth: number, stack: string[]): any => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      return node
+    }
+
+    if (typeof node.$ref === 'string') {
+      const ref: string = node.$ref
+      if (stack.includes(ref)) {
+        return { '$ref': ref, 'x-circular': true }
+      }
+
+      const target = resolveRef(ref)
+      if (!target || typeof target !== 'object') {
+        return { '$ref': ref, 'x-unresolved': true }
+      }
+
+      // Sibling keywords next to $ref (e.g., description) override the target
+      const { $ref: _, ...siblings } = node
+      const resolved = walk(target, depth, [...stack, ref])
+      return Object.keys(siblings).length > 0 ? { ...resolved, ...siblings } : resolved
+    }
+
+    if (depth > maxDepth) {
+      return truncate(node)
+    }
+
+    const result: Record<string, any> = {}
+    for (const [key, value] of Object.entries(node)) {
+      if (SCHEMA_MAP_KEYWORDS.includes(key) && value && typeof value === 'object') {
+        result[key] = Object.fromEntries(
+          Object.entries(value).map(([name, child]) => [name, walk(child, depth + 1, stack)]),
+        )
+      }
+      else if (SCHEMA_KEYWORDS.includes(key) && value && typeof value === 'object') {
+        result[key] = walk(value, depth + 1, stack)
+      }
+      else if (SCHEMA_LIST_KEYWORDS.includes(key) && Array.isArray(value)) {
+        result[key] = value.map(child => walk(child, depth + 1, stack))
+      }
+      else {
+        result[key] = value
+      }
+    }
+
+    for (const keyword of ['oneOf', 'anyOf']) {
+      if (Array.isArray(node[keyword])) {
+        result[keyword] = labelVariants(node[keyword], result[keyword], keyword, node.discriminator)
+      }
+    }
+
+    if (mergeAllOf && Array.isArray(result.allOf)) {
+      return mergeAllOfSchema(result)
+    }
+
+    return result
+  }
+
+  return walk(schema, 0, [])
+}
+
+/**
+ * Merge `allOf` members (already dereferenced) into the parent schema
+ */
+export function mergeAllOfSchema(schema: Record<string, any>): Record<string, any> {
+  const { allOf, ...rest } = schema
+  const merged: Record<string, any> = {}
+  const required = new Set<string>()
+
+  for (const member of [...(allOf as any[]), rest]) {
+    if (!member || typeof member !== 'object') {
+      continue
+    }
+
+    const source = Array.isArray(member.allOf) ? mergeAllOfSchema(member) : member
+    for (const [key, value] of Object.entries(source)) {
+      if (key === 'properties') {
+        merged.properties = { ...merged.properties, ...(value as object) }
+      }
+      else if (key === 'required' && Array.isArray(value)) {
+        value.forEach(field => required.add(field))
+      }
+      // Variant labels of members are meaningless once merged
+      else if (key !== 'x-variant') {
+        merged[key] = value
+      }
+    }
+  }
+
+  if (required.size > 0) {
+    merged.required = Array.from(required)
+  }
+  if (merged.properties && !merged.type) {
+    merged.type = 'object'
+  }
+
+  return merged
+}
+
+function labelVariants(original: any[], resolved: any[], keyword: string, discriminator?: any): any[] {
+  const mappingByRef = new Map<string, string>()
+  for (const [value, ref] of Object.entries(discriminator?.mapping || {})) {
+    mappingByRef.set(ref as string, value)
+  }
+
+  return resolved.map((variant, index) => {
+    const ref = original[index]?.$ref as string | undefined
+    const label = (ref && mappingByRef.get(ref))
+      || (ref && ref.split('/').pop())
+      || variant?.title
+      || `${keyword} #${index + 1}`
+
+    return variant && typeof variant === 'object' ? { 'x-variant': label, ...variant } : variant
+  })
+}
+
+function truncate(node: Record<string, any>): Record<string, any> {
+  const summary: Record<string, any> = { 'x-truncated': true }
+  for (const key of ['type', 'title', 'description', 'format']) {
+    if (node[key] !== undefined) {
+      summary[key] = node[key]
+    }
+  }
+  return summary
+}
+
+/**
+ * Find the raw schema at a location inside an operation
+ *
+ * @throws ToolError when the location is malformed or does not exist
+ */
+export function locateSchema(spec: OpenAPIDocument, entry: OperationEntry, location: SchemaLocation): unknown {
+  const [kind, ...rest] = location.split(':')
+  const argument = rest.join(':')
+  const endpoint = `${entry.method.toUpperCase()} ${entry.path}`
+
+  if (kind === 'requestBody') {
+    let requestBody: any = entry.operation.requestBody
+    if (requestBody && '$ref' in requestBody) {
+      requestBody = resolvePointer(spec, requestBody.$ref)
+    }
+
+    const media = pickMediaSchema(requestBody?.content)
+    if (!media) {
+      throw new ToolError('SCHEMA_NOT_FOUND', `${endpoint} has no request body schema`)
+    }
+    return media.schema
+  }
+
+  if (kind === 'response') {
+    if (!argument) {
+      throw new ToolError('INVALID_ARGUMENTS', 'Response location requires a status code (e.g., "response:200")', Object.keys(entry.operation.responses || {}).map(code => `response:${code}`))
+    }
+
+    if (!findResponse(spec, entry.operation, argument)) {
+      const available = Object.keys(entry.operation.responses || {})
+      throw new ToolError('RESPONSE_NOT_FOUND', `${endpoint} has no response ${argument}. Available: ${available.join(', ')}`, available.map(code => `response:${code}`))
+    }
+
+    const found = findResponseSchema(spec, entry.operation, argument)
+    if (!found) {
+      throw new ToolError('SCHEMA_NOT_FOUND', `Response ${argument} of ${endpoint} has no body schema`)
+    }
+    return found.schema
+  }
+
+  if (kind === 'parameter') {
+    const parameters = getOperationParameters(spec, entry)
+    const parameter = parameters.find(p => p.name === argument)
+    if (!parameter) {
+      throw new ToolError('INVALID_ARGUMENTS', `${endpoint} has no parameter "${argument}". Available: ${parameters.map(p => p.name).join(', ')}`, suggestNames(parameters.map(p => `parameter:${p.name}`), `parameter:${argument}`))
+    }
+    return parameter.schema ?? pickMediaSchema(parameter.content)?.schema ?? {}
+  }
+
+  throw new ToolError('INVALID_ARGUMENTS', `Invalid location "${location}". Use "requestBody", "response:<status>" or "parameter:<name>"`, ['requestBody', 'response:<status>', 'parameter:<name>'])
+}
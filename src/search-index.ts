@@ -0,0 +1,295 @@
+/**
+ * Ranked full-text search over API operations
+ *
+ * Builds a BM25 index across all loaded specs. Each operation becomes one
+ * document made of weighted fields (path segments, operationId, summary,
+ * description, tags and parameter names), so a query like "resize droplet"
+ * ranks the resize action above every path that merely contains "droplet".
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { getOperationParameters, listOperations } from './spec-utils.js'
+
+/**
+ * Field weights - a term in the path or operationId is a much stronger
+ * signal than the same term somewhere in a long description
+ */
+const FIELD_WEIGHTS = {
+  path: 3,
+  operationId: 3,
+  summary: 2,
+  tags: 2,
+  parameters: 1,
+  description: 1,
+} as const
+
+/** BM25 term frequency saturation */
+const K1 = 1.2
+/** BM25 document length normalization */
+const B = 0.75
+/** Score multiplier for query tokens that only match as a term prefix */
+const PREFIX_MATCH_WEIGHT = 0.5
+
+/**
+ * An indexed operation
+ */
+export interface SearchDocument {
+  api: string
+  path: string
+  method: string
+  operationId?: string
+  summary?: string
+  description?: string
+  tags: string[]
+}
+
+/**
+ * A ranked search hit
+ */
+export interface SearchResult extends SearchDocument {
+  score: number
+}
+
+/**
+ * Search filters
+ */
+export interface SearchOptions {
+  /** Restrict to one API; omit to search across all APIs */
+  api?: string
+  /** Restrict to an HTTP method (case-insensitive) */
+  method?: string
+  /** Restrict to operations carrying at least one of these tags (case-insensitive) */
+  tags?: string[]
+  /** Maximum number of results */
+  limit?: number
+}
+
+interface IndexedDocument {
+  doc: SearchDocument
+  terms: Map<string, number>
+  length: number
+}
+
+/**
+ * Split text into normalized search terms
+ *
+ * Handles camelCase, snake_case, kebab-case and path templates, and applies
+ * a light plural stemmer so "droplets" and "droplet" share a term.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1)
+    .map(stem)
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1)
+  }
+  return token
+}
+
+/**
+ * BM25 index over the operations of one or more specs
+ */
+export class SearchIndex {
+  private documents: IndexedDocument[] = []
+  private documentFrequency = new Map<string, number>()
+  private totalLength = 0
+
+  /**
+   * Number of indexed operations
+   */
+  get size(): number {
+    return this.documents.length
+  }
+
+  /**
+   * Index every operation of a spec under the given API name
+   */
+  addSpec(api: string, spec: OpenAPIDocument): void {
+    for (const entry of listOperations(spec)) {
+      const { path, method, operation } = entry
+      const parameters = getOperationParameters(spec, entry)
+
+      const doc: SearchDocument = {
+        api,
+        path,
+        method: method.toUpperCase(),
+        operationId: operation.operationId,
+        summary: operation.summary,
+        description: operation.description,
+        tags: operation.tags || [],
+      }
+
+      const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+        path: path.replace(/\{[^}]*\}/g, ' '),
+        operationId: operation.operationId || '',
+        summary: operation.summary || '',
+        tags: doc.tags.join(' '),
+        parameters: parameters.map(p => p.name).join(' '),
+        description: operation.description || '',
+      }
+
+      this.addDocument(doc, fields)
+    }
+  }
+
+  /**
+   * Drop every operation indexed under the given API name
+   */
+  removeSpec(api: string): void {
+    const kept: IndexedDocument[] = []
+
+    for (const indexed of this.documents) {
+      if (indexed.doc.api !== api) {
+        kept.push(indexed)
+        continue
+      }
+
+      this.totalLength -= indexed.length
+      for (const term of indexed.terms.keys()) {
+        const frequency = (this.documentFrequency.get(term) || 0) - 1
+        if (frequency > 0) {
+          this.documentFrequency.set(term, frequency)
+        }
+        else {
+          this.documentFrequency.delete(term)
+        }
+      }
+    }
+
+    this.documents = kept
+  }
+
+  /**
+   * Rank documents against a query, best match first
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)))
+    const limit = options.limit ?? 20
+
+    if (queryTerms.length === 0 || this.documents.length === 0) {
+      return []
+    }
+
+    const expanded = queryTerms.map(term => this.expandTerm(term))
+    const avgLength = this.totalLength / this.documents.length
+    const results: SearchResult[] = []
+
+    for (const indexed of this.documents) {
+      if (!this.matchesFilters(indexed.doc, options)) {
+        continue
+      }
+
+      let score = 0
+      for (const candidates of expanded) {
+        for (const [term, weight] of candidates) {
+          const tf = indexed.terms.get(term)
+          if (!tf) {
+            continue
+          }
+
+          const idf = this.idf(term)
+          const norm = tf + K1 * (1 - B + B * (indexed.length / avgLength))
+          score += weight * idf * ((tf * (K1 + 1)) / norm)
+        }
+      }
+
+      if (score > 0) {
+        results.push({ ...indexed.doc, score: Math.round(score * 1000) / 1000 })
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  /**
+   * List documents in spec order without ranking (used when there is no query)
+   */
+  list(options: SearchOptions = {}): SearchDocument[] {
+    const limit = options.limit ?? 20
+    const results: SearchDocument[] = []
+
+    for (const indexed of this.documents) {
+      if (results.length >= limit) {
+        break
+      }
+      if (this.matchesFilters(indexed.doc, options)) {
+        results.push(indexed.doc)
+      }
+    }
+
+    return results
+  }
+
+  private addDocument(doc: SearchDocument, fields: Record<keyof typeof FIELD_WEIGHTS, string>): void {
+    const terms = new Map<string, number>()
+    let length = 0
+
+    for (const [field, text] of Object.entries(fields)) {
+      const weight = FIELD_WEIGHTS[field as keyof typeof FIELD_WEIGHTS]
+      for (const token of tokenize(text)) {
+        terms.set(token, (terms.get(token) || 0) + weight)
+        length += weight
+      }
+    }
+
+    this.storeDocument({ doc, terms, length })
+  }
+
+  private storeDocument(indexed: IndexedDocument): void {
+    this.documents.push(indexed)
+    this.totalLength += indexed.length
+
+    for (const term of indexed.terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  private matchesFilters(doc: SearchDocument, options: SearchOptions): boolean {
+    if (options.api && doc.api !== options.api) {
+      return false
+    }
+    if (options.method && doc.method !== options.method.toUpperCase()) {
+      return false
+    }
+    if (options.tags && options.tags.length > 0) {
+      const wanted = options.tags.map(tag => tag.toLowerCase())
+      return doc.tags.some(tag => wanted.includes(tag.toLowerCase()))
+    }
+    return true
+  }
+
+  private idf(term: string): number {
+    const n = this.documentFrequency.get(term) || 0
+    const total = this.documents.length
+    return Math.log(1 + (total - n + 0.5) / (n + 0.5))
+  }
+
+  /**
+   * Exact term plus discounted prefix matches ("drop" → "droplet")
+   */
+  private expandTerm(term: string): Map<string, number> {
+    const candidates = new Map<string, number>([[term, 1]])
+
+    if (term.length >= 3) {
+      for (const known of this.documentFrequency.keys()) {
+        if (known !== term && known.startsWith(term)) {
+          candidates.set(known, PREFIX_MATCH_WEIGHT)
+        }
+      }
+    }
+
+    return candidates
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Security requirements of operations
+ *
+ * Resolves `operation.security` (falling back to the global `security`)
+ * against `components.securitySchemes`, so callers know exactly which
+ * credentials an endpoint takes - Hydra alone mixes basic, bearer and
+ * oauth2 across its admin and public endpoints.
+ */
+
+import type { OpenAPIDocument, OpenAPIOperation, OpenAPISecurityScheme, OpenAPIV3 } from './types.js'
+
+/**
+ * One OAuth2 flow of a scheme
+ */
+export interface OAuthFlowDetail {
+  flow: string
+  authorizationUrl?: string
+  tokenUrl?: string
+  refreshUrl?: string
+  /** Scopes the scheme offers in this flow */
+  availableScopes: string[]
+}
+
+/**
+ * A security scheme as required by one operation
+ */
+export interface SecurityRequirementDetail {
+  /** Scheme name in components.securitySchemes */
+  scheme: string
+  /** Scheme type, or "unknown" when the scheme is not declared */
+  type: OpenAPISecurityScheme['type'] | 'unknown'
+  description?: string
+  /** HTTP auth scheme (e.g., "bearer", "basic") */
+  httpScheme?: string
+  bearerFormat?: string
+  /** apiKey location */
+  in?: string
+  /** apiKey parameter name */
+  name?: string
+  flows?: OAuthFlowDetail[]
+  openIdConnectUrl?: string
+  /** Scopes this operation requires */
+  scopes: string[]
+  /** How to send the credential (e.g., "Authorization: Bearer <token>") */
+  usage: string
+}
+
+/**
+ * Effective security of an operation
+ */
+export interface OperationSecurity {
+  /** Whether the requirements come from the operation, the spec root, or neither */
+  source: 'operation' | 'global' | 'none'
+  /** True when the operation can be called without credentials */
+  anonymous: boolean
+  /**
+   * Alternative requirement sets: any one set satisfies the operation,
+   * and every scheme within a set is needed together
+   */
+  alternatives: SecurityRequirementDetail[][]
+}
+
+/**
+ * Resolve the security requirements that apply to an operation
+ */
+export function getOperationSecurity(spec: OpenAPIDocument, operation: OpenAPIOperation): OperationSecurity {
+  const source = operation.security ? 'operation' : (spec.security ? 'global' : 'none')
+  const requirements = operation.security ?? spec.security ?? []
+
+  return {
+    source,
+    // An empty requirement object (or no requirements at all) means no auth
+    anonymous: requirements.length === 0 || requirements.some(requirement => Object.keys(requirement).length === 0),
+    alternatives: describeRequirements(spec, requirements),
+  }
+}
+
+/**
+ * Resolve a list of security requirement objects against the declared schemes
+ */
+export function describeRequirements(
+  spec: OpenAPIDocument,
+  requirements: OpenAPIV3.SecurityRequirementObject[],
+): SecurityRequirementDetail[][] {
+  return requirements
+    .filter(requirement => Object.keys(requirement).length > 0)
+    .map(requirement => Object.entries(requirement).map(([name, scopes]) => describeScheme(spec, name, scopes)))
+}
+
+function describeScheme(spec: OpenAPIDocument, name: string, scopes: string[]): SecurityRequirementDetail {
+  const raw = spec.components?.securitySchemes?.[name]
+  const scheme = (raw && !('$ref' in raw) ? raw : undefined) as OpenAPISecurityScheme | undefined
+
+  if (!scheme) {
+    return { scheme: name, type: 'unknown', scopes, usage: `Undeclared security scheme "${name}"` }
+  }
+
+  const detail: SecurityRequirementDetail = {
+    scheme: name,
+    type: scheme.type,
+    description: scheme.description,
+    scopes,
+    usage: '',
+  }
+
+  switch (scheme.type) {
+    case 'http': {
+      const httpScheme = scheme.scheme.toLowerCase()
+      detail.httpScheme = httpScheme
+      detail.bearerFormat = scheme.bearerFormat
+      detail.usage = httpScheme === 'basic'
+        ? 'Authorization: Basic <base64(username:password)>'
+        : httpScheme === 'bearer'
+          ? 'Authorization: Bearer <token>'
+          : httpScheme === 'digest'
+            ? 'Authorization: Digest <response to the server\'s WWW-Authenticate challenge>'
+            : `Authorization: ${capitalize(httpScheme)} <credentials>`
+      break
+    }
+    case 'apiKey':
+      detail.in = scheme.in
+      detail.name = scheme.name
+      detail.usage = scheme.in === 'query'
+        ? `Query parameter ${scheme.name}=<api key>`
+        : scheme.in === 'cookie'
+          ? `Cookie: ${scheme.name}=<api key>`
+          : `${scheme.name}: <api key>`
+      break
+    case 'oauth2':
+      detail.flows = Object.entries(scheme.flows).map(([flow, config]) => ({
+        flow,
+        authorizationUrl: (config as OpenAPIV3.OAuth2SecurityScheme['flows']['authorizationCode'])?.authorizationUrl,
+        tokenUrl: (config as OpenAPIV3.OAuth2SecurityScheme['flows']['clientCredentials'])?.tokenUrl,
+        refreshUrl: config?.refreshUrl,
+        availableScopes: Object.keys(config?.scopes || {}),
+      }))
+      detail.usage = 'Authorization: Bearer <OAuth2 access token>'
+      break
+    case 'openIdConnect':
+      detail.openIdConnectUrl = scheme.openIdConnectUrl
+      detail.usage = 'Authorization: Bearer <OpenID Connect access token>'
+      break
+  }
+
+  return detail
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
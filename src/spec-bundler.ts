@@ -0,0 +1,337 @@
+/**
+ * External `$ref` resolution for multi-file specs
+ *
+ * Bundles a spec split over several files (`./schemas/droplet.yml#/Droplet`)
+ * into one self-contained document, so everything downstream only ever
+ * deals with local `#/...` refs:
+ * - schemas are hoisted into `components/schemas` (`definitions` for
+ *   Swagger 2.0) and referenced from there, which keeps cycles intact
+ * - anything else (path items, parameters, responses, ...) is inlined
+ * - refs inside a referenced file resolve relative to that file, and a
+ *   bare `#/...` there points into that file, not into the root spec
+ *
+ * Refs that cannot be followed (missing files, bad pointers, URLs, files
+ * outside `root`) are left in place and reported as warnings.
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { basename, dirname, extname, isAbsolute, relative, resolve } from 'node:path'
+import { readSpecFile } from './spec-loader.js'
+import { escapePointer, resolvePointer } from './spec-utils.js'
+
+/**
+ * Options for bundling
+ */
+export interface BundleOptions {
+  /** Directory that referenced files must stay inside (default: no restriction) */
+  root?: string
+  /** Parsed files shared between bundles (default: a fresh cache) */
+  cache?: DocumentCache
+}
+
+/**
+ * A bundled spec
+ */
+export interface BundleResult {
+  spec: OpenAPIDocument
+  /** Absolute paths of the external files the spec references, directly or indirectly */
+  files: string[]
+  /** Refs that could not be resolved, and files that could not be read */
+  warnings: string[]
+}
+
+/**
+ * Parsed JSON and YAML files keyed by absolute path
+ *
+ * Specs sharing a file (e.g., a common `errors.yaml`) read it once; hot
+ * reload invalidates changed files.
+ */
+export class DocumentCache {
+  private documents: Map<string, Promise<unknown>> = new Map()
+  private read: (path: string) => Promise<unknown>
+
+  /**
+   * @param read - Reads and parses one file (default: from disk; e.g., `git show` for older revisions)
+   */
+  constructor(read: (path: string) => Promise<unknown> = readSpecFile) {
+    this.read = read
+  }
+
+  load(path: string): Promise<unknown> {
+    const absolute = resolve(path)
+    let document = this.documents.get(absolute)
+    if (!document) {
+      document = this.read(absolute)
+      this.documents.set(absolute, document)
+    }
+    return document
+  }
+
+  invalidate(path: string): void {
+    this.documents.delete(resolve(path))
+  }
+
+  clear(): void {
+    this.documents.clear()
+  }
+}
+
+/**
+ * A `$ref` split into the file it points at and the pointer inside it
+ */
+interface ExternalTarget {
+  /** Absolute file path */
+  path: string
+  /** JSON pointer without the leading "#" ("" for the whole file) */
+  pointer: string
+}
+
+/** Refs with a URL scheme (http:, https:, urn:, ...) are never fetched */
+const URL_SCHEME = /^[a-z][a-z\d+.-]+:/i
+
+/**
+ * Resolve every external `$ref` in a spec loaded from `file`
+ */
+export async function bundleSpec(spec: OpenAPIDocument, file: string, options: BundleOptions = {}): Promise<BundleResult> {
+  const cache = options.cache ?? new DocumentCache()
+  const rootPath = resolve(file)
+  const warnings: string[] = []
+  const documents = new Map<string, unknown>([[rootPath, spec]])
+  const display = (path: string) => relative(options.root ?? dirname(rootPath), path) || basename(path)
+
+  // Split a ref found in `base` into file + pointer, or null when it stays as is
+  const target = (ref: string, base: string): ExternalTarget | null => {
+    const hash = ref.indexOf('#')
+    const location = hash < 0 ? ref : ref.slice(0, hash)
+    const pointer = hash < 0 ? '' : ref.slice(hash + 1)
+
+    if (!location) {
+      return { path: base, pointer }
+    }
+    if (URL_SCHEME.test(location)) {
+      return null
+    }
+
+    let decoded = location
+    try {
+      decoded = decodeURI(location)
+    }
+    catch {
+      // Keep malformed percent-encoding as-is
+    }
+    const path = resolve(dirname(base), decoded)
+    if (options.root && !isInside(options.root, path)) {
+      return null
+    }
+    return { path, pointer }
+  }
+
+  // Load every file reachable from the root, following refs file by file
+  const queue = [rootPath]
+  const skipped = new Set<string>()
+  const unreadable = new Set<string>()
+  while (queue.length > 0) {
+    const base = queue.shift()!
+    for (const ref of collectRefs(documents.get(base))) {
+      const external = target(ref, base)
+      if (!external) {
+        if (!ref.startsWith('#') && !skipped.has(ref)) {
+          skipped.add(ref)
+          warnings.push(URL_SCHEME.test(ref)
+            ? `${display(base)}: $ref "${ref}" points to a URL, which is not fetched`
+            : `${display(base)}: $ref "${ref}" points outside ${options.root}`)
+        }
+        continue
+      }
+      if (documents.has(external.path) || unreadable.has(external.path)) {
+        continue
+      }
+
+      try {
+        documents.set(external.path, await cache.load(external.path))
+        queue.push(external.path)
+      }
+      catch (error) {
+        unreadable.add(external.path)
+        warnings.push(`${display(base)}: cannot read $ref "${ref}": ${error instanceof Error ? error.message : error}`)
+      }
+    }
+  }
+
+  // Unreadable files count too, so creating or fixing one triggers a reload
+  const files = [...Array.from(documents.keys()).filter(path => path !== rootPath), ...unreadable]
+  if (documents.size === 1) {
+    return { spec, files, warnings }
+  }
+
+  const sectionPath = 'swagger' in spec ? ['definitions'] : ['components', 'schemas']
+  const sectionPointer = `/${sectionPath.join('/')}`
+  const section: Record<string, unknown> = resolvePointer(spec, `#${sectionPointer}`) ?? {}
+
+  // Schemas already named in the root section keep their name; hoisted ones get a free one
+  const hoisted = new Map<string, string>()
+  const added: Record<string, unknown> = {}
+  const taken = new Set(Object.keys(section))
+  for (const [name, entry] of Object.entries(section)) {
+    const ref = (entry as { $ref?: unknown } | null)?.$ref
+    const external = typeof ref === 'string' && !ref.startsWith('#') ? target(ref, rootPath) : null
+    if (external && !hoisted.has(key(external))) {
+      hoisted.set(key(external), `#${sectionPointer}/${escapePointer(name)}`)
+    }
+  }
+
+  const inlining = new Set<string>()
+
+  function walk(node: unknown, base: string, inSchema: boolean, at: string): unknown {
+    if (Array.isArray(node)) {
+      let changed = false
+      const items = node.map((item, index) => {
+        const result = walk(item, base, inSchema, `${at}/${index}`)
+        changed ||= result !== item
+        return result
+      })
+      return changed ? items : node
+    }
+    if (!node || typeof node !== 'object') {
+      return node
+    }
+
+    const object = node as Record<string, unknown>
+    if (typeof object.$ref === 'string') {
+      const replaced = replaceRef(object, object.$ref, base, inSchema, at)
+      if (replaced !== undefined) {
+        return replaced
+      }
+    }
+
+    let changed = false
+    const result: Record<string, unknown> = {}
+    for (const [name, value] of Object.entries(object)) {
+      const childInSchema = inSchema || name === 'schema' || (name === 'definitions' && at === '') || (name === 'schemas' && at === '/components')
+      result[name] = walk(value, base, childInSchema, `${at}/${escapePointer(name)}`)
+      changed ||= result[name] !== value
+    }
+    return changed ? result : node
+  }
+
+  // The replacement for a $ref node, or undefined to walk it like any other object
+  function replaceRef(node: Record<string, unknown>, ref: string, base: string, inSchema: boolean, at: string): unknown {
+    const external = target(ref, base)
+    if (!external || (external.path === rootPath && base === rootPath)) {
+      return undefined
+    }
+
+    const { $ref: _, ...siblings } = node
+    const withSiblings = (resolved: unknown) => Object.keys(siblings).length > 0 && resolved && typeof resolved === 'object'
+      ? { ...resolved, ...walk(siblings, base, inSchema, at) as object }
+      : resolved
+
+    // A ref back into the root file becomes a local ref
+    if (external.path === rootPath) {
+      return { ...node, $ref: `#${external.pointer}` }
+    }
+
+    const value = resolvePointer(documents.get(external.path), `#${external.pointer}`)
+    if (value === null) {
+      if (documents.has(external.path)) {
+        warnings.push(`${display(base)}: unresolved $ref "${ref}"`)
+      }
+      return node
+    }
+
+    if (inSchema) {
+      let local = hoisted.get(key(external))
+      // The root section entry that names this schema gets its content
+      if (local === `#${at}`) {
+        return withSiblings(walk(value, external.path, true, at))
+      }
+      if (!local) {
+        const name = uniqueName(schemaName(external), taken)
+        local = `#${sectionPointer}/${escapePointer(name)}`
+        hoisted.set(key(external), local)
+        added[name] = walk(value, external.path, true, local.slice(1))
+      }
+      return { ...node, $ref: local }
+    }
+
+    if (inlining.has(key(external))) {
+      warnings.push(`${display(base)}: circular $ref "${ref}" outside a schema`)
+      return node
+    }
+    inlining.add(key(external))
+    const inlined = walk(value, external.path, false, at)
+    inlining.delete(key(external))
+    return withSiblings(inlined)
+  }
+
+  const bundled = walk(spec, rootPath, false, '') as Record<string, any>
+  if (Object.keys(added).length > 0) {
+    const [first, second] = sectionPath as [string, string?]
+    if (second) {
+      bundled.components = { ...bundled.components, [second]: { ...bundled.components?.[second], ...added } }
+    }
+    else {
+      bundled[first] = { ...bundled[first], ...added }
+    }
+  }
+
+  return { spec: bundled as OpenAPIDocument, files, warnings: Array.from(new Set(warnings)) }
+}
+
+/**
+ * Read a spec file and resolve its external refs
+ *
+ * Meant for build tooling (e.g., `schema: () => bundleSpecFile('./api.yaml')`
+ * in an `apiful.config.ts`), so generated types see the same document as
+ * the MCP server.
+ */
+export async function bundleSpecFile(file: string, options: BundleOptions = {}): Promise<OpenAPIDocument> {
+  const cache = options.cache ?? new DocumentCache()
+  const { spec, warnings } = await bundleSpec(await cache.load(file) as OpenAPIDocument, file, { ...options, cache })
+  for (const warning of warnings) {
+    console.warn(`Warning: ${warning}`)
+  }
+  return spec
+}
+
+function collectRefs(node: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach(item => collectRefs(item, refs))
+  }
+  else if (node && typeof node === 'object') {
+    for (const [name, value] of Object.entries(node)) {
+      if (name === '$ref' && typeof value === 'string') {
+        refs.add(value)
+      }
+      else {
+        collectRefs(value, refs)
+      }
+    }
+  }
+  return refs
+}
+
+function key(target: ExternalTarget): string {
+  return `${target.path}#${target.pointer}`
+}
+
+function isInside(root: string, path: string): boolean {
+  const relativePath = relative(resolve(root), path)
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath)
+}
+
+/** Last pointer segment, or the file name for whole-file refs (`./schemas/droplet.yml` → "droplet") */
+function schemaName(target: ExternalTarget): string {
+  const segment = target.pointer.split('/').pop()
+  const name = segment ? segment.replace(/~1/g, '/').replace(/~0/g, '~') : basename(target.path, extname(target.path))
+  return name.replace(/[^\w.-]/g, '_') || 'schema'
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  let candidate = name
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${name}_${index}`
+  }
+  taken.add(candidate)
+  return candidate
+}
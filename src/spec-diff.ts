@@ -0,0 +1,372 @@
+/**
+ * Spec version diff
+ *
+ * Compares two versions of an OpenAPI document operation by operation and
+ * classifies every change by its impact on existing client code:
+ * - request side: anything a client must now send (new required
+ *   parameters or fields, narrowed enums, retyped fields) is breaking
+ * - response side: anything a client may have read (removed fields,
+ *   removed success codes, retyped fields, widened enums) is breaking
+ */
+
+import type { OpenAPIDocument, OpenAPIParameter, OperationEntry } from './types.js'
+import { mergeAllOfSchema } from './schema-resolver.js'
+import { findOperation, getOperationParameters, listOperations, pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/**
+ * Kinds of changes the diff reports
+ */
+export type SpecChangeType
+  = | 'operation_added'
+    | 'operation_removed'
+    | 'parameter_added'
+    | 'parameter_removed'
+    | 'parameter_required'
+    | 'field_added'
+    | 'field_removed'
+    | 'field_retyped'
+    | 'field_required'
+    | 'field_optional'
+    | 'enum_value_added'
+    | 'enum_value_removed'
+    | 'response_added'
+    | 'response_removed'
+
+/**
+ * A single difference between two spec versions
+ */
+export interface SpecChange {
+  type: SpecChangeType
+  breaking: boolean
+  /** Operation the change belongs to (e.g., "POST /servers") */
+  operation: string
+  /** Where inside the operation (e.g., "request body: server.name", "response 200: meta") */
+  location?: string
+  message: string
+}
+
+/**
+ * Result of comparing two spec versions
+ */
+export interface SpecDiff {
+  changes: SpecChange[]
+  summary: {
+    breaking: number
+    nonBreaking: number
+    operationsAdded: number
+    operationsRemoved: number
+  }
+}
+
+/**
+ * Which side of the exchange a schema describes
+ */
+type Direction = 'request' | 'response'
+
+/** Nesting depth beyond which schemas are no longer compared */
+const MAX_DEPTH = 12
+
+/**
+ * Compare two versions of a spec
+ */
+export function diffSpecs(before: OpenAPIDocument, after: OpenAPIDocument): SpecDiff {
+  const changes: SpecChange[] = []
+
+  for (const entry of listOperations(before)) {
+    if (!findOperation(after, entry.path, entry.method)) {
+      const operation = operationLabel(entry)
+      changes.push({ type: 'operation_removed', breaking: true, operation, message: `Operation ${operation} was removed` })
+    }
+  }
+
+  for (const entry of listOperations(after)) {
+    const operation = operationLabel(entry)
+    const previous = findOperation(before, entry.path, entry.method)
+
+    if (!previous) {
+      changes.push({ type: 'operation_added', breaking: false, operation, message: `Operation ${operation} was added` })
+      continue
+    }
+
+    const context = new DiffContext(before, after, operation, changes)
+    context.compareParameters(previous, entry)
+    context.compareRequestBodies(previous, entry)
+    context.compareResponses(previous, entry)
+  }
+
+  const breaking = changes.filter(change => change.breaking).length
+
+  return {
+    changes,
+    summary: {
+      breaking,
+      nonBreaking: changes.length - breaking,
+      operationsAdded: changes.filter(change => change.type === 'operation_added').length,
+      operationsRemoved: changes.filter(change => change.type === 'operation_removed').length,
+    },
+  }
+}
+
+/**
+ * Compares the parts of one operation that exists in both versions
+ */
+class DiffContext {
+  private before: OpenAPIDocument
+  private after: OpenAPIDocument
+  private operation: string
+  private changes: SpecChange[]
+
+  constructor(before: OpenAPIDocument, after: OpenAPIDocument, operation: string, changes: SpecChange[]) {
+    this.before = before
+    this.after = after
+    this.operation = operation
+    this.changes = changes
+  }
+
+  compareParameters(previous: OperationEntry, current: OperationEntry): void {
+    const key = (param: OpenAPIParameter): string => `${param.in}.${param.name}`
+    const oldParams = new Map(getOperationParameters(this.before, previous).map(param => [key(param), param]))
+    const newParams = new Map(getOperationParameters(this.after, current).map(param => [key(param), param]))
+
+    for (const [name, param] of oldParams) {
+      if (!newParams.has(name)) {
+        this.add('parameter_removed', true, `parameter ${name}`, `${param.in} parameter "${param.name}" was removed`)
+      }
+    }
+
+    for (const [name, param] of newParams) {
+      const old = oldParams.get(name)
+      if (!old) {
+        this.add(
+          'parameter_added',
+          !!param.required,
+          `parameter ${name}`,
+          `${param.required ? 'Required' : 'Optional'} ${param.in} parameter "${param.name}" was added`,
+        )
+        continue
+      }
+
+      if (param.required && !old.required) {
+        this.add('parameter_required', true, `parameter ${name}`, `${param.in} parameter "${param.name}" is now required`)
+      }
+
+      this.compareSchemas(old.schema, param.schema, 'request', `parameter ${name}`, '', 0, [])
+    }
+  }
+
+  compareRequestBodies(previous: OperationEntry, current: OperationEntry): void {
+    const oldBody = this.resolve(this.before, previous.operation.requestBody)
+    const newBody = this.resolve(this.after, current.operation.requestBody)
+
+    if (!oldBody && !newBody) {
+      return
+    }
+    if (!oldBody) {
+      this.add('field_added', !!newBody.required, 'request body', `${newBody.required ? 'Required' : 'Optional'} request body was added`)
+      return
+    }
+    if (!newBody) {
+      this.add('field_removed', true, 'request body', 'Request body was removed')
+      return
+    }
+
+    if (newBody.required && !oldBody.required) {
+      this.add('field_required', true, 'request body', 'Request body is now required')
+    }
+
+    this.compareSchemas(
+      pickMediaSchema(oldBody.content)?.schema,
+      pickMediaSchema(newBody.content)?.schema,
+      'request',
+      'request body',
+      '',
+      0,
+      [],
+    )
+  }
+
+  compareResponses(previous: OperationEntry, current: OperationEntry): void {
+    const oldResponses = previous.operation.responses || {}
+    const newResponses = current.operation.responses || {}
+
+    for (const status of Object.keys(oldResponses)) {
+      if (!(status in newResponses)) {
+        // Clients rely on success codes; a dropped error code only removes a branch
+        this.add('response_removed', status.startsWith('2'), `response ${status}`, `Response ${status} was removed`)
+      }
+    }
+
+    for (const [status, response] of Object.entries(newResponses)) {
+      if (!(status in oldResponses)) {
+        this.add('response_added', false, `response ${status}`, `Response ${status} was added`)
+        continue
+      }
+
+      const oldResponse = this.resolve(this.before, oldResponses[status])
+      const newResponse = this.resolve(this.after, response)
+      this.compareSchemas(
+        pickMediaSchema(oldResponse?.content)?.schema,
+        pickMediaSchema(newResponse?.content)?.schema,
+        'response',
+        `response ${status}`,
+        '',
+        0,
+        [],
+      )
+    }
+  }
+
+  private compareSchemas(
+    oldRaw: unknown,
+    newRaw: unknown,
+    direction: Direction,
+    section: string,
+    field: string,
+    depth: number,
+    refs: string[],
+  ): void {
+    if (!oldRaw || !newRaw || depth > MAX_DEPTH) {
+      return
+    }
+
+    // Stop at recursive schemas: the same pair of refs was already compared on this branch
+    const pair = `${(oldRaw as any).$ref || ''}|${(newRaw as any).$ref || ''}`
+    if (pair !== '|' && refs.includes(pair)) {
+      return
+    }
+    const branch = pair === '|' ? refs : [...refs, pair]
+
+    const oldSchema = this.expand(this.before, oldRaw, [])
+    const newSchema = this.expand(this.after, newRaw, [])
+    const location = field ? `${section}: ${field}` : section
+    const subject = field ? `Field "${field}"` : `Schema of ${section}`
+
+    const oldType = schemaType(oldSchema)
+    const newType = schemaType(newSchema)
+    if (oldType && newType && oldType !== newType) {
+      this.add('field_retyped', true, location, `${subject} changed type from ${oldType} to ${newType}`)
+      return
+    }
+
+    this.compareEnums(oldSchema, newSchema, direction, location, subject)
+
+    if (oldSchema.items || newSchema.items) {
+      this.compareSchemas(oldSchema.items, newSchema.items, direction, section, `${field}[]`, depth + 1, branch)
+    }
+
+    const oldProps: Record<string, unknown> = oldSchema.properties || {}
+    const newProps: Record<string, unknown> = newSchema.properties || {}
+    const oldRequired = new Set<string>(oldSchema.required || [])
+    const newRequired = new Set<string>(newSchema.required || [])
+    const child = (name: string): string => (field ? `${field}.${name}` : name)
+
+    for (const name of Object.keys(oldProps)) {
+      if (!(name in newProps)) {
+        // Sending a field that no longer exists fails typed request code just like reading one does
+        this.add('field_removed', true, `${section}: ${child(name)}`, `Field "${child(name)}" was removed`)
+      }
+    }
+
+    for (const [name, schema] of Object.entries(newProps)) {
+      const childLocation = `${section}: ${child(name)}`
+
+      if (!(name in oldProps)) {
+        const required = newRequired.has(name)
+        this.add(
+          'field_added',
+          direction === 'request' && required,
+          childLocation,
+          `${required ? 'Required' : 'Optional'} field "${child(name)}" was added`,
+        )
+        continue
+      }
+
+      if (newRequired.has(name) && !oldRequired.has(name)) {
+        this.add('field_required', direction === 'request', childLocation, `Field "${child(name)}" is now required`)
+      }
+      else if (oldRequired.has(name) && !newRequired.has(name)) {
+        this.add('field_optional', direction === 'response', childLocation, `Field "${child(name)}" is no longer required`)
+      }
+
+      this.compareSchemas(oldProps[name], schema, direction, section, child(name), depth + 1, branch)
+    }
+  }
+
+  private compareEnums(oldSchema: any, newSchema: any, direction: Direction, location: string, subject: string): void {
+    if (!Array.isArray(oldSchema.enum) || !Array.isArray(newSchema.enum)) {
+      return
+    }
+
+    const oldValues = new Set(oldSchema.enum.map((value: unknown) => JSON.stringify(value)))
+    const newValues = new Set(newSchema.enum.map((value: unknown) => JSON.stringify(value)))
+
+    for (const value of oldValues) {
+      if (!newValues.has(value)) {
+        // A value clients could send is gone; in responses it only narrows what they handle
+        this.add('enum_value_removed', direction === 'request', location, `${subject} no longer allows ${value}`)
+      }
+    }
+
+    for (const value of newValues) {
+      if (!oldValues.has(value)) {
+        // New response values fall through exhaustive switches in client code
+        this.add('enum_value_added', direction === 'response', location, `${subject} now allows ${value}`)
+      }
+    }
+  }
+
+  /**
+   * Resolve `$ref`s and merge `allOf` members into one schema
+   */
+  private expand(spec: OpenAPIDocument, node: unknown, seen: string[]): any {
+    let current: any = node
+    while (current && typeof current === 'object' && typeof current.$ref === 'string') {
+      if (seen.includes(current.$ref)) {
+        return {}
+      }
+      seen = [...seen, current.$ref]
+      current = resolvePointer(spec, current.$ref)
+    }
+
+    if (!current || typeof current !== 'object') {
+      return {}
+    }
+
+    if (Array.isArray(current.allOf)) {
+      return mergeAllOfSchema({
+        ...current,
+        allOf: current.allOf.map((member: unknown) => this.expand(spec, member, seen)),
+      })
+    }
+
+    return current
+  }
+
+  private resolve(spec: OpenAPIDocument, node: any): any {
+    return node && '$ref' in node ? resolvePointer(spec, node.$ref) : node
+  }
+
+  private add(type: SpecChangeType, breaking: boolean, location: string, message: string): void {
+    this.changes.push({ type, breaking, operation: this.operation, location, message })
+  }
+}
+
+function operationLabel(entry: OperationEntry): string {
+  return `${entry.method.toUpperCase()} ${entry.path}`
+}
+
+function schemaType(schema: any): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return [...schema.type].sort().join('|')
+  }
+  if (schema.type) {
+    return schema.type
+  }
+  if (schema.properties) {
+    return 'object'
+  }
+  if (schema.items) {
+    return 'array'
+  }
+  return undefined
+}
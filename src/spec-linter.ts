@@ -0,0 +1,227 @@
+/**
+ * Spec linting
+ *
+ * Checks a loaded spec for problems that otherwise only surface later as
+ * missing examples, unresolved schemas or wrong request URLs:
+ * - errors: `$ref`s that point nowhere, operationIds declared twice, and
+ *   path parameters that do not match the path template
+ * - warnings: required fields missing from `properties`, operations
+ *   without a success response, and specs without `servers`
+ */
+
+import type { OpenAPIDocument, OperationEntry } from './types.js'
+import { isOpenAPI31, schemaIdPointer } from './json-schema.js'
+import { escapePointer, getOperationParameters, listOperations, resolvePointer } from './spec-utils.js'
+
+/**
+ * Lint rules
+ */
+export type LintRule
+  = | 'dangling_ref'
+    | 'duplicate_operation_id'
+    | 'path_parameter'
+    | 'required_property'
+    | 'missing_success_response'
+    | 'missing_servers'
+
+/**
+ * How serious a finding is - errors break lookups, warnings degrade output
+ */
+export type LintSeverity = 'error' | 'warning'
+
+/**
+ * A single lint finding
+ */
+export interface LintIssue {
+  rule: LintRule
+  severity: LintSeverity
+  /** JSON pointer to the offending node (e.g., "/paths/~1servers/get") */
+  pointer: string
+  message: string
+}
+
+/**
+ * Result of linting a spec
+ */
+export interface LintReport {
+  issues: LintIssue[]
+  summary: {
+    errors: number
+    warnings: number
+  }
+}
+
+const SEVERITY: Record<LintRule, LintSeverity> = {
+  dangling_ref: 'error',
+  duplicate_operation_id: 'error',
+  path_parameter: 'error',
+  required_property: 'warning',
+  missing_success_response: 'warning',
+  missing_servers: 'warning',
+}
+
+/**
+ * Lint a spec after its external refs are bundled and Swagger 2.0 is converted
+ */
+export function lintSpec(spec: OpenAPIDocument): LintReport {
+  const issues: LintIssue[] = []
+  const report = (rule: LintRule, pointer: string, message: string): void => {
+    issues.push({ rule, severity: SEVERITY[rule], pointer, message })
+  }
+
+  walk(spec, '', (node, pointer) => {
+    checkRefs(spec, node, pointer, report)
+    checkRequired(spec, node, pointer, report)
+  })
+
+  const operations = listOperations(spec)
+  const byId = new Map<string, OperationEntry[]>()
+  for (const entry of operations) {
+    const pointer = operationPointer(entry)
+    const operationId = entry.operation.operationId
+    if (operationId) {
+      byId.set(operationId, [...(byId.get(operationId) || []), entry])
+    }
+
+    checkPathParameters(spec, entry, pointer, report)
+
+    const codes = Object.keys(entry.operation.responses || {})
+    if (!codes.some(code => code.startsWith('2') || code.startsWith('3'))) {
+      report('missing_success_response', `${pointer}/responses`, `${operationLabel(entry)} declares no 2XX or 3XX response${codes.length > 0 ? ` (only ${codes.join(', ')})` : ''}`)
+    }
+  }
+
+  for (const [operationId, entries] of byId) {
+    if (entries.length > 1) {
+      for (const entry of entries.slice(1)) {
+        report('duplicate_operation_id', `${operationPointer(entry)}/operationId`, `operationId "${operationId}" of ${operationLabel(entry)} is already used by ${operationLabel(entries[0]!)}`)
+      }
+    }
+  }
+
+  // Operations and path items may bring their own servers; only the root fallback is missing then
+  const hasServers = (servers: unknown) => Array.isArray(servers) && servers.length > 0
+  if (!hasServers(spec.servers) && !operations.every(entry => hasServers(entry.operation.servers) || hasServers(entry.pathItem.servers))) {
+    report('missing_servers', '/servers', 'No servers declared; requests resolve against the host serving the spec, so clients need an explicit base URL')
+  }
+
+  return {
+    issues,
+    summary: {
+      errors: issues.filter(issue => issue.severity === 'error').length,
+      warnings: issues.filter(issue => issue.severity === 'warning').length,
+    },
+  }
+}
+
+type Report = (rule: LintRule, pointer: string, message: string) => void
+
+function checkRefs(spec: OpenAPIDocument, node: Record<string, unknown>, pointer: string, report: Report): void {
+  const resolves = (ref: string) => resolvePointer(spec, ref.startsWith('#') ? ref : (isOpenAPI31(spec) ? schemaIdPointer(spec, ref) ?? '' : '')) !== null
+
+  if (typeof node.$ref === 'string' && !resolves(node.$ref)) {
+    report('dangling_ref', pointer, `$ref "${node.$ref}" does not resolve`)
+  }
+
+  // Discriminator mappings are refs too, unless they name a schema directly
+  const mapping = (node.discriminator as { mapping?: Record<string, unknown> } | undefined)?.mapping
+  for (const [value, target] of Object.entries(mapping || {})) {
+    if (typeof target === 'string' && target.includes('/') && !resolves(target)) {
+      report('dangling_ref', `${pointer}/discriminator/mapping/${escapePointer(value)}`, `Discriminator mapping "${value}" points to "${target}", which does not resolve`)
+    }
+  }
+}
+
+function checkRequired(spec: OpenAPIDocument, node: Record<string, unknown>, pointer: string, report: Report): void {
+  // Parameters and request bodies have a boolean `required`; schemas have a list
+  if (!Array.isArray(node.required) || (!node.properties && !node.allOf) || node.additionalProperties || node.patternProperties) {
+    return
+  }
+
+  // An allOf member may require fields its siblings declare
+  const parent = /\/allOf\/\d+$/.test(pointer) ? resolvePointer(spec, `#${pointer.replace(/\/allOf\/\d+$/, '')}`) : null
+  const declared = declaredProperties(spec, parent ?? node, new Set())
+  if (declared === null) {
+    return
+  }
+  for (const field of node.required) {
+    if (typeof field === 'string' && !declared.has(field)) {
+      report('required_property', `${pointer}/required`, `Required field "${field}" is not declared in properties`)
+    }
+  }
+}
+
+/**
+ * Property names of a schema including its allOf members, or null when a member allows any field
+ */
+function declaredProperties(spec: OpenAPIDocument, schema: any, seen: Set<string>): Set<string> | null {
+  const names = new Set<string>(Object.keys(schema?.properties || {}))
+
+  for (const member of schema?.allOf || []) {
+    const ref = member?.$ref
+    if (typeof ref === 'string' && seen.has(ref)) {
+      continue
+    }
+    const resolved = typeof ref === 'string' ? resolvePointer(spec, ref) : member
+    if (!resolved || resolved.additionalProperties || resolved.patternProperties) {
+      return null
+    }
+    const nested = declaredProperties(spec, resolved, typeof ref === 'string' ? new Set([...seen, ref]) : seen)
+    if (nested === null) {
+      return null
+    }
+    nested.forEach(name => names.add(name))
+  }
+
+  return names
+}
+
+function checkPathParameters(spec: OpenAPIDocument, entry: OperationEntry, pointer: string, report: Report): void {
+  const placeholders = new Set(Array.from(entry.path.matchAll(/\{([^}]+)\}/g), match => match[1]!))
+  const declared = getOperationParameters(spec, entry).filter(parameter => parameter.in === 'path').map(parameter => parameter.name)
+
+  for (const name of declared) {
+    if (!placeholders.has(name)) {
+      report('path_parameter', `${pointer}/parameters`, `${operationLabel(entry)} declares path parameter "${name}", which is not in the path template`)
+    }
+  }
+  for (const name of placeholders) {
+    if (!declared.includes(name)) {
+      report('path_parameter', `${pointer}/parameters`, `${operationLabel(entry)} does not declare path parameter "${name}"`)
+    }
+  }
+}
+
+/** Keys whose value is example or literal data, never spec */
+const DATA_KEYS = new Set(['example', 'examples', 'default', 'const', 'enum', 'value'])
+/** Keys whose value maps arbitrary names (which may be "default", "value", ...) to spec objects */
+const NAME_MAP_KEYS = new Set(['paths', 'webhooks', 'schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'securitySchemes', 'links', 'callbacks', 'pathItems', 'properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas', 'content', 'encoding', 'mapping'])
+
+/**
+ * Visit every object in a document with its JSON pointer, skipping example data and extensions
+ */
+function walk(node: unknown, pointer: string, visit: (node: Record<string, unknown>, pointer: string) => void, inNameMap = false): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) => walk(item, `${pointer}/${index}`, visit))
+  }
+  else if (node && typeof node === 'object') {
+    if (!inNameMap) {
+      visit(node as Record<string, unknown>, pointer)
+    }
+    for (const [key, value] of Object.entries(node)) {
+      // Media type `examples` is a map of Example Objects; schema `examples` (3.1) is a list of values
+      const isData = !inNameMap && (key.startsWith('x-') || (DATA_KEYS.has(key) && !(key === 'examples' && !Array.isArray(value))))
+      if (!isData) {
+        walk(value, `${pointer}/${escapePointer(key)}`, visit, !inNameMap && NAME_MAP_KEYS.has(key))
+      }
+    }
+  }
+}
+
+function operationPointer(entry: OperationEntry): string {
+  return `/paths/${escapePointer(entry.path)}/${entry.method}`
+}
+
+function operationLabel(entry: OperationEntry): string {
+  return `${entry.method.toUpperCase()} ${entry.path}`
+}
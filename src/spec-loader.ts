@@ -0,0 +1,282 @@
+/**
+ * Reading OpenAPI documents from JSON and YAML files
+ *
+ * Specs are named after their path below the specs directory without the
+ * extension (`digitalocean/api.yaml` → "digitalocean/api"). When several
+ * formats of one spec exist, the first extension in `SPEC_EXTENSIONS`
+ * wins, so the choice never depends on directory listing order.
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { existsSync, readdirSync } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { LineCounter, parseDocument } from 'yaml'
+
+/**
+ * Spec file extensions, most preferred first
+ */
+export const SPEC_EXTENSIONS: readonly string[] = ['.json', '.yaml', '.yml']
+
+/**
+ * A spec file found below the specs directory
+ */
+export interface SpecFile {
+  /** API name (e.g., "digitalocean/api") */
+  key: string
+  /** Absolute file path */
+  path: string
+}
+
+/**
+ * A spec file that could not be parsed, with the source location of the problem
+ */
+export class SpecParseError extends Error {
+  readonly file: string
+  readonly line?: number
+  readonly column?: number
+
+  constructor(file: string, reason: string, line?: number, column?: number) {
+    super(`${file}${line !== undefined ? `:${line}:${column ?? 1}` : ''}: ${reason}`)
+    this.name = 'SpecParseError'
+    this.file = file
+    this.line = line
+    this.column = column
+  }
+}
+
+/**
+ * Extension of a spec file name, or null for other files
+ */
+export function specExtension(fileName: string): string | null {
+  if (fileName.includes('package')) {
+    return null
+  }
+  return SPEC_EXTENSIONS.find(extension => fileName.endsWith(extension)) ?? null
+}
+
+/**
+ * Find every spec file below a directory, named by its relative path
+ */
+export function scanSpecFiles(dir: string, prefix = ''): SpecFile[] {
+  const files: SpecFile[] = []
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name)
+
+    if (entry.isDirectory()) {
+      files.push(...scanSpecFiles(fullPath, prefix ? `${prefix}/${entry.name}` : entry.name))
+    }
+    else {
+      const extension = specExtension(entry.name)
+      if (extension) {
+        const name = entry.name.slice(0, -extension.length)
+        files.push({ key: prefix ? `${prefix}/${name}` : name, path: fullPath })
+      }
+    }
+  }
+
+  return files
+}
+
+/**
+ * Keep one file per API name, preferring extensions in `SPEC_EXTENSIONS` order
+ *
+ * Returns the chosen files sorted by name, and the files skipped in favor of them.
+ */
+export function selectSpecFiles(files: SpecFile[]): { selected: SpecFile[], skipped: SpecFile[] } {
+  const rank = (file: SpecFile) => SPEC_EXTENSIONS.indexOf(specExtension(file.path) ?? '')
+  const byKey = new Map<string, SpecFile>()
+  const skipped: SpecFile[] = []
+
+  for (const file of [...files].sort((a, b) => rank(a) - rank(b) || a.path.localeCompare(b.path))) {
+    if (byKey.has(file.key)) {
+      skipped.push(file)
+    }
+    else {
+      byKey.set(file.key, file)
+    }
+  }
+
+  return {
+    selected: Array.from(byKey.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    skipped,
+  }
+}
+
+/**
+ * The preferred existing file among the formats of one spec
+ *
+ * Called with any of the spec's files (e.g., "api.yaml"), returns "api.json"
+ * when that exists too, or null when no format exists any more.
+ */
+export function preferredSpecFile(path: string): string | null {
+  const extension = specExtension(path)
+  const base = extension ? path.slice(0, -extension.length) : path
+  return SPEC_EXTENSIONS.map(candidate => `${base}${candidate}`).find(candidate => existsSync(candidate)) ?? null
+}
+
+/**
+ * Whether a parsed file is an OpenAPI or Swagger document rather than a
+ * fragment referenced from one (e.g., `schemas/droplet.yaml`)
+ */
+export function isSpecDocument(value: unknown): boolean {
+  const document = value as { openapi?: unknown, swagger?: unknown } | null
+  return typeof document?.openapi === 'string' || typeof document?.swagger === 'string'
+}
+
+/**
+ * Parse JSON or YAML spec content
+ *
+ * @throws SpecParseError with the line and column of syntax errors
+ */
+export function parseSpec(content: string, file: string): OpenAPIDocument {
+  const value = specExtension(file) === '.json' ? parseJson(content, file) : parseYaml(content, file)
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new SpecParseError(file, 'Not an OpenAPI document (expected an object at the top level)')
+  }
+  return value as OpenAPIDocument
+}
+
+/**
+ * Read and parse a JSON or YAML spec file
+ *
+ * @throws SpecParseError with the line and column of syntax errors
+ */
+export async function readSpecFile(file: string): Promise<OpenAPIDocument> {
+  return parseSpec(await readFile(file, 'utf-8'), file)
+}
+
+function parseJson(content: string, file: string): unknown {
+  try {
+    return JSON.parse(content)
+  }
+  catch (error) {
+    // Drop V8's position and quoted excerpt; the location is computed below
+    const message = (error instanceof Error ? error.message : String(error))
+      .replace(/ in JSON at position \d.*$/s, '')
+      .replace(/, ".*" is not valid JSON$/s, '')
+    const offset = jsonErrorOffset(content)
+    if (offset < 0) {
+      throw new SpecParseError(file, message)
+    }
+
+    const before = content.slice(0, offset)
+    throw new SpecParseError(file, message, before.split('\n').length, offset - before.lastIndexOf('\n'))
+  }
+}
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:e[+-]?\d+)?/iy
+
+/**
+ * Offset of the first JSON syntax error, or -1 when the text is valid
+ *
+ * `JSON.parse` only sometimes reports a position, so invalid files are
+ * scanned once more to point at the offending character.
+ */
+function jsonErrorOffset(text: string): number {
+  let i = 0
+
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i]!)) {
+      i++
+    }
+  }
+
+  const string = (): boolean => {
+    i++
+    while (i < text.length && text[i] !== '"') {
+      if (text.charCodeAt(i) < 0x20) {
+        return false
+      }
+      i += text[i] === '\\' ? 2 : 1
+    }
+    if (i >= text.length) {
+      return false
+    }
+    i++
+    return true
+  }
+
+  const members = (close: string, member: () => boolean): boolean => {
+    i++
+    skipWhitespace()
+    if (text[i] === close) {
+      i++
+      return true
+    }
+    for (;;) {
+      if (!member()) {
+        return false
+      }
+      skipWhitespace()
+      if (text[i] === close) {
+        i++
+        return true
+      }
+      if (text[i] !== ',') {
+        return false
+      }
+      i++
+    }
+  }
+
+  const value = (): boolean => {
+    skipWhitespace()
+    const char = text[i]
+    if (char === '{') {
+      return members('}', () => {
+        skipWhitespace()
+        if (text[i] !== '"' || !string()) {
+          return false
+        }
+        skipWhitespace()
+        if (text[i] !== ':') {
+          return false
+        }
+        i++
+        return value()
+      })
+    }
+    if (char === '[') {
+      return members(']', value)
+    }
+    if (char === '"') {
+      return string()
+    }
+    for (const word of ['true', 'false', 'null']) {
+      if (text.startsWith(word, i)) {
+        i += word.length
+        return true
+      }
+    }
+    JSON_NUMBER.lastIndex = i
+    if (JSON_NUMBER.test(text)) {
+      i = JSON_NUMBER.lastIndex
+      return true
+    }
+    return false
+  }
+
+  if (value()) {
+    skipWhitespace()
+    if (i === text.length) {
+      return -1
+    }
+  }
+  return Math.min(i, text.length)
+}
+
+function parseYaml(content: string, file: string): unknown {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter, prettyErrors: false })
+
+  const [error] = document.errors
+  if (error) {
+    const { line, col } = lineCounter.linePos(error.pos[0])
+    throw new SpecParseError(file, error.message.split('\n')[0]!, line, col)
+  }
+
+  return document.toJS()
+}
@@ -0,0 +1,228 @@
+/**
+ * Shared helpers for walking OpenAPI documents
+ *
+ * These are used by every feature that needs to iterate operations or
+ * resolve local references without going through the server instance.
+ */
+
+import type {
+  OpenAPIDocument,
+  OpenAPIOperation,
+  OpenAPIParameter,
+  OpenAPIResponse,
+  OpenAPISchema,
+  OpenAPIV3,
+  OperationEntry,
+} from './types.js'
+import { DEFAULT_CONFIG } from './config.js'
+
+/**
+ * Resolve a local JSON pointer reference (e.g., "#/components/schemas/Server")
+ *
+ * Pointer segments are unescaped per RFC 6901 (`~1` → `/`, `~0` → `~`),
+ * so refs into paths like `#/paths/~1servers/get` work as well.
+ */
+export function resolvePointer(spec: unknown, ref: string): any {
+  if (!ref.startsWith('#')) {
+    return null
+  }
+
+  const pointer = ref.substring(1)
+  if (pointer === '' || pointer === '/') {
+    return spec ?? null
+  }
+
+  const segments = pointer.substring(1).split('/').map(unescapeSegment)
+
+  let current: any = spec
+  for (const segment of segments) {
+    if (!current || typeof current !== 'object') {
+      return null
+    }
+    current = current[segment]
+  }
+
+  return current ?? null
+}
+
+function unescapeSegment(segment: string): string {
+  let decoded = segment
+  try {
+    decoded = decodeURIComponent(segment)
+  }
+  catch {
+    // Keep malformed percent-encoding as-is
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~')
+}
+
+/**
+ * Escape a key for use as a JSON pointer segment (RFC 6901)
+ */
+export function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * List every operation in a spec, in document order
+ */
+export function listOperations(spec: OpenAPIDocument): OperationEntry[] {
+  const operations: OperationEntry[] = []
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    if (!pathItem) {
+      continue
+    }
+
+    for (const method of DEFAULT_CONFIG.http.methods) {
+      const operation = (pathItem as Record<string, unknown>)[method] as OpenAPIOperation | undefined
+      if (operation && typeof operation === 'object') {
+        operations.push({ path, method, operation, pathItem })
+      }
+    }
+  }
+
+  return operations
+}
+
+/**
+ * List every webhook operation of a spec (OpenAPI 3.1 `webhooks`), in document order
+ *
+ * The entry's `path` is the webhook name. Webhooks are requests the API
+ * sends, so they are kept apart from `listOperations()`.
+ */
+export function listWebhooks(spec: OpenAPIDocument): OperationEntry[] {
+  const webhooks: OperationEntry[] = []
+
+  for (const name of Object.keys(spec.webhooks || {})) {
+    const pathItem = webhookPathItem(spec, name)
+    for (const method of DEFAULT_CONFIG.http.methods) {
+      const operation = (pathItem as Record<string, unknown> | null)?.[method] as OpenAPIOperation | undefined
+      if (pathItem && operation && typeof operation === 'object') {
+        webhooks.push({ path: name, method, operation, pathItem })
+      }
+    }
+  }
+
+  return webhooks
+}
+
+/**
+ * Find a webhook operation by name and method (case-insensitive)
+ *
+ * Without a method, the webhook's first operation is returned.
+ */
+export function findWebhook(spec: OpenAPIDocument, name: string, method?: string): OperationEntry | null {
+  const candidates = listWebhooks(spec).filter(entry => entry.path === name)
+  return method
+    ? candidates.find(entry => entry.method === method.toLowerCase()) ?? null
+    : candidates[0] ?? null
+}
+
+function webhookPathItem(spec: OpenAPIDocument, name: string): OpenAPIV3.PathItemObject | null {
+  const pathItem = spec.webhooks?.[name]
+  if (typeof pathItem?.$ref === 'string') {
+    return resolvePointer(spec, pathItem.$ref)
+  }
+  return pathItem ?? null
+}
+
+/**
+ * Get the effective parameters of an operation
+ *
+ * Merges path-level and operation-level parameters (operation wins on
+ * name + location) and resolves local `$ref`s. Unresolvable refs are skipped.
+ */
+export function getOperationParameters(spec: OpenAPIDocument, entry: OperationEntry): OpenAPIParameter[] {
+  const merged = new Map<string, OpenAPIParameter>()
+  const sources = [entry.pathItem.parameters || [], entry.operation.parameters || []]
+
+  for (const source of sources) {
+    for (const param of source) {
+      const resolved = ('$ref' in param ? resolvePointer(spec, param.$ref) : param) as OpenAPIParameter | null
+      if (resolved?.name && resolved.in) {
+        merged.set(`${resolved.in}:${resolved.name}`, resolved)
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+/**
+ * Find a single operation by templated path and method (case-insensitive)
+ */
+export function findOperation(spec: OpenAPIDocument, path: string, method: string): OperationEntry | null {
+  const pathItem = spec.paths?.[path]
+  const lowerMethod = method.toLowerCase()
+  const operation = (pathItem as Record<string, unknown> | undefined)?.[lowerMethod] as OpenAPIOperation | undefined
+
+  if (!pathItem || !operation || !DEFAULT_CONFIG.http.methods.includes(lowerMethod)) {
+    return null
+  }
+
+  return { path, method: lowerMethod, operation, pathItem }
+}
+
+/**
+ * Find the response declared for a status code
+ *
+ * Looks for the exact code first, then the range (e.g., "4XX"), then
+ * `default`. Response `$ref`s are resolved.
+ */
+export function findResponse(
+  spec: OpenAPIDocument,
+  operation: OpenAPIOperation,
+  status: string | number,
+): { status: string, response: OpenAPIResponse } | null {
+  const responses = operation.responses || {}
+  const code = String(status)
+  const candidates = [code, `${code.charAt(0)}XX`, `${code.charAt(0)}xx`, 'default']
+
+  for (const candidate of candidates) {
+    const response = responses[candidate]
+    if (!response) {
+      continue
+    }
+
+    const resolved = ('$ref' in response ? resolvePointer(spec, response.$ref) : response) as OpenAPIResponse | null
+    if (resolved) {
+      return { status: candidate, response: resolved }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Pick the schema from a content map, preferring JSON media types
+ */
+export function pickMediaSchema(
+  content: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+): { mediaType: string, schema: OpenAPISchema } | null {
+  if (!content) {
+    return null
+  }
+
+  const mediaTypes = Object.keys(content)
+  const mediaType = mediaTypes.find(type => type === 'application/json')
+    || mediaTypes.find(type => /[/+]json\b/.test(type))
+    || mediaTypes[0]
+
+  const schema = mediaType ? content[mediaType]?.schema : undefined
+  return mediaType && schema ? { mediaType, schema } : null
+}
+
+/**
+ * Find the body schema of the response declared for a status code
+ */
+export function findResponseSchema(
+  spec: OpenAPIDocument,
+  operation: OpenAPIOperation,
+  status: string | number,
+): { status: string, mediaType: string, schema: OpenAPISchema } | null {
+  const found = findResponse(spec, operation, status)
+  const media = found ? pickMediaSchema(found.response.content) : null
+
+  return found && media ? { status: found.status, ...media } : null
+}
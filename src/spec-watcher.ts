@@ -0,0 +1,103 @@
+/**
+ * Spec directory watcher for hot reload
+ *
+ * Watches `specsDir` recursively and reports which APIs changed, batched
+ * over a short quiet period so an editor's save (or a generator rewriting
+ * a spec and its `types.d.ts`) triggers one reload instead of several.
+ */
+
+import type { FSWatcher } from 'node:fs'
+import { watch } from 'node:fs'
+import { join, sep } from 'node:path'
+import { specExtension } from './spec-loader.js'
+
+/**
+ * A changed file below the specs directory
+ */
+export interface SpecChange {
+  /** `spec` for an OpenAPI JSON or YAML file, `types` for a types.d.ts */
+  kind: 'spec' | 'types'
+  /** API name for specs (e.g., "hetzner/cloud"), directory for types (e.g., "hetzner") */
+  key: string
+  /** Absolute file path */
+  path: string
+}
+
+/**
+ * Options for watching
+ */
+export interface WatchOptions {
+  /** Quiet period in milliseconds before a batch of changes is reported */
+  debounce?: number
+  log?: (...args: any[]) => void
+}
+
+/**
+ * A running watcher
+ */
+export interface SpecWatcher {
+  close: () => void
+}
+
+/**
+ * Classify a path relative to the specs directory, using the same rules as spec loading
+ *
+ * Returns null for files that are neither specs nor type definitions.
+ */
+export function classifySpecFile(specsDir: string, relativePath: string): SpecChange | null {
+  const parts = relativePath.split(sep).join('/').split('/').filter(Boolean)
+  const fileName = parts.pop()
+  if (!fileName) {
+    return null
+  }
+
+  const prefix = parts.join('/')
+  const path = join(specsDir, relativePath)
+
+  if (fileName === 'types.d.ts') {
+    return { kind: 'types', key: prefix || fileName, path }
+  }
+  const extension = specExtension(fileName)
+  if (extension) {
+    const name = fileName.slice(0, -extension.length)
+    return { kind: 'spec', key: prefix ? `${prefix}/${name}` : name, path }
+  }
+  return null
+}
+
+/**
+ * Watch the specs directory and report changed specs and type definitions
+ */
+export function watchSpecs(specsDir: string, onChange: (changes: SpecChange[]) => void, options: WatchOptions = {}): SpecWatcher {
+  const { debounce = 300, log = () => {} } = options
+  const pending = new Map<string, SpecChange>()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const flush = () => {
+    timer = undefined
+    const changes = Array.from(pending.values())
+    pending.clear()
+    onChange(changes)
+  }
+
+  const watcher: FSWatcher = watch(specsDir, { recursive: true }, (_event, filename) => {
+    const change = filename ? classifySpecFile(specsDir, filename.toString()) : null
+    if (!change) {
+      return
+    }
+
+    pending.set(change.path, change)
+    clearTimeout(timer)
+    timer = setTimeout(flush, debounce)
+  })
+
+  watcher.on('error', error => log('Spec watcher failed:', error))
+  log(`Watching ${specsDir} for spec changes`)
+
+  return {
+    close: () => {
+      clearTimeout(timer)
+      watcher.close()
+    },
+  }
+}
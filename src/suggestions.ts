@@ -0,0 +1,109 @@
+/**
+ * Did-you-mean suggestions
+ *
+ * Ranks known names against a mistyped one. Plain names are compared by
+ * edit distance (against the whole name and each `/`-separated part, so
+ * "kratos" finds "ory/kratos"); paths are additionally compared segment
+ * by segment, with templated segments matching anything, so
+ * "/servers/42/action" finds "/servers/{id}/actions".
+ */
+
+/**
+ * Ranking options
+ */
+export interface SuggestOptions {
+  /** Maximum number of suggestions (default: 5) */
+  limit?: number
+  /** Highest normalized distance (0 = identical, 1 = unrelated) still suggested (default: 0.5) */
+  threshold?: number
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost))
+    }
+    previous = current
+  }
+
+  return previous[b.length]!
+}
+
+/**
+ * Suggest the names closest to a mistyped one
+ */
+export function suggestNames(candidates: Iterable<string>, input: string, options: SuggestOptions = {}): string[] {
+  const needle = input.toLowerCase()
+
+  return rank(candidates, options, (candidate) => {
+    const name = candidate.toLowerCase()
+    // Substrings of 3+ characters are likely partial names, not typos
+    if (needle.length >= 3 && (name.includes(needle) || needle.includes(name))) {
+      return 0.1
+    }
+    return Math.min(...[name, ...name.split('/')].map(part => normalizedDistance(part, needle)))
+  })
+}
+
+/**
+ * Suggest the templated paths closest to a mistyped or concrete path
+ */
+export function suggestPaths(candidates: Iterable<string>, input: string, options: SuggestOptions = {}): string[] {
+  const needle = normalizePath(input)
+  const needleSegments = needle.split('/').slice(1)
+
+  return rank(candidates, options, (candidate) => {
+    const path = normalizePath(candidate)
+    const segments = path.split('/').slice(1)
+
+    // Only literal segments count, so templates cannot make unrelated paths look close
+    let cost = 0
+    let compared = 0
+    for (let index = 0; index < Math.max(segments.length, needleSegments.length); index++) {
+      const expected = segments[index]
+      const actual = needleSegments[index]
+      if (expected === undefined || actual === undefined) {
+        cost += 1
+        compared += 1
+      }
+      else if (!isTemplate(expected)) {
+        cost += isTemplate(actual) ? 1 : normalizedDistance(expected, actual)
+        compared += 1
+      }
+    }
+
+    return Math.min(compared === 0 ? 0 : cost / compared, normalizedDistance(path, needle))
+  })
+}
+
+function rank(candidates: Iterable<string>, options: SuggestOptions, score: (candidate: string) => number): string[] {
+  const { limit = 5, threshold = 0.5 } = options
+
+  return Array.from(new Set(candidates))
+    .map(candidate => ({ candidate, score: score(candidate) }))
+    .filter(entry => entry.score <= threshold)
+    .sort((a, b) => a.score - b.score || a.candidate.length - b.candidate.length)
+    .slice(0, limit)
+    .map(entry => entry.candidate)
+}
+
+function normalizedDistance(a: string, b: string): number {
+  const length = Math.max(a.length, b.length)
+  return length === 0 ? 0 : editDistance(a, b) / length
+}
+
+function normalizePath(path: string): string {
+  const trimmed = path.trim().toLowerCase().replace(/\/+$/, '')
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+}
+
+function isTemplate(segment: string): boolean {
+  return segment.startsWith('{') && segment.endsWith('}')
+}
@@ -0,0 +1,415 @@
+/**
+ * Swagger 2.0 → OpenAPI 3.0 conversion
+ *
+ * Everything past loading assumes an OpenAPI 3 document, so Swagger 2.0
+ * specs are converted once when they are loaded:
+ * - `definitions`, `parameters`, `responses` and `securityDefinitions`
+ *   move to `components` (body parameters become `requestBodies`)
+ * - `body` and `formData` parameters become a `requestBody`, with one
+ *   media type per entry in `consumes`
+ * - response schemas get one media type per entry in `produces`
+ * - `host`, `basePath` and `schemes` become `servers`
+ *
+ * Anything that has no OpenAPI 3 equivalent is approximated and reported
+ * as a warning instead of failing the whole spec.
+ */
+
+import type { OpenAPIDocument } from './types.js'
+import { resolvePointer } from './spec-utils.js'
+
+/**
+ * A converted spec
+ */
+export interface ConversionResult {
+  spec: OpenAPIDocument
+  /** Constructs that were approximated or dropped, with their location */
+  warnings: string[]
+}
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch']
+
+/** Parameter keywords that describe the value, which OpenAPI 3 moves into `schema` */
+const SCHEMA_FIELDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+]
+
+/** `collectionFormat` → OpenAPI 3 `style` / `explode` */
+const COLLECTION_FORMATS: Record<string, { style: string, explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true },
+}
+
+/**
+ * Whether a parsed document is a Swagger 2.0 spec
+ */
+export function isSwagger2(document: unknown): boolean {
+  return typeof (document as { swagger?: unknown } | null)?.swagger === 'string'
+}
+
+/**
+ * Convert a Swagger 2.0 document to OpenAPI 3.0.3
+ */
+export function convertSwagger2(swagger: Record<string, any>): ConversionResult {
+  const warnings: string[] = []
+  const globalConsumes: string[] = swagger.consumes?.length ? swagger.consumes : ['application/json']
+  const globalProduces: string[] = swagger.produces?.length ? swagger.produces : ['application/json']
+
+  if (swagger.swagger !== '2.0') {
+    warnings.push(`Unexpected swagger version "${swagger.swagger}", converting as 2.0`)
+  }
+
+  const globalParameters: Record<string, any> = swagger.parameters || {}
+
+  const resolveParameter = (parameter: any): any => {
+    if (typeof parameter?.$ref === 'string' && parameter.$ref.startsWith('#/parameters/')) {
+      return resolvePointer(swagger, parameter.$ref) ?? parameter
+    }
+    return parameter
+  }
+
+  const spec: Record<string, any> = {
+    openapi: '3.0.3',
+    info: swagger.info,
+    ...pickExtensions(swagger),
+  }
+
+  const servers = convertServers(swagger)
+  if (servers.length > 0) {
+    spec.servers = servers
+  }
+  for (const key of ['security', 'tags', 'externalDocs']) {
+    if (swagger[key] !== undefined) {
+      spec[key] = swagger[key]
+    }
+  }
+
+  spec.paths = {}
+  for (const [path, pathItem] of Object.entries<any>(swagger.paths || {})) {
+    if (!pathItem || typeof pathItem !== 'object') {
+      continue
+    }
+
+    const converted: Record<string, any> = {}
+    const sharedParameters: any[] = pathItem.parameters || []
+    for (const [key, value] of Object.entries<any>(pathItem)) {
+      if (key === 'parameters') {
+        const parameters = value
+          .filter((parameter: any) => !isBodyParameter(resolveParameter(parameter)))
+          .map((parameter: any) => convertParameter(parameter, `${path} parameters`, warnings))
+        if (parameters.length > 0) {
+          converted.parameters = parameters
+        }
+      }
+      else if (OPERATION_METHODS.includes(key) && value && typeof value === 'object') {
+        const location = `${key.toUpperCase()} ${path}`
+        converted[key] = convertOperation(value, sharedParameters, location)
+      }
+      else {
+        converted[key] = value
+      }
+    }
+    spec.paths[path] = converted
+  }
+
+  function convertOperation(operation: Record<string, any>, sharedParameters: any[], location: string): Record<string, any> {
+    const consumes: string[] = operation.consumes?.length ? operation.consumes : globalConsumes
+    const produces: string[] = operation.produces?.length ? operation.produces : globalProduces
+    const result: Record<string, any> = {}
+
+    for (const [key, value] of Object.entries(operation)) {
+      if (!['consumes', 'produces', 'parameters', 'responses', 'schemes'].includes(key)) {
+        result[key] = value
+      }
+    }
+    if (operation.schemes) {
+      warnings.push(`${location}: operation-level schemes are not supported and were dropped`)
+    }
+
+    // Operation parameters override path-level ones with the same name and location
+    const parameters: any[] = operation.parameters || []
+    const declared = new Set(parameters.map(parameter => parameterKey(resolveParameter(parameter))))
+    const effective = [...sharedParameters.filter(parameter => !declared.has(parameterKey(resolveParameter(parameter)))), ...parameters]
+
+    const regular: any[] = []
+    const body: any[] = []
+    const formData: any[] = []
+    for (const parameter of effective) {
+      const resolved = resolveParameter(parameter)
+      if (resolved?.in === 'body') {
+        body.push(parameter)
+      }
+      else if (resolved?.in === 'formData') {
+        formData.push(resolved)
+      }
+      else if (parameters.includes(parameter)) {
+        regular.push(convertParameter(parameter, location, warnings))
+      }
+    }
+    if (regular.length > 0) {
+      result.parameters = regular
+    }
+
+    if (body.length > 0) {
+      if (body.length > 1 || formData.length > 0) {
+        warnings.push(`${location}: several body or formData parameters, only the first body parameter is kept`)
+      }
+      const [parameter] = body
+      result.requestBody = typeof parameter.$ref === 'string'
+        ? { $ref: `#/components/requestBodies/${parameter.$ref.split('/').pop()}` }
+        : convertBodyParameter(parameter, consumes)
+    }
+    else if (formData.length > 0) {
+      result.requestBody = convertFormData(formData, consumes, location)
+    }
+
+    result.responses = {}
+    for (const [status, response] of Object.entries<any>(operation.responses || {})) {
+      result.responses[status] = convertResponse(response, produces)
+    }
+
+    return result
+  }
+
+  function convertFormData(parameters: any[], consumes: string[], location: string): Record<string, any> {
+    const properties: Record<string, any> = {}
+    const required: string[] = []
+    for (const parameter of parameters) {
+      properties[parameter.name] = {
+        ...convertSchema(pickSchemaFields(parameter)),
+        ...(parameter.description ? { description: parameter.description } : {}),
+      }
+      if (parameter.required) {
+        required.push(parameter.name)
+      }
+    }
+
+    const formTypes = consumes.filter(type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded')
+    const hasFile = parameters.some(parameter => parameter.type === 'file')
+    if (formTypes.length === 0) {
+      warnings.push(`${location}: formData parameters without a form content type in consumes, using ${hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'}`)
+      formTypes.push(hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded')
+    }
+
+    const schema = { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+    return {
+      content: Object.fromEntries(formTypes.map(type => [type, { schema }])),
+      ...(required.length > 0 ? { required: true } : {}),
+    }
+  }
+
+  function convertResponse(response: any, produces: string[]): Record<string, any> {
+    if (typeof response?.$ref === 'string') {
+      return { $ref: convertRef(response.$ref) }
+    }
+
+    const result: Record<string, any> = { ...pickExtensions(response), description: response?.description ?? '' }
+    if (response?.headers) {
+      result.headers = Object.fromEntries(Object.entries<any>(response.headers).map(([name, header]) => {
+        const { description, ...schema } = header
+        return [name, { ...(description ? { description } : {}), schema: convertSchema(pickSchemaFields(schema)) }]
+      }))
+    }
+    if (response?.schema) {
+      const schema = convertSchema(response.schema)
+      const examples: Record<string, unknown> = response.examples || {}
+      result.content = Object.fromEntries(produces.map(type => [type, {
+        schema,
+        ...(examples[type] !== undefined ? { example: examples[type] } : {}),
+      }]))
+    }
+    return result
+  }
+
+  // Components
+  const components: Record<string, any> = {}
+  if (swagger.definitions) {
+    components.schemas = Object.fromEntries(Object.entries(swagger.definitions).map(([name, schema]) => [name, convertSchema(schema)]))
+  }
+  // Global body parameters become request bodies; formData ones are inlined where they are used
+  const parameters = Object.entries(globalParameters).filter(([, parameter]) => !isBodyParameter(parameter))
+  if (parameters.length > 0) {
+    components.parameters = Object.fromEntries(parameters.map(([name, parameter]) => [name, convertParameter(parameter, `parameters/${name}`, warnings)]))
+  }
+  const requestBodies = Object.entries(globalParameters).filter(([, parameter]) => parameter?.in === 'body')
+  if (requestBodies.length > 0) {
+    components.requestBodies = Object.fromEntries(requestBodies.map(([name, parameter]) => [name, convertBodyParameter(parameter, globalConsumes)]))
+  }
+  if (swagger.responses) {
+    components.responses = Object.fromEntries(Object.entries(swagger.responses).map(([name, response]) => [name, convertResponse(response, globalProduces)]))
+  }
+  if (swagger.securityDefinitions) {
+    components.securitySchemes = Object.fromEntries(Object.entries<any>(swagger.securityDefinitions).map(([name, scheme]) => [name, convertSecurityScheme(name, scheme, warnings)]))
+  }
+  if (Object.keys(components).length > 0) {
+    spec.components = components
+  }
+
+  return { spec: spec as OpenAPIDocument, warnings }
+}
+
+function convertServers(swagger: Record<string, any>): Array<{ url: string }> {
+  const basePath = (swagger.basePath || '').replace(/\/$/, '')
+  if (!swagger.host) {
+    return basePath ? [{ url: basePath }] : []
+  }
+
+  const schemes: string[] = swagger.schemes?.length ? swagger.schemes : ['https']
+  return schemes.map(scheme => ({ url: `${scheme}://${swagger.host}${basePath}` }))
+}
+
+function convertParameter(parameter: any, location: string, warnings: string[]): Record<string, any> {
+  if (typeof parameter?.$ref === 'string') {
+    return { $ref: convertRef(parameter.$ref) }
+  }
+
+  const result: Record<string, any> = {}
+  for (const key of ['name', 'in', 'description', 'required', 'allowEmptyValue']) {
+    if (parameter[key] !== undefined) {
+      result[key] = parameter[key]
+    }
+  }
+  Object.assign(result, pickExtensions(parameter))
+  if (parameter.in === 'path') {
+    result.required = true
+  }
+
+  const format = parameter.collectionFormat
+  if (format && parameter.type === 'array') {
+    const mapped = COLLECTION_FORMATS[format]
+    if (!mapped) {
+      warnings.push(`${location}: collectionFormat "${format}" of parameter "${parameter.name}" has no OpenAPI 3 equivalent, using csv`)
+    }
+    // Path and header parameters only have the comma-separated "simple" style
+    const { style, explode } = mapped && ['query', 'cookie'].includes(parameter.in) ? mapped : { style: parameter.in === 'query' ? 'form' : 'simple', explode: false }
+    if (mapped && style !== mapped.style) {
+      warnings.push(`${location}: collectionFormat "${format}" is not supported for ${parameter.in} parameter "${parameter.name}", using csv`)
+    }
+    result.style = style
+    result.explode = explode
+  }
+
+  result.schema = convertSchema(pickSchemaFields(parameter))
+  return result
+}
+
+function convertBodyParameter(parameter: any, consumes: string[]): Record<string, any> {
+  const schema = convertSchema(parameter.schema || {})
+  return {
+    ...pickExtensions(parameter),
+    ...(parameter.description ? { description: parameter.description } : {}),
+    content: Object.fromEntries(consumes.map(type => [type, { schema }])),
+    ...(parameter.required ? { required: true } : {}),
+  }
+}
+
+function convertSecurityScheme(name: string, scheme: any, warnings: string[]): Record<string, any> {
+  const description = scheme.description ? { description: scheme.description } : {}
+
+  if (scheme.type === 'basic') {
+    return { type: 'http', scheme: 'basic', ...description }
+  }
+  if (scheme.type === 'apiKey') {
+    return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description }
+  }
+  if (scheme.type === 'oauth2') {
+    const scopes = scheme.scopes || {}
+    const flows: Record<string, Record<string, any>> = {
+      implicit: { implicit: { authorizationUrl: scheme.authorizationUrl, scopes } },
+      password: { password: { tokenUrl: scheme.tokenUrl, scopes } },
+      application: { clientCredentials: { tokenUrl: scheme.tokenUrl, scopes } },
+      accessCode: { authorizationCode: { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes } },
+    }
+    if (!flows[scheme.flow]) {
+      warnings.push(`securityDefinitions/${name}: unknown OAuth2 flow "${scheme.flow}"`)
+    }
+    return { type: 'oauth2', flows: flows[scheme.flow] ?? {}, ...description }
+  }
+
+  warnings.push(`securityDefinitions/${name}: unknown type "${scheme.type}"`)
+  return { ...scheme }
+}
+
+/**
+ * Convert a Swagger 2.0 schema: refs, `type: file`, `x-nullable` and string discriminators
+ */
+function convertSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(convertSchema)
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+
+  const result: Record<string, any> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string') {
+      result.$ref = convertRef(value)
+    }
+    else if (key === 'type' && value === 'file') {
+      result.type = 'string'
+      result.format = 'binary'
+    }
+    else if (key === 'x-nullable') {
+      result.nullable = value
+    }
+    else if (key === 'discriminator' && typeof value === 'string') {
+      result.discriminator = { propertyName: value }
+    }
+    else if (key === 'example' || key === 'default' || key === 'enum') {
+      result[key] = value
+    }
+    else {
+      result[key] = convertSchema(value)
+    }
+  }
+  return result
+}
+
+function convertRef(ref: string): string {
+  return ref
+    .replace(/^#\/definitions\//, '#/components/schemas/')
+    .replace(/^#\/parameters\//, '#/components/parameters/')
+    .replace(/^#\/responses\//, '#/components/responses/')
+}
+
+function isBodyParameter(parameter: any): boolean {
+  return parameter?.in === 'body' || parameter?.in === 'formData'
+}
+
+function parameterKey(parameter: any): string {
+  return `${parameter?.in}:${parameter?.name}`
+}
+
+function pickSchemaFields(parameter: any): Record<string, any> {
+  const schema: Record<string, any> = {}
+  for (const key of SCHEMA_FIELDS) {
+    if (parameter[key] !== undefined) {
+      schema[key] = parameter[key]
+    }
+  }
+  if (parameter['x-nullable'] !== undefined) {
+    schema['x-nullable'] = parameter['x-nullable']
+  }
+  return schema
+}
+
+function pickExtensions(object: any): Record<string, any> {
+  return Object.fromEntries(Object.entries(object || {}).filter(([key]) => key.startsWith('x-')))
+}
@@ -0,0 +1,86 @@
+/**
+ * Tag catalog for browsing APIs by area
+ *
+ * Combines the declared `tags` array with the tags actually used by
+ * operations, so undeclared tags still show up with their counts.
+ */
+
+import type { OpenAPIDocument, OpenAPIV3 } from './types.js'
+import { listOperations } from './spec-utils.js'
+
+/**
+ * A tag with its usage information
+ */
+export interface TagSummary {
+  name: string
+  description?: string
+  /** Number of operations tagged with this tag */
+  operationCount: number
+  /** Hetzner-style navigation path (e.g., "Security/Certificates") */
+  navPath?: string
+  /** Whether the tag is declared in the spec's top-level `tags` array */
+  declared: boolean
+}
+
+/**
+ * Tag catalog for a spec
+ */
+export interface TagCatalog {
+  tags: TagSummary[]
+  /** Tag names grouped by top-level `x-nav-path` section, when the spec provides one */
+  groups?: Record<string, string[]>
+  /** Number of operations without any tag */
+  untaggedOperations: number
+}
+
+/**
+ * Collect all tags of a spec with operation counts and navigation grouping
+ */
+export function collectTags(spec: OpenAPIDocument): TagCatalog {
+  const tags = new Map<string, TagSummary>()
+
+  for (const tag of spec.tags || []) {
+    const navPath = (tag as OpenAPIV3.TagObject & Record<string, unknown>)['x-nav-path']
+    tags.set(tag.name, {
+      name: tag.name,
+      description: tag.description?.trim() || undefined,
+      operationCount: 0,
+      navPath: typeof navPath === 'string' ? navPath : undefined,
+      declared: true,
+    })
+  }
+
+  let untaggedOperations = 0
+  for (const { operation } of listOperations(spec)) {
+    if (!operation.tags || operation.tags.length === 0) {
+      untaggedOperations++
+      continue
+    }
+
+    for (const name of operation.tags) {
+      let summary = tags.get(name)
+      if (!summary) {
+        summary = { name, operationCount: 0, declared: false }
+        tags.set(name, summary)
+      }
+      summary.operationCount++
+    }
+  }
+
+  const catalog: TagCatalog = {
+    tags: Array.from(tags.values()),
+    untaggedOperations,
+  }
+
+  const withNavPath = catalog.tags.filter(tag => tag.navPath)
+  if (withNavPath.length > 0) {
+    catalog.groups = {}
+    for (const tag of withNavPath) {
+      const section = tag.navPath!.split('/')[0]!
+      catalog.groups[section] ??= []
+      catalog.groups[section].push(tag.name)
+    }
+  }
+
+  return catalog
+}
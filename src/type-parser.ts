@@ -524,6 +524,13 @@ export class TypeInfoCache {
     return this.cache.get(filePath) || []
   }
 
+  /**
+   * Forget one file, so its next lookup parses it again
+   */
+  invalidate(filePath: string): void {
+    this.cache.delete(filePath)
+  }
+
   /**
    * Clear the cache
    */
@@ -12,8 +12,15 @@ export type { OpenAPIV3 }
 
 /**
  * OpenAPI Document - the root specification object
+ *
+ * Swagger 2.0 specs are converted to this shape when they are loaded.
+ * OpenAPI 3.1 specs keep their JSON Schema 2020-12 schemas (see
+ * json-schema.ts) and may have `webhooks`.
  */
-export type OpenAPIDocument = OpenAPIV3.Document
+export type OpenAPIDocument = OpenAPIV3.Document & {
+  /** Requests the API sends to the consumer, keyed by webhook name (OpenAPI 3.1) */
+  webhooks?: Record<string, OpenAPIV3.PathItemObject | OpenAPIV3.ReferenceObject>
+}
 
 /**
  * OpenAPI Operation - represents a single API endpoint operation
@@ -132,3 +139,15 @@ export interface EndpointResult {
  * Resolved schema (after $ref resolution)
  */
 export type ResolvedSchema = OpenAPIV3.SchemaObject
+
+/**
+ * A single operation located in a spec (path + method)
+ */
+export interface OperationEntry {
+  /** Path template, or the webhook name for webhooks */
+  path: string
+  /** Lowercase HTTP method */
+  method: string
+  operation: OpenAPIOperation
+  pathItem: OpenAPIV3.PathItemObject
+}
@@ -0,0 +1,548 @@
+/**
+ * JSON Schema validation for request and response payloads
+ *
+ * A small validator for the OpenAPI 3.0 schema dialect, plus the 3.1 type
+ * lists, `const` and `prefixItems`. Refs are resolved lazily while walking
+ * the value, so recursive schemas need no special handling. Every issue
+ * carries a JSON pointer to the offending value.
+ */
+
+import type { RefResolver } from './schema-resolver.js'
+import type { OpenAPIDocument, OpenAPIParameter, OpenAPIRequestBody, OperationEntry } from './types.js'
+import { allowsNull, schemaTypes } from './json-schema.js'
+import { escapePointer, findResponse, findResponseSchema, getOperationParameters, pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/**
+ * Kind of validation issue
+ */
+export type ValidationCode
+  = | 'required'
+    | 'type'
+    | 'enum'
+    | 'format'
+    | 'pattern'
+    | 'range'
+    | 'length'
+    | 'items'
+    | 'additional_property'
+    | 'undeclared'
+    | 'one_of'
+    | 'any_of'
+    | 'not'
+    | 'unknown_parameter'
+
+/**
+ * A single validation issue
+ */
+export interface ValidationIssue {
+  /** JSON pointer to the offending value (e.g., "/body/server_type") */
+  pointer: string
+  code: ValidationCode
+  message: string
+}
+
+/**
+ * Validation options
+ */
+export interface ValidateOptions {
+  /** Direction of the payload - readOnly fields are ignored in requests, writeOnly in responses */
+  direction?: 'request' | 'response'
+  /** Accept numeric/boolean strings for scalar schemas (query, path and header values) */
+  coerceStrings?: boolean
+  /** Report fields the schema does not declare (as `undeclared` issues) */
+  reportUndeclared?: boolean
+}
+
+/**
+ * Result of validating a payload
+ */
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+/**
+ * Result of validating a response payload
+ */
+export interface ResponseValidationResult extends ValidationResult {
+  /** Declared response key that was used (e.g., "200", "4XX", "default"), or null if none matched */
+  matchedStatus: string | null
+  declaredStatuses: string[]
+}
+
+/**
+ * Candidate request to validate
+ */
+export interface RequestInput {
+  path?: Record<string, unknown>
+  query?: Record<string, unknown>
+  headers?: Record<string, unknown>
+  body?: unknown
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'email': /^[^\s@]+@[^\s@][^\s@.]*(?:\.[^\s@.]+)+$/,
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  'date': /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})$/i,
+  'time': /^\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?$/i,
+  'ipv4': /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/,
+  'ipv6': /^[0-9a-f:.]+$/i,
+  'hostname': /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i,
+  'byte': /^[A-Z0-9+/]*={0,2}$/i,
+}
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  int32: [-2147483648, 2147483647],
+  int64: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function validateValue(
+  schema: unknown,
+  value: unknown,
+  resolveRef: RefResolver,
+  options: ValidateOptions = {},
+  pointer = '',
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const seen = new Set<string>()
+
+  // `inAllOf` marks an allOf member: undeclared fields are judged against the union of all members instead
+  function visit(node: any, current: unknown, at: string, inAllOf = false): void {
+    if (!node || typeof node !== 'object') {
+      return
+    }
+
+    if (typeof node.$ref === 'string') {
+      // Guard against refs that point at themselves without consuming the value
+      const key = `${node.$ref}@${at}`
+      if (seen.has(key)) {
+        return
+      }
+      seen.add(key)
+      visit(resolveRef(node.$ref), current, at, inAllOf)
+      seen.delete(key)
+      return
+    }
+
+    if (Array.isArray(node.allOf)) {
+      for (const member of node.allOf) {
+        visit(member, current, at, true)
+      }
+    }
+
+    if (Array.isArray(node.oneOf) || Array.isArray(node.anyOf)) {
+      const keyword = Array.isArray(node.oneOf) ? 'oneOf' : 'anyOf'
+      const variants: any[] = node[keyword]
+      const results = variants.map(variant => validateValue(variant, current, resolveRef, options, at))
+      const failures = results.map(result => result.filter(issue => issue.code !== 'undeclared'))
+      const matching = failures.filter(result => result.length === 0).length
+
+      if (matching === 0) {
+        const closest = results[failures.indexOf(failures.reduce((best, result) => (result.length < best.length ? result : best)))]!
+        issues.push({
+          pointer: at,
+          code: keyword === 'oneOf' ? 'one_of' : 'any_of',
+          message: `Value does not match any of the ${variants.length} allowed variants`,
+        })
+        issues.push(...closest)
+      }
+      else {
+        if (keyword === 'oneOf' && matching > 1 && !node.discriminator) {
+          issues.push({ pointer: at, code: 'one_of', message: `Value matches ${matching} variants, expected exactly one` })
+        }
+        issues.push(...results[failures.findIndex(result => result.length === 0)]!)
+      }
+    }
+
+    if (node.not && validateValue(node.not, current, resolveRef, options, at).length === 0) {
+      issues.push({ pointer: at, code: 'not', message: 'Value matches a schema it must not match' })
+    }
+
+    // 3.1 type lists (["string", "null"]) and 3.0 `nullable` both count
+    const types = schemaTypes(node)
+
+    if (current === null) {
+      if (types.length > 0 && !allowsNull(node)) {
+        issues.push({ pointer: at, code: 'type', message: `Expected ${types.join(' or ')}, got null` })
+      }
+      else if (node.const !== undefined && node.const !== null) {
+        issues.push({ pointer: at, code: 'enum', message: `Value must be ${JSON.stringify(node.const)}` })
+      }
+      return
+    }
+
+    const coerced = options.coerceStrings ? coerceScalar(types.find(type => type !== 'null'), current) : current
+
+    if (types.length > 0 && !types.some(type => matchesType(type, coerced))) {
+      issues.push({ pointer: at, code: 'type', message: `Expected ${types.join(' or ')}, got ${describeType(coerced)}` })
+      return
+    }
+
+    if (node.const !== undefined && !isEqual(node.const, coerced)) {
+      issues.push({ pointer: at, code: 'enum', message: `Value must be ${JSON.stringify(node.const)}` })
+    }
+
+    if (Array.isArray(node.enum) && !node.enum.some((allowed: unknown) => isEqual(allowed, coerced))) {
+      issues.push({
+        pointer: at,
+        code: 'enum',
+        message: `Value ${JSON.stringify(coerced)} is not one of: ${node.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`,
+      })
+    }
+
+    if (typeof coerced === 'string') {
+      checkString(node, coerced, at, issues)
+    }
+    else if (typeof coerced === 'number') {
+      checkNumber(node, coerced, at, issues)
+    }
+    else if (Array.isArray(coerced)) {
+      checkArrayBounds(node, coerced, at, issues)
+      // 3.1 tuples: prefixItems check the leading positions, items the rest
+      const prefix: any[] = Array.isArray(node.prefixItems) ? node.prefixItems : []
+      prefix.slice(0, coerced.length).forEach((item, index) => visit(item, coerced[index], `${at}/${index}`))
+      if (node.items === false && coerced.length > prefix.length) {
+        issues.push({ pointer: at, code: 'items', message: `Array must have at most ${prefix.length} items` })
+      }
+      else if (node.items) {
+        coerced.slice(prefix.length).forEach((item, index) => visit(node.items, item, `${at}/${index + prefix.length}`))
+      }
+    }
+    else if (typeof coerced === 'object') {
+      visitObject(node, coerced as Record<string, unknown>, at, inAllOf)
+    }
+  }
+
+  function visitObject(node: any, current: Record<string, unknown>, at: string, inAllOf: boolean): void {
+    const properties: Record<string, any> = node.properties || {}
+    const declared = options.reportUndeclared && !inAllOf ? collectDeclared(node, resolveRef) : null
+
+    for (const field of node.required || []) {
+      if (current[field] !== undefined) {
+        continue
+      }
+      const property = resolveShallow(properties[field], resolveRef)
+      if (options.direction === 'request' && property?.readOnly) {
+        continue
+      }
+      if (options.direction === 'response' && property?.writeOnly) {
+        continue
+      }
+      issues.push({ pointer: `${at}/${escapePointer(field)}`, code: 'required', message: `Missing required field "${field}"` })
+    }
+
+    for (const [key, child] of Object.entries(current)) {
+      const childPointer = `${at}/${escapePointer(key)}`
+
+      if (properties[key]) {
+        visit(properties[key], child, childPointer)
+      }
+      else if (node.additionalProperties === false) {
+        issues.push({ pointer: childPointer, code: 'additional_property', message: `Field "${key}" is not allowed` })
+      }
+      else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        visit(node.additionalProperties, child, childPointer)
+      }
+
+      if (declared && !declared.has(key)) {
+        issues.push({ pointer: childPointer, code: 'undeclared', message: `Field "${key}" is not declared in the schema` })
+      }
+    }
+  }
+
+  visit(schema, value, pointer)
+  return issues
+}
+
+/**
+ * Validate a candidate request against an operation's parameters and request body
+ */
+export function validateRequest(spec: OpenAPIDocument, entry: OperationEntry, input: RequestInput): ValidationResult {
+  const resolveRef: RefResolver = ref => resolvePointer(spec, ref)
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+  const parameters = getOperationParameters(spec, entry)
+
+  const groups: Array<{ location: OpenAPIParameter['in'], key: 'path' | 'query' | 'headers' }> = [
+    { location: 'path', key: 'path' },
+    { location: 'query', key: 'query' },
+    { location: 'header', key: 'headers' },
+  ]
+
+  for (const { location, key } of groups) {
+    const values = input[key] || {}
+    const declared = parameters.filter(p => p.in === location)
+    const caseInsensitive = location === 'header'
+    const lookup = (name: string): [string, unknown] | undefined => Object.entries(values).find(([candidate]) =>
+      caseInsensitive ? candidate.toLowerCase() === name.toLowerCase() : candidate === name,
+    )
+
+    for (const parameter of declared) {
+      const pointer = `/${key}/${escapePointer(parameter.name)}`
+      const found = lookup(parameter.name)
+
+      if (!found || found[1] === undefined) {
+        if (parameter.required || location === 'path') {
+          errors.push({ pointer, code: 'required', message: `Missing required ${location} parameter "${parameter.name}"` })
+        }
+        continue
+      }
+
+      const schema = parameter.schema ?? pickMediaSchema(parameter.content)?.schema
+      errors.push(...validateValue(schema, found[1], resolveRef, { direction: 'request', coerceStrings: true }, pointer))
+    }
+
+    // Headers commonly carry auth and tracing values the spec does not declare
+    if (location !== 'header') {
+      for (const name of Object.keys(values)) {
+        if (!declared.some(p => p.name === name)) {
+          warnings.push({
+            pointer: `/${key}/${escapePointer(name)}`,
+            code: 'unknown_parameter',
+            message: `Parameter "${name}" is not declared for ${location}`,
+          })
+        }
+      }
+    }
+  }
+
+  const declaredBody = entry.operation.requestBody
+  const requestBody = (declaredBody && '$ref' in declaredBody
+    ? resolveRef(declaredBody.$ref)
+    : declaredBody) as OpenAPIRequestBody | undefined
+
+  if (requestBody) {
+    const media = pickMediaSchema(requestBody.content)
+    if (input.body === undefined) {
+      if (requestBody.required) {
+        errors.push({ pointer: '/body', code: 'required', message: 'Missing required request body' })
+      }
+    }
+    else if (media) {
+      errors.push(...validateValue(media.schema, input.body, resolveRef, { direction: 'request' }, '/body'))
+    }
+  }
+  else if (input.body !== undefined) {
+    warnings.push({ pointer: '/body', code: 'undeclared', message: 'Operation does not declare a request body' })
+  }
+
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * Validate a response payload against the schema declared for its status code
+ *
+ * Undeclared fields are reported as warnings, everything else as errors.
+ */
+export function validateResponse(
+  spec: OpenAPIDocument,
+  entry: OperationEntry,
+  status: string | number,
+  payload: unknown,
+): ResponseValidationResult {
+  const resolveRef: RefResolver = ref => resolvePointer(spec, ref)
+  const declaredStatuses = Object.keys(entry.operation.responses || {})
+  const found = findResponse(spec, entry.operation, status)
+
+  if (!found) {
+    return {
+      valid: false,
+      matchedStatus: null,
+      declaredStatuses,
+      errors: [{ pointer: '', code: 'undeclared', message: `Status ${status} is not declared for this operation` }],
+      warnings: [],
+    }
+  }
+
+  const media = findResponseSchema(spec, entry.operation, status)
+  if (!media) {
+    const hasPayload = payload !== undefined && payload !== null && payload !== ''
+    return {
+      valid: !hasPayload,
+      matchedStatus: found.status,
+      declaredStatuses,
+      errors: hasPayload ? [{ pointer: '', code: 'undeclared', message: `Response ${found.status} declares no body` }] : [],
+      warnings: [],
+    }
+  }
+
+  const issues = validateValue(media.schema, payload, resolveRef, { direction: 'response', reportUndeclared: true })
+  const errors = issues.filter(issue => issue.code !== 'undeclared')
+
+  return {
+    valid: errors.length === 0,
+    matchedStatus: found.status,
+    declaredStatuses,
+    errors,
+    warnings: issues.filter(issue => issue.code === 'undeclared'),
+  }
+}
+
+/**
+ * Collect the property names an object schema declares, following allOf and $refs
+ *
+ * Returns null when the schema is open (additionalProperties, oneOf/anyOf or no
+ * properties at all) and undeclared fields cannot be judged.
+ */
+function collectDeclared(node: any, resolveRef: RefResolver, depth = 0): Set<string> | null {
+  const schema = resolveShallow(node, resolveRef)
+  if (!schema || depth > 10 || schema.additionalProperties || schema.oneOf || schema.anyOf) {
+    return null
+  }
+
+  const names = new Set<string>(Object.keys(schema.properties || {}))
+  for (const member of schema.allOf || []) {
+    const memberNames = collectDeclared(member, resolveRef, depth + 1)
+    if (!memberNames) {
+      return null
+    }
+    memberNames.forEach(name => names.add(name))
+  }
+
+  return names.size > 0 ? names : null
+}
+
+function resolveShallow(schema: any, resolveRef: RefResolver): any {
+  let current = schema
+  for (let hops = 0; current?.$ref && hops < 10; hops++) {
+    current = resolveRef(current.$ref)
+  }
+  return current
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string'
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+    case 'null':
+      return value === null
+    default:
+      return true
+  }
+}
+
+function coerceScalar(type: string | undefined, value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value
+  }
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value)
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true'
+  }
+  if (type === 'array') {
+    return value.split(',')
+  }
+  return value
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array'
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number'
+  }
+  return value === null ? 'null' : typeof value
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function checkString(node: any, value: string, at: string, issues: ValidationIssue[]): void {
+  if (typeof node.minLength === 'number' && value.length < node.minLength) {
+    issues.push({ pointer: at, code: 'length', message: `String is shorter than ${node.minLength} characters` })
+  }
+  if (typeof node.maxLength === 'number' && value.length > node.maxLength) {
+    issues.push({ pointer: at, code: 'length', message: `String is longer than ${node.maxLength} characters` })
+  }
+  if (typeof node.pattern === 'string') {
+    let pattern: RegExp | null = null
+    try {
+      pattern = new RegExp(node.pattern, 'u')
+    }
+    catch {
+      // Patterns using syntax JavaScript does not support are skipped
+    }
+    if (pattern && !pattern.test(value)) {
+      issues.push({ pointer: at, code: 'pattern', message: `String does not match pattern ${node.pattern}` })
+    }
+  }
+  if (typeof node.format === 'string') {
+    if (!isValidFormat(node.format, value)) {
+      issues.push({ pointer: at, code: 'format', message: `String is not a valid ${node.format}` })
+    }
+  }
+}
+
+function isValidFormat(format: string, value: string): boolean {
+  if (format === 'uri' || format === 'url') {
+    try {
+      return Boolean(new URL(value))
+    }
+    catch {
+      return false
+    }
+  }
+  if (format === 'date' || format === 'date-time') {
+    return FORMAT_PATTERNS[format]!.test(value) && !Number.isNaN(Date.parse(value))
+  }
+
+  const pattern = FORMAT_PATTERNS[format]
+  return pattern ? pattern.test(value) : true
+}
+
+function checkNumber(node: any, value: number, at: string, issues: ValidationIssue[]): void {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = node
+
+  if (typeof minimum === 'number' && (exclusiveMinimum === true ? value <= minimum : value < minimum)) {
+    issues.push({ pointer: at, code: 'range', message: `Value must be ${exclusiveMinimum === true ? '>' : '>='} ${minimum}` })
+  }
+  if (typeof maximum === 'number' && (exclusiveMaximum === true ? value >= maximum : value > maximum)) {
+    issues.push({ pointer: at, code: 'range', message: `Value must be ${exclusiveMaximum === true ? '<' : '<='} ${maximum}` })
+  }
+  // OpenAPI 3.1 (JSON Schema 2020-12) gives the exclusive bounds as numbers of their own
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+    issues.push({ pointer: at, code: 'range', message: `Value must be > ${exclusiveMinimum}` })
+  }
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+    issues.push({ pointer: at, code: 'range', message: `Value must be < ${exclusiveMaximum}` })
+  }
+  if (typeof multipleOf === 'number' && multipleOf > 0 && !Number.isInteger(value / multipleOf)) {
+    issues.push({ pointer: at, code: 'range', message: `Value must be a multiple of ${multipleOf}` })
+  }
+
+  const range = node.type === 'integer' && typeof node.format === 'string' ? INTEGER_RANGES[node.format] : undefined
+  if (range && (value < range[0] || value > range[1])) {
+    issues.push({ pointer: at, code: 'format', message: `Value does not fit in ${node.format}` })
+  }
+}
+
+function checkArrayBounds(node: any, value: unknown[], at: string, issues: ValidationIssue[]): void {
+  if (typeof node.minItems === 'number' && value.length < node.minItems) {
+    issues.push({ pointer: at, code: 'items', message: `Array must have at least ${node.minItems} items` })
+  }
+  if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+    issues.push({ pointer: at, code: 'items', message: `Array must have at most ${node.maxItems} items` })
+  }
+  if (node.uniqueItems === true && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+    issues.push({ pointer: at, code: 'items', message: 'Array items must be unique' })
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Workflow planner
+ *
+ * Real tasks span several calls: creating a Hetzner server needs a server
+ * type and an image first, and the returned action is then polled via
+ * `/actions/{id}`. The planner finds, for a target operation, the GET
+ * operations whose responses produce the values its path parameters and
+ * body fields need - by matching response field names and types to input
+ * names - and returns an ordered call chain with sufetch code per step.
+ */
+
+import type { OpenAPIDocument, OperationEntry } from './types.js'
+import { primaryType, schemaExample } from './json-schema.js'
+import { dereferenceSchema } from './schema-resolver.js'
+import { tokenize } from './search-index.js'
+import { getOperationParameters, listOperations, pickMediaSchema, resolvePointer } from './spec-utils.js'
+
+/**
+ * Options for planning
+ */
+export interface PlanOptions {
+  /** Also chain optional body fields that another operation can produce */
+  includeOptional?: boolean
+  /** Append calls that read back what the target returns (e.g., polling an action) */
+  followUps?: boolean
+}
+
+/**
+ * One call in a workflow
+ */
+export interface WorkflowStep {
+  step: number
+  role: 'prerequisite' | 'target' | 'follow-up'
+  /** Operation label (e.g., "GET /server_types") */
+  operation: string
+  operationId?: string
+  /** Inputs of later steps this call provides, with the response field they come from */
+  provides: Array<{ for: string, input: string, from: string }>
+  code: string
+}
+
+/**
+ * An ordered call chain ending in (or around) the target operation
+ */
+export interface WorkflowPlan {
+  target: string
+  steps: WorkflowStep[]
+  /** Required inputs no operation produces; the caller has to supply them */
+  unresolved: string[]
+}
+
+/**
+ * A value an operation needs
+ */
+interface Input {
+  location: 'path' | 'body'
+  name: string
+  /** Singular resource the value identifies (e.g., "server_type") */
+  resource: string
+  type?: string
+  required: boolean
+  example?: unknown
+}
+
+/**
+ * A value an operation's success response yields
+ */
+interface Output {
+  /** Accessor segments from the response root; "[]" marks the first array item */
+  accessor: string[]
+  resource: string
+  field: string
+  type?: string
+}
+
+/** Response fields that identify a resource, in order of preference for string inputs */
+const VALUE_FIELDS = ['slug', 'name', 'id']
+
+/** How deep producers may themselves depend on other producers */
+const MAX_CHAIN_DEPTH = 3
+
+/**
+ * Plan the calls needed to perform a target operation
+ */
+export function planWorkflow(spec: OpenAPIDocument, target: OperationEntry, options: PlanOptions = {}): WorkflowPlan {
+  const resolve = (node: unknown): any => dereferenceSchema(node, ref => resolvePointer(spec, ref), { maxDepth: 5 })
+  const producers = listOperations(spec)
+    .filter(entry => entry.method === 'get' && entry !== target)
+    .map(entry => ({ entry, outputs: collectOutputs(entry, resolve) }))
+    .filter(producer => producer.outputs.length > 0)
+
+  const steps: WorkflowStep[] = []
+  const stepByOperation = new Map<OperationEntry, WorkflowStep>()
+  const variables = new Set<string>()
+  const unresolved: string[] = []
+
+  /**
+   * Add the steps an operation depends on; returns an expression per input name
+   */
+  function satisfy(entry: OperationEntry, depth: number, trail: OperationEntry[]): Map<string, string> {
+    const bindings = new Map<string, string>()
+    const isTarget = entry === target
+
+    for (const input of collectInputs(spec, entry, resolve)) {
+      if (!input.required && !(isTarget && options.includeOptional)) {
+        continue
+      }
+
+      const producer = depth < MAX_CHAIN_DEPTH ? findProducer(input, trail) : null
+      if (!producer) {
+        if (input.required && isTarget) {
+          unresolved.push(`${input.location}.${input.name}`)
+        }
+        continue
+      }
+
+      const { entry: source, output } = producer
+      let step = stepByOperation.get(source)
+      if (!step) {
+        const sourceBindings = satisfy(source, depth + 1, [...trail, source])
+        step = addStep('prerequisite', source, sourceBindings)
+        stepByOperation.set(source, step)
+      }
+
+      const variable = uniqueName(camelCase(input.name === 'id' ? `${input.resource}_id` : input.name))
+      const accessor = renderAccessor(`step${step.step}`, output.accessor)
+      step.code += `\nconst ${variable} = ${accessor}`
+      step.provides.push({ for: operationLabel(entry), input: `${input.location}.${input.name}`, from: formatAccessor(output.accessor) })
+      bindings.set(`${input.location}.${input.name}`, variable)
+    }
+
+    return bindings
+  }
+
+  function findProducer(input: Input, trail: OperationEntry[]): { entry: OperationEntry, output: Output } | null {
+    let best: { entry: OperationEntry, output: Output, score: number } | null = null
+
+    for (const { entry, outputs } of producers) {
+      if (trail.includes(entry)) {
+        continue
+      }
+
+      for (const output of outputs) {
+        const fieldRank = matchField(input, output)
+        if (output.resource !== input.resource || fieldRank < 0) {
+          continue
+        }
+
+        // Prefer producers needing no inputs, then list endpoints, then the better field
+        const requiredInputs = getOperationParameters(spec, entry).filter(param => param.required).length
+        const score = requiredInputs * 10 + (output.accessor.includes('[]') ? 0 : 1) * 5 + fieldRank
+        if (!best || score < best.score) {
+          best = { entry, output, score }
+        }
+      }
+    }
+
+    return best
+  }
+
+  function addStep(role: WorkflowStep['role'], entry: OperationEntry, bindings: Map<string, string>): WorkflowStep {
+    const step: WorkflowStep = {
+      step: steps.length + 1,
+      role,
+      operation: operationLabel(entry),
+      operationId: entry.operation.operationId,
+      provides: [],
+      code: '',
+    }
+    step.code = renderCall(spec, entry, `step${step.step}`, bindings, resolve)
+    steps.push(step)
+    return step
+  }
+
+  function uniqueName(name: string): string {
+    let candidate = name
+    for (let i = 2; variables.has(candidate); i++) {
+      candidate = `${name}${i}`
+    }
+    variables.add(candidate)
+    return candidate
+  }
+
+  const targetStep = addStep('target', target, satisfy(target, 0, [target]))
+
+  if (options.followUps ?? true) {
+    for (const output of collectOutputs(target, resolve).filter(o => o.field === 'id' && !o.accessor.includes('[]'))) {
+      const reader = producers.find(({ entry }) => readsResource(spec, entry, output.resource) && entry.path !== target.path)
+      if (!reader) {
+        continue
+      }
+
+      const param = getOperationParameters(spec, reader.entry).find(p => p.in === 'path')!
+      const variable = uniqueName(camelCase(`${output.resource}_id`))
+      targetStep.code += `\nconst ${variable} = ${renderAccessor(`step${targetStep.step}`, output.accessor)}`
+      targetStep.provides.push({ for: operationLabel(reader.entry), input: `path.${param.name}`, from: formatAccessor(output.accessor) })
+      addStep('follow-up', reader.entry, new Map([[`path.${param.name}`, variable]]))
+    }
+  }
+
+  return { target: operationLabel(target), steps, unresolved }
+}
+
+/**
+ * Path parameters and top-level body fields of an operation
+ */
+function collectInputs(spec: OpenAPIDocument, entry: OperationEntry, resolve: (node: unknown) => any): Input[] {
+  const inputs: Input[] = []
+
+  for (const param of getOperationParameters(spec, entry).filter(p => p.in === 'path')) {
+    const schema = resolve(param.schema) || {}
+    inputs.push({
+      location: 'path',
+      name: param.name,
+      resource: resourceOf(param.name) || resourceBefore(entry.path, param.name),
+      type: primaryType(schema),
+      required: true,
+      example: param.example ?? schemaExample(schema),
+    })
+  }
+
+  const requestBody = resolve(entry.operation.requestBody)
+  let body = resolve(pickMediaSchema(requestBody?.content)?.schema) || {}
+  // Plan against the first variant of a oneOf body (e.g., single vs multi create)
+  body = body.oneOf?.[0] ?? body.anyOf?.[0] ?? body
+  const required = new Set<string>(body.required || [])
+
+  for (const [name, schema] of Object.entries<any>(body.properties || {})) {
+    if (schema?.readOnly) {
+      continue
+    }
+    inputs.push({
+      location: 'body',
+      name,
+      resource: resourceOf(name),
+      type: primaryType(schema),
+      required: required.has(name),
+      example: schemaExample(schema),
+    })
+  }
+
+  return inputs
+}
+
+/**
+ * Identifying fields in the success response of an operation
+ *
+ * Looks at the response root and one level of properties, e.g.
+ * `server_types[].name` or `server.id`.
+ */
+function collectOutputs(entry: OperationEntry, resolve: (node: unknown) => any): Output[] {
+  const status = Object.keys(entry.operation.responses || {}).find(code => code.startsWith('2'))
+  const response = status ? resolve(entry.operation.responses[status]) : null
+  const root = resolve(pickMediaSchema(response?.content)?.schema)
+  if (!root) {
+    return []
+  }
+
+  const outputs: Output[] = []
+  const addContainer = (schema: any, accessor: string[], resource: string): void => {
+    const isArray = primaryType(schema) === 'array' || (schema?.items && !schema.properties)
+    const container = isArray ? schema.items : schema
+    const path = isArray ? [...accessor, '[]'] : accessor
+
+    for (const field of VALUE_FIELDS) {
+      const property = container?.properties?.[field]
+      const type = primaryType(property)
+      if (type && ['string', 'integer', 'number'].includes(type)) {
+        outputs.push({ accessor: [...path, field], resource, field, type })
+      }
+    }
+  }
+
+  // Root object or array of the resource named by the path (e.g., GET /admin/identities)
+  addContainer(root, [], resourceOf(lastStaticSegment(entry.path)))
+
+  for (const [name, property] of Object.entries<any>(root.properties || {})) {
+    addContainer(property, [name], resourceOf(name))
+  }
+
+  return outputs
+}
+
+/**
+ * How well an output field fills an input: lower is better, -1 is no match
+ */
+function matchField(input: Input, output: Output): number {
+  const wantsId = input.name === 'id' || /(?:_id|Id)$/.test(input.name)
+  if (wantsId || input.type === 'integer') {
+    return output.field === 'id' && typesCompatible(input.type, output.type) ? 0 : -1
+  }
+
+  return typesCompatible(input.type, output.type) ? VALUE_FIELDS.indexOf(output.field) : -1
+}
+
+function typesCompatible(inputType: string | undefined, outputType: string | undefined): boolean {
+  if (!inputType || !outputType) {
+    return true
+  }
+  const numeric = ['integer', 'number']
+  return inputType === outputType || (numeric.includes(inputType) && numeric.includes(outputType))
+}
+
+/**
+ * Whether an operation reads a single resource by its id (e.g., GET /actions/{id})
+ */
+function readsResource(spec: OpenAPIDocument, entry: OperationEntry, resource: string): boolean {
+  const segments = entry.path.split('/').filter(Boolean)
+  const last = segments.at(-1)
+  const params = getOperationParameters(spec, entry).filter(param => param.in === 'path')
+
+  return params.length === 1
+    && last === `{${params[0]!.name}}`
+    && resourceOf(segments.at(-2) || '') === resource
+}
+
+/**
+ * Singular resource a name refers to: "server_types" → "server_type", "droplet_id" → "droplet"
+ */
+function resourceOf(name: string): string {
+  const tokens = tokenize(name)
+  if (tokens.at(-1) === 'id') {
+    tokens.pop()
+  }
+  return tokens.join('_')
+}
+
+/**
+ * Resource of a bare `{id}` parameter, taken from the segment before it
+ */
+function resourceBefore(path: string, param: string): string {
+  const segments = path.split('/').filter(Boolean)
+  const index = segments.indexOf(`{${param}}`)
+  return resourceOf(segments[index - 1] || '')
+}
+
+function lastStaticSegment(path: string): string {
+  return path.split('/').filter(segment => segment && !segment.startsWith('{')).at(-1) || ''
+}
+
+function operationLabel(entry: OperationEntry): string {
+  return `${entry.method.toUpperCase()} ${entry.path}`
+}
+
+function camelCase(name: string): string {
+  return name.replace(/[-_]+([a-z0-9])/gi, (_, char: string) => char.toUpperCase())
+}
+
+function formatAccessor(accessor: string[]): string {
+  return accessor.join('.').replace(/\.\[\]/g, '[]')
+}
+
+function renderAccessor(variable: string, accessor: string[]): string {
+  return accessor.reduce((expression, segment) => (segment === '[]' ? `${expression}[0]` : `${expression}.${segment}`), variable)
+}
+
+/**
+ * Render one sufetch call with its inputs bound to earlier variables
+ */
+function renderCall(
+  spec: OpenAPIDocument,
+  entry: OperationEntry,
+  variable: string,
+  bindings: Map<string, string>,
+  resolve: (node: unknown) => any,
+): string {
+  const inputs = collectInputs(spec, entry, resolve)
+  const placeholder = (input: Input): string => literal(input.example ?? (input.type === 'integer' ? 1 : `<${input.name}>`))
+
+  const url = entry.path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const input = inputs.find(i => i.location === 'path' && i.name === name)
+    return `\${${bindings.get(`path.${name}`) ?? (input ? placeholder(input) : literal(`<${name}>`))}}`
+  })
+  const lines = [`const ${variable} = await client(${url.includes('${') ? `\`${url}\`` : `'${url}'`}, {`, `  method: '${entry.method.toUpperCase()}',`]
+
+  const bodyInputs = inputs.filter(input => input.location === 'body' && (input.required || bindings.has(`body.${input.name}`)))
+  if (bodyInputs.length > 0) {
+    lines.push('  body: {')
+    for (const input of bodyInputs) {
+      const value = bindings.get(`body.${input.name}`) ?? placeholder(input)
+      lines.push(value === input.name ? `    ${value},` : `    ${input.name}: ${value},`)
+    }
+    lines.push('  },')
+  }
+
+  lines.push('})')
+  return lines.join('\n')
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'` : JSON.stringify(value)
+}
@@ -0,0 +1,11 @@
+import type { OpenAPIDocument } from '../src/types'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import process from 'node:process'
+
+/**
+ * Load one of the shipped specs (e.g., "hetzner/cloud.json") from openapi-specs
+ */
+export function loadSpec(file: string): OpenAPIDocument {
+  return JSON.parse(readFileSync(join(process.cwd(), 'openapi-specs', file), 'utf-8'))
+}
@@ -0,0 +1,51 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { completeMethods, completeOperationIds, completePaths, completeSchemaNames, completeTags, completeValues, completeWebhookNames } from '../../src/completions'
+import { loadSpec } from '../helpers'
+
+describe('completeValues', () => {
+  it('should list prefix matches before substring matches', () => {
+    expect(completeValues(['ory/kratos', 'hetzner/cloud', 'ory/hydra', 'ory/kratos'], 'ory')).toEqual(['ory/kratos', 'ory/hydra'])
+    expect(completeValues(['hetzner/cloud', 'ory/hydra'], 'CLOUD')).toEqual(['hetzner/cloud'])
+    expect(completeValues(['b', 'a'], '')).toEqual(['b', 'a'])
+  })
+})
+
+describe('spec completions', () => {
+  const digitalocean = loadSpec('digitalocean/api.json')
+  const kratos = loadSpec('ory/kratos.json')
+
+  it('should complete DigitalOcean paths from a prefix', () => {
+    const paths = completePaths(digitalocean, '/v2/drop')
+
+    expect(paths[0]).toBe('/v2/droplets')
+    expect(paths.length).toBeGreaterThan(5)
+    expect(paths.every(path => path.startsWith('/v2/drop'))).toBe(true)
+  })
+
+  it('should complete methods of a path', () => {
+    expect(completeMethods(digitalocean, '/v2/droplets', '')).toEqual(['GET', 'POST', 'DELETE'])
+    expect(completeMethods(digitalocean, '/v2/droplets', 'p')).toEqual(['POST'])
+    expect(completeMethods(digitalocean, undefined, 'PAT')).toEqual(['PATCH'])
+  })
+
+  it('should complete schema names, operationIds and tags', () => {
+    expect(completeSchemaNames(kratos, 'identityCred')).toContain('identityCredentials')
+    expect(completeOperationIds(kratos, 'getIdentity')[0]).toBe('getIdentity')
+    expect(completeTags(kratos, 'ident')).toContain('identity')
+  })
+
+  it('should complete webhook names', () => {
+    const spec = {
+      openapi: '3.1.0',
+      info: { title: 'Shop', version: '1.0.0' },
+      webhooks: {
+        orderCreated: { post: { responses: { 200: { description: 'OK' } } } },
+        orderShipped: { post: { responses: { 200: { description: 'OK' } } } },
+      },
+    } as unknown as OpenAPIDocument
+
+    expect(completeWebhookNames(spec, 'order')).toEqual(['orderCreated', 'orderShipped'])
+    expect(completeWebhookNames(kratos, '')).toEqual([])
+  })
+})
@@ -1,5 +1,8 @@
+import { readFileSync } from 'node:fs'
 import { describe, expect, it } from 'vitest'
-import { loadConfig } from '../../src/config'
+import { loadConfig, parseCliArgs } from '../../src/config'
+
+const packageJson = JSON.parse(readFileSync('package.json', 'utf-8'))
 
 describe('config', () => {
   it('should load default configuration', () => {
@@ -7,7 +10,7 @@ describe('config', () => {
 
     expect(config).toBeDefined()
     expect(config.server.name).toBe('sufetch-mcp')
-    expect(config.server.version).toBe('0.3.0')
+    expect(config.server.version).toBe(packageJson.version)
   })
 
   it('should have default cache settings', () => {
@@ -17,6 +20,29 @@ describe('config', () => {
     expect(config.cache.exampleTTL).toBe(5 * 60 * 1000) // 5 minutes
   })
 
+  it('should have a default output budget', () => {
+    const config = loadConfig()
+
+    expect(config.output.maxBytes).toBe(24000)
+  })
+
+  it('should watch specs unless SUFETCH_WATCH is false', () => {
+    const originalValue = process.env.SUFETCH_WATCH
+
+    expect(loadConfig().watch).toEqual({ enabled: true, debounce: 300 })
+
+    process.env.SUFETCH_WATCH = 'false'
+    expect(loadConfig().watch.enabled).toBe(false)
+
+    // Restore original value
+    if (originalValue === undefined) {
+      delete process.env.SUFETCH_WATCH
+    }
+    else {
+      process.env.SUFETCH_WATCH = originalValue
+    }
+  })
+
   it('should have default HTTP settings', () => {
     const config = loadConfig()
 
@@ -55,6 +81,59 @@ describe('config', () => {
     expect(config.schemas.importantFieldPatterns).toContain('title')
   })
 
+  it('should keep request execution opt-in and GET-only by default', () => {
+    const config = loadConfig()
+
+    expect(config.execute.enabled).toBe(false)
+    expect(config.execute.allowedMethods).toEqual(['GET'])
+    expect(config.execute.targets).toEqual({})
+  })
+
+  it('should parse execution targets from the environment', () => {
+    const originalValue = process.env.SUFETCH_EXECUTE_TARGETS
+
+    process.env.SUFETCH_EXECUTE_TARGETS = JSON.stringify({ 'hetzner/cloud': { headers: { Authorization: 'Bearer x' } } })
+    expect(loadConfig().execute.targets['hetzner/cloud']?.headers?.Authorization).toBe('Bearer x')
+    expect(loadConfig().warnings).toEqual([])
+
+    process.env.SUFETCH_EXECUTE_TARGETS = '{ not json'
+    const config = loadConfig()
+    expect(config.execute.targets).toEqual({})
+    expect(config.warnings).toEqual([expect.stringMatching(/^Ignoring SUFETCH_EXECUTE_TARGETS: not valid JSON/)])
+
+    // Restore original value
+    if (originalValue === undefined) {
+      delete process.env.SUFETCH_EXECUTE_TARGETS
+    }
+    else {
+      process.env.SUFETCH_EXECUTE_TARGETS = originalValue
+    }
+  })
+
+  it('should default to the stdio transport on localhost', () => {
+    const config = loadConfig()
+
+    expect(config.transport).toEqual({ mode: 'stdio', host: '127.0.0.1', port: 3000, authToken: '', sessionIdleTimeout: 30 * 60 * 1000 })
+  })
+
+  it('should let command-line flags override the transport', () => {
+    const base = loadConfig().transport
+
+    expect(parseCliArgs(['--transport', 'http', '--host', '0.0.0.0', '--port', '8080'], base).transport)
+      .toEqual({ ...base, mode: 'http', host: '0.0.0.0', port: 8080 })
+    expect(parseCliArgs([], base)).toEqual({ transport: base, version: false, help: false })
+    expect(() => parseCliArgs(['--transport', 'websocket'], base)).toThrow(/Invalid transport/)
+    expect(() => parseCliArgs(['--port', 'abc'], base)).toThrow(/Invalid port/)
+    expect(() => parseCliArgs(['--auth-token', 'secret'], base)).toThrow()
+  })
+
+  it('should accept --version and --help', () => {
+    const base = loadConfig().transport
+
+    expect(parseCliArgs(['--version'], base).version).toBe(true)
+    expect(parseCliArgs(['-h'], base).help).toBe(true)
+  })
+
   it('should have example value defaults', () => {
     const config = loadConfig()
 
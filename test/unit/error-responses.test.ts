@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { fieldAccess, findMessagePath, isErrorStatus, listErrorResponses, statusCondition } from '../../src/error-responses'
+import { findOperation } from '../../src/spec-utils'
+import { loadSpec } from '../helpers'
+
+describe('listErrorResponses', () => {
+  it('should list non-2xx responses with resolved schemas', () => {
+    const digitalocean = loadSpec('digitalocean/api.json')
+    const errors = listErrorResponses(digitalocean, findOperation(digitalocean, '/v2/droplets/{droplet_id}', 'get')!.operation)
+
+    expect(errors.map(e => e.status)).toEqual(['401', '404', '429', '500', 'default'])
+    expect(errors[0]).toMatchObject({ mediaType: 'application/json', messagePath: 'message' })
+    expect((errors[0]!.schema as any).properties).toHaveProperty('request_id')
+  })
+
+  it('should find messages nested in Ory error envelopes', () => {
+    const kratos = loadSpec('ory/kratos.json')
+    const errors = listErrorResponses(kratos, findOperation(kratos, '/admin/identities/{id}', 'get')!.operation)
+
+    expect(errors.map(e => [e.status, e.messagePath])).toEqual([['404', 'error.message'], ['default', 'error.message']])
+  })
+})
+
+describe('findMessagePath', () => {
+  it('should prefer top-level messages', () => {
+    expect(findMessagePath({
+      properties: {
+        error: { type: 'object', properties: { code: { type: 'string' }, message: { type: 'string' } } },
+        detail: { type: 'string' },
+      },
+    })).toBe('detail')
+    expect(findMessagePath({ properties: { error: { type: 'object', properties: { message: { type: 'string' } } } } })).toBe('error.message')
+    expect(findMessagePath({ type: 'string' })).toBeUndefined()
+  })
+})
+
+describe('statusCondition', () => {
+  it('should build conditions for codes and ranges', () => {
+    expect(statusCondition('404')).toBe('status === 404')
+    expect(statusCondition('5XX')).toBe('status >= 500 && status < 600')
+    expect(statusCondition('default')).toBeNull()
+  })
+})
+
+describe('isErrorStatus', () => {
+  it('should only match 4xx and 5xx statuses', () => {
+    expect(['404', '4XX', '500'].every(isErrorStatus)).toBe(true)
+    expect(['200', '302', '3XX', 'default'].some(isErrorStatus)).toBe(false)
+  })
+})
+
+describe('fieldAccess', () => {
+  it('should bracket segments that are not identifiers', () => {
+    expect(fieldAccess('body', 'error.message')).toBe('body.error.message')
+    expect(fieldAccess('body', 'error-description')).toBe('body[\'error-description\']')
+    expect(fieldAccess('body', 'error.it\'s')).toBe('body.error[\'it\\\'s\']')
+  })
+
+  it('should chain optionally past the first segment', () => {
+    expect(fieldAccess('response', 'links.pages.next', true)).toBe('response.links?.pages?.next')
+    expect(fieldAccess('response', 'meta.next-page', true)).toBe('response.meta?.[\'next-page\']')
+    expect(fieldAccess('response', 'next-page', true)).toBe('response[\'next-page\']')
+  })
+})
@@ -0,0 +1,58 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+import { describe, expect, it } from 'vitest'
+import { toErrorBody, toMcpError, ToolError, withMcpErrors, withToolErrors } from '../../src/errors'
+
+describe('toErrorBody', () => {
+  it('should keep the code and suggestions of a ToolError', () => {
+    const error = new ToolError('API_NOT_FOUND', 'API "kratos" not found', ['ory/kratos'])
+
+    expect(toErrorBody(error)).toEqual({ code: 'API_NOT_FOUND', message: 'API "kratos" not found', suggestions: ['ory/kratos'] })
+  })
+
+  it('should report other errors as internal', () => {
+    expect(toErrorBody(new TypeError('boom'))).toEqual({ code: 'INTERNAL_ERROR', message: 'boom', suggestions: [] })
+    expect(toErrorBody('plain')).toMatchObject({ code: 'INTERNAL_ERROR', message: 'plain' })
+  })
+})
+
+describe('withToolErrors', () => {
+  it('should turn thrown errors into isError results', async () => {
+    const handler = withToolErrors(async (path: string) => {
+      throw new ToolError('PATH_NOT_FOUND', `Path not found: ${path}`, ['/servers/{id}'])
+    })
+
+    const result = await handler('/server/1')
+
+    expect(result.isError).toBe(true)
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({
+      error: { code: 'PATH_NOT_FOUND', message: 'Path not found: /server/1', suggestions: ['/servers/{id}'] },
+    })
+  })
+
+  it('should pass results through', async () => {
+    const handler = withToolErrors(async () => ({ content: [{ type: 'text' as const, text: 'ok' }] }))
+
+    expect(await handler()).toEqual({ content: [{ type: 'text', text: 'ok' }] })
+  })
+})
+
+describe('withMcpErrors', () => {
+  it('should rethrow errors as McpErrors carrying the body as data', async () => {
+    const handler = withMcpErrors(async () => {
+      throw new ToolError('SCHEMA_NOT_FOUND', 'Schema "Servr" not found', ['Server'])
+    })
+
+    const error = await handler().catch(error => error)
+
+    expect(error).toBeInstanceOf(McpError)
+    expect(error.code).toBe(ErrorCode.InvalidParams)
+    expect(error.data).toEqual({ code: 'SCHEMA_NOT_FOUND', message: 'Schema "Servr" not found', suggestions: ['Server'] })
+  })
+
+  it('should map unexpected errors to internal errors and keep McpErrors', () => {
+    const original = new McpError(ErrorCode.MethodNotFound, 'nope')
+
+    expect(toMcpError(new Error('boom')).code).toBe(ErrorCode.InternalError)
+    expect(toMcpError(original)).toBe(original)
+  })
+})
@@ -0,0 +1,144 @@
+import type { AddressInfo } from 'node:net'
+import type { OpenAPIDocument } from '../../src/types'
+import { mkdtempSync, readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ToolError } from '../../src/errors'
+import { AuditLog, prepareRequest, redactHeaders, sendRequest } from '../../src/executor'
+import { findOperation } from '../../src/spec-utils'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/servers/{id}': {
+      get: {
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+          { name: 'label', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+        ],
+        responses: {},
+      },
+    },
+    '/servers': {
+      post: {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } },
+        },
+        responses: {},
+      },
+    },
+  },
+}
+
+describe('prepareRequest', () => {
+  it('should assemble the exact URL and headers', () => {
+    const { request } = prepareRequest(
+      spec,
+      findOperation(spec, '/servers/{id}', 'get')!,
+      { path: { id: 42 }, query: { label: ['a', 'b'] } },
+      { headers: { Authorization: 'Bearer secret-token-1234' } },
+    )
+
+    expect(request?.url).toBe('https://api.example.com/v1/servers/42?label=a&label=b')
+    expect(request?.headers).toEqual({ Accept: 'application/json', Authorization: 'Bearer secret-token-1234' })
+  })
+
+  it('should refuse invalid requests', () => {
+    const { request, validation } = prepareRequest(spec, findOperation(spec, '/servers', 'post')!, { body: {} })
+
+    expect(request).toBeNull()
+    expect(validation.errors[0]).toMatchObject({ pointer: '/body/name', code: 'required' })
+  })
+
+  it('should ask for a target base URL when the spec declares no servers', () => {
+    const serverless = { ...spec, servers: undefined }
+    const prepare = () => prepareRequest(serverless, findOperation(serverless, '/servers/{id}', 'get')!, { path: { id: 1 } }, {}, 'ory/kratos')
+
+    expect(prepare).toThrow(ToolError)
+    expect(prepare).toThrow(expect.objectContaining({ code: 'NO_BASE_URL', message: expect.stringContaining('SUFETCH_EXECUTE_TARGETS["ory/kratos"].baseURL') }))
+    expect(prepareRequest(serverless, findOperation(serverless, '/servers/{id}', 'get')!, { path: { id: 1 } }, { baseURL: 'http://localhost:4434' }).request?.url)
+      .toBe('http://localhost:4434/servers/1')
+  })
+})
+
+describe('redactHeaders', () => {
+  it('should mask credentials', () => {
+    expect(redactHeaders({ 'Authorization': 'Bearer secret-token-1234', 'X-Api-Key': 'short', 'Accept': 'application/json' })).toEqual({
+      'Authorization': 'Bearer ****1234',
+      'X-Api-Key': '****',
+      'Accept': 'application/json',
+    })
+  })
+})
+
+describe('sendRequest', () => {
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      const status = req.url?.startsWith('/v1/servers/404') ? 404 : 200
+      res.writeHead(status, { 'Content-Type': 'application/json', 'X-Request-Id': 'abc' })
+      res.end(JSON.stringify({ method: req.method, url: req.url, auth: req.headers.authorization, body: body ? JSON.parse(body) : null }))
+    })
+  })
+  let baseURL = ''
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('should send through apiful and return status, headers and body', async () => {
+    const { request } = prepareRequest(spec, findOperation(spec, '/servers/{id}', 'get')!, { path: { id: 7 } }, {
+      baseURL,
+      headers: { Authorization: 'Bearer token' },
+    })
+
+    const result = await sendRequest(request!, 5000)
+
+    expect(result.status).toBe(200)
+    expect(result.headers['x-request-id']).toBe('abc')
+    expect(result.body).toEqual({ method: 'GET', url: '/v1/servers/7', auth: 'Bearer token', body: null })
+  })
+
+  it('should return error statuses instead of throwing', async () => {
+    const { request } = prepareRequest(spec, findOperation(spec, '/servers/{id}', 'get')!, { path: { id: 404 } }, { baseURL })
+
+    const result = await sendRequest(request!, 5000)
+
+    expect(result.status).toBe(404)
+  })
+
+  it('should send JSON bodies', async () => {
+    const { request } = prepareRequest(spec, findOperation(spec, '/servers', 'post')!, { body: { name: 'web' } }, { baseURL })
+
+    const result = await sendRequest(request!, 5000)
+
+    expect(result.body).toMatchObject({ method: 'POST', body: { name: 'web' } })
+  })
+})
+
+describe('auditLog', () => {
+  it('should keep recent entries and append JSON lines', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sufetch-audit-')), 'audit.log')
+    const log = new AuditLog(file, 2)
+
+    for (const status of [200, 201, 204]) {
+      log.record({ timestamp: 'now', api: 'fixture', method: 'GET', url: '/x', dryRun: false, status })
+    }
+
+    expect(log.entries().map(e => e.status)).toEqual([201, 204])
+    expect(readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(3)
+  })
+})
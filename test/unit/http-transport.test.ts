@@ -0,0 +1,98 @@
+import type { HttpServerHandle } from '../../src/http-transport'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { afterEach, describe, expect, it } from 'vitest'
+import { startHttpServer } from '../../src/http-transport'
+
+function createServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' })
+  server.tool('ping', 'Reply with pong', async () => ({ content: [{ type: 'text', text: 'pong' }] }))
+  return server
+}
+
+async function ping(client: Client): Promise<unknown> {
+  const result = await client.callTool({ name: 'ping', arguments: {} })
+  return (result.content as Array<{ text: string }>)[0]?.text
+}
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle | undefined
+
+  afterEach(async () => {
+    await handle?.close()
+    handle = undefined
+  })
+
+  it('should serve concurrent streamable HTTP sessions', async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, createServer })
+
+    const clients = [new Client({ name: 'a', version: '1' }), new Client({ name: 'b', version: '1' })]
+    for (const client of clients) {
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)))
+    }
+
+    expect(await Promise.all(clients.map(ping))).toEqual(['pong', 'pong'])
+    expect(handle.sessionCount()).toBe(2)
+
+    await Promise.all(clients.map(client => client.close()))
+  })
+
+  it('should close streamable HTTP sessions that stay idle', async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, sessionIdleTimeout: 50, createServer })
+
+    const client = new Client({ name: 'idle', version: '1' })
+    const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`))
+    await client.connect(transport)
+    expect(handle.sessionCount()).toBe(1)
+
+    await new Promise(resolve => setTimeout(resolve, 200))
+    expect(handle.sessionCount()).toBe(0)
+
+    const expired = await fetch(`${handle.url}/mcp`, { method: 'POST', headers: { 'mcp-session-id': transport.sessionId! }, body: '{}' })
+    expect(expired.status).toBe(404)
+    await client.close()
+  })
+
+  it('should serve legacy SSE sessions', async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, createServer })
+
+    const client = new Client({ name: 'sse', version: '1' })
+    await client.connect(new SSEClientTransport(new URL(`${handle.url}/sse`)))
+
+    expect(await ping(client)).toBe('pong')
+    await client.close()
+  })
+
+  it('should require the bearer token when one is configured', async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, authToken: 'secret', createServer })
+
+    const denied = await fetch(`${handle.url}/mcp`, { method: 'POST', body: '{}' })
+    expect(denied.status).toBe(401)
+    expect(denied.headers.get('www-authenticate')).toBe('Bearer')
+
+    const client = new Client({ name: 'auth', version: '1' })
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer secret' } },
+    }))
+    expect(await ping(client)).toBe('pong')
+    await client.close()
+  })
+
+  it('should reject requests without a session', async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, createServer })
+
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+    expect(response.status).toBe(400)
+
+    const unknown = await fetch(`${handle.url}/mcp`, { method: 'POST', headers: { 'mcp-session-id': 'nope' }, body: '{}' })
+    expect(unknown.status).toBe(404)
+
+    expect(await (await fetch(`${handle.url}/health`)).json()).toEqual({ status: 'ok', sessions: 0 })
+  })
+})
@@ -0,0 +1,70 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { allowsNull, isOpenAPI31, primaryType, resolveSchemaIds, schemaExample, schemaIdPointer, withoutNull } from '../../src/json-schema'
+
+function spec(document: Record<string, unknown>): OpenAPIDocument {
+  return { openapi: '3.1.0', info: { title: 'Test', version: '1' }, paths: {}, ...document } as OpenAPIDocument
+}
+
+describe('schema helpers', () => {
+  it('should detect OpenAPI 3.1', () => {
+    expect(isOpenAPI31({ openapi: '3.1.0' })).toBe(true)
+    expect(isOpenAPI31({ openapi: '3.0.3' })).toBe(false)
+  })
+
+  it('should read type lists and nullable in both dialects', () => {
+    expect(primaryType({ type: ['null', 'string'] })).toBe('string')
+    expect(primaryType({ type: 'null' })).toBe('null')
+    expect(primaryType({ const: 3 })).toBe('integer')
+    expect(primaryType({ prefixItems: [{ type: 'string' }] })).toBe('array')
+    expect(allowsNull({ type: ['string', 'null'] })).toBe(true)
+    expect(allowsNull({ type: 'string', nullable: true })).toBe(true)
+    expect(allowsNull({ type: 'string' })).toBe(false)
+  })
+
+  it('should unwrap nullable unions and read examples arrays', () => {
+    expect(withoutNull({ anyOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'null' }] })).toEqual({ $ref: '#/components/schemas/Pet' })
+    expect(withoutNull({ oneOf: [{ type: 'string' }, { type: 'integer' }] })).toHaveProperty('oneOf')
+    expect(schemaExample({ examples: ['a', 'b'] })).toBe('a')
+    expect(schemaExample({ example: 'x', examples: ['a'] })).toBe('x')
+  })
+})
+
+describe('resolveSchemaIds', () => {
+  const document = spec({
+    components: {
+      schemas: {
+        Pet: {
+          $id: 'https://example.com/schemas/pet',
+          type: 'object',
+          properties: { tag: { $ref: '#/$defs/tag' }, owner: { $ref: 'owner' } },
+          $defs: { tag: { $anchor: 'tag', type: 'string' } },
+        },
+        Owner: { $id: 'https://example.com/schemas/owner', type: 'object', properties: { pet: { $ref: 'pet#tag' } } },
+        Local: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Owner' } } },
+      },
+    },
+  })
+
+  it('should rewrite $id and $anchor refs into pointers from the document root', () => {
+    const schemas = resolveSchemaIds(document).components?.schemas as Record<string, any>
+
+    expect(schemas.Pet.properties).toEqual({
+      tag: { $ref: '#/components/schemas/Pet/$defs/tag' },
+      owner: { $ref: '#/components/schemas/Owner' },
+    })
+    expect(schemas.Owner.properties.pet).toEqual({ $ref: '#/components/schemas/Pet/$defs/tag' })
+    expect(schemas.Local).toBe((document.components?.schemas as any).Local)
+  })
+
+  it('should resolve refs by absolute $id', () => {
+    expect(schemaIdPointer(document, 'https://example.com/schemas/owner')).toBe('#/components/schemas/Owner')
+    expect(schemaIdPointer(document, 'https://example.com/schemas/missing')).toBeNull()
+  })
+
+  it('should leave specs without ids unchanged', () => {
+    const plain = spec({ components: { schemas: { A: { $ref: '#/components/schemas/B' } } } })
+
+    expect(resolveSchemaIds(plain)).toBe(plain)
+  })
+})
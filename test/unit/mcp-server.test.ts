@@ -0,0 +1,184 @@
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+// Loading and linting every shipped spec takes a while on a cold start
+const STARTUP_TIMEOUT = 60_000
+
+async function startServer(env: Record<string, string> = {}): Promise<Client> {
+  const client = new Client({ name: 'test', version: '1.0.0' })
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', 'src/mcp-server.ts'],
+    cwd: process.cwd(),
+    env: { ...process.env as Record<string, string>, SUFETCH_WATCH: 'false', SUFETCH_DEBUG: 'false', ...env },
+    stderr: 'ignore',
+  }))
+  return client
+}
+
+describe('mcp server cli', () => {
+  it('should print the package version for --version', () => {
+    const output = execFileSync(process.execPath, ['--import', 'tsx', 'src/mcp-server.ts', '--version'], { encoding: 'utf-8' })
+
+    expect(output).toBe(`${JSON.parse(readFileSync('package.json', 'utf-8')).version}\n`)
+  }, STARTUP_TIMEOUT)
+})
+
+describe('mcp server', () => {
+  let client: Client
+
+  beforeAll(async () => {
+    client = await startServer()
+  }, STARTUP_TIMEOUT)
+
+  afterAll(async () => {
+    await client.close()
+  })
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await client.callTool({ name, arguments: args })
+    return (result.content as Array<{ text: string }>)[0]!.text
+  }
+
+  describe('generate_code_example', () => {
+    it('should declare query parameters shared via $ref before paginating with them', async () => {
+      // Every query parameter of GET /v2/droplets is a $ref to components.parameters
+      const text = await callTool('generate_code_example', { api_name: 'digitalocean/api', path: '/v2/droplets', method: 'GET' })
+
+      expect(text).toContain('type QueryParams = ')
+      expect(text).toContain('const queryParams: QueryParams = {')
+      expect(text).toContain('  tag_name: ')
+      expect(text).toContain('      ...queryParams,')
+    })
+
+    it('should fill in path parameters shared via $ref', async () => {
+      const text = await callTool('generate_code_example', { api_name: 'digitalocean/api', path: '/v2/droplets/{droplet_id}', method: 'GET' })
+
+      expect(text).toContain('type PathParams = ')
+      // eslint-disable-next-line no-template-curly-in-string
+      expect(text).toContain('`/v2/droplets/${pathParams.droplet_id}`')
+    })
+
+    it('should only handle 4xx and 5xx responses as errors', async () => {
+      // 302 and default only
+      const redirect = await callTool('generate_code_example', { api_name: 'ory/hydra', operation_id: 'oAuth2Authorize' })
+      expect(redirect).not.toContain('ErrorResponses')
+      expect(redirect).not.toContain('catch (error)')
+
+      const text = await callTool('generate_code_example', { api_name: 'digitalocean/api', path: '/v2/droplets', method: 'GET' })
+      expect(text).toContain('type ErrorResponses = ')
+      expect(text).toContain('status === 401')
+    })
+  })
+
+  describe('diff_specs', () => {
+    it('should compare against a base file inside the specs directory', async () => {
+      const diff = JSON.parse(await callTool('diff_specs', { api_name: 'hetzner/cloud', base_file: 'hetzner/cloud.json' }))
+
+      expect(diff.changes).toEqual([])
+    })
+
+    it('should refuse base files outside the specs directory', async () => {
+      for (const base_file of ['../package.json', '/etc/hostname']) {
+        const { error } = JSON.parse(await callTool('diff_specs', { api_name: 'hetzner/cloud', base_file }))
+
+        expect(error.code).toBe('INVALID_ARGUMENTS')
+        expect(error.message).toContain('must be inside the specs directory')
+      }
+    })
+  })
+
+  describe('resources', () => {
+    it('should list only the per-API resources and leave the rest to templates', async () => {
+      const { resources } = await client.listResources()
+      const { resourceTemplates } = await client.listResourceTemplates()
+
+      expect(resources.map(resource => resource.uri)).toContain('sufetch://hetzner/cloud/spec')
+      expect(resources.every(resource => /^sufetch:\/\/.+\/(?:spec|types)$/.test(resource.uri))).toBe(true)
+      expect(resourceTemplates.map(template => template.uriTemplate)).toContain('sufetch://{+api}/operations/{operationId}')
+
+      const { contents } = await client.readResource({ uri: 'sufetch://hetzner/cloud/operations/get_server' })
+      expect(JSON.parse((contents[0] as { text: string }).text)).toMatchObject({ path: '/servers/{id}', method: 'GET' })
+    })
+  })
+
+  describe('get_quickstart', () => {
+    it('should authenticate with operation-level security', async () => {
+      // Kratos declares no global security; its admin endpoints require oryAccessToken
+      const text = await callTool('get_quickstart', { api_name: 'ory/kratos' })
+
+      expect(text).toContain('\'Authorization\': YOUR_API_KEY,')
+    })
+  })
+})
+
+describe('mcp server with a fixture spec', () => {
+  let dir: string
+  let client: Client
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sufetch-specs-'))
+    mkdirSync(join(dir, 'demo'))
+    writeFileSync(join(dir, 'demo', 'api.json'), JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Demo', version: '1.0.0' },
+      servers: [{ url: 'https://api.example.com' }],
+      paths: {
+        '/items': {
+          get: { operationId: 'listItems', security: [{ digest: [] }], responses: { 200: { description: 'OK' } } },
+          post: { operationId: 'createItem', responses: { 201: { description: 'Created' } } },
+        },
+        '/items/{id}': {
+          get: {
+            operationId: 'getItem',
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+            responses: { 200: { description: 'OK' } },
+          },
+        },
+      },
+      components: { securitySchemes: { digest: { type: 'http', scheme: 'digest' } } },
+    }))
+    client = await startServer({ SUFETCH_SPECS_DIR: dir, SUFETCH_EXECUTE: 'true', SUFETCH_EXECUTE_AUDIT_LOG: join(dir, 'audit.log') })
+  }, STARTUP_TIMEOUT)
+
+  afterAll(async () => {
+    await client.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await client.callTool({ name, arguments: args })
+    return (result.content as Array<{ text: string }>)[0]!.text
+  }
+
+  it('should say HTTP Digest is unsupported instead of sending a bearer token', async () => {
+    for (const [name, args] of [['generate_code_example', { api_name: 'demo/api', operation_id: 'listItems' }], ['get_quickstart', { api_name: 'demo/api' }]] as const) {
+      const text = await callTool(name, args)
+
+      expect(text).not.toContain('Bearer')
+      expect(text).toContain('// digest: HTTP digest authentication is not supported here')
+    }
+  })
+
+  it('should audit calls refused for their method', async () => {
+    const { error } = JSON.parse(await callTool('execute_request', { api_name: 'demo/api', path: '/items', method: 'POST' }))
+
+    expect(error.code).toBe('METHOD_NOT_ALLOWED')
+    const entries = readFileSync(join(dir, 'audit.log'), 'utf-8').trim().split('\n').map(line => JSON.parse(line))
+    expect(entries.at(-1)).toMatchObject({ api: 'demo/api', method: 'POST', url: 'https://api.example.com/items', dryRun: false, refused: 'POST is not in SUFETCH_EXECUTE_METHODS' })
+  })
+
+  it('should audit and reject requests that fail validation', async () => {
+    const { error } = JSON.parse(await callTool('execute_request', { api_name: 'demo/api', path: '/items/{id}', method: 'GET', path_params: {} }))
+
+    expect(error.code).toBe('VALIDATION_FAILED')
+    expect(error.details.errors[0]).toMatchObject({ pointer: '/path/id', code: 'required' })
+    const entries = readFileSync(join(dir, 'audit.log'), 'utf-8').trim().split('\n').map(line => JSON.parse(line))
+    expect(entries.at(-1)).toMatchObject({ api: 'demo/api', method: 'GET', url: '/items/{id}', refused: 'validation failed' })
+  })
+})
@@ -0,0 +1,106 @@
+import type { RefResolver } from '../../src/schema-resolver'
+import { describe, expect, it } from 'vitest'
+import { generateMock, mockResponse } from '../../src/mock-generator'
+import { findOperation, listOperations, resolvePointer } from '../../src/spec-utils'
+import { validateResponse, validateValue } from '../../src/validator'
+import { loadSpec } from '../helpers'
+
+const components = {
+  Pet: {
+    oneOf: [{ $ref: '#/components/Cat' }, { $ref: '#/components/Dog' }],
+    discriminator: { propertyName: 'kind', mapping: { cat: '#/components/Cat', dog: '#/components/Dog' } },
+  },
+  Cat: { type: 'object', required: ['kind', 'lives'], properties: { kind: { type: 'string' }, lives: { type: 'integer', minimum: 1, maximum: 9 } } },
+  Dog: { type: 'object', required: ['kind', 'bark'], properties: { kind: { type: 'string' }, bark: { type: 'string', enum: ['woof', 'yap'] } } },
+  Node: { type: 'object', required: ['children'], properties: { children: { type: 'array', items: { $ref: '#/components/Node' } } } },
+}
+const resolveRef: RefResolver = ref => resolvePointer({ components }, ref)
+
+describe('generateMock', () => {
+  it('should be deterministic for a seed', () => {
+    const schema = { type: 'object', properties: { id: { type: 'string', format: 'uuid' }, size: { type: 'integer' } } }
+
+    expect(generateMock(schema, resolveRef, { seed: 1 })).toEqual(generateMock(schema, resolveRef, { seed: 1 }))
+    expect(generateMock(schema, resolveRef, { seed: 1 })).not.toEqual(generateMock(schema, resolveRef, { seed: 2 }))
+  })
+
+  it('should honor formats, bounds and enums', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        created: { type: 'string', format: 'date-time' },
+        email: { type: 'string', format: 'email' },
+        port: { type: 'integer', minimum: 1024, maximum: 1030 },
+        ratio: { type: 'number', minimum: 0, exclusiveMaximum: 1 },
+        step: { type: 'integer', multipleOf: 5, minimum: 7 },
+        code: { type: 'string', minLength: 30, maxLength: 30 },
+        level: { type: 'string', enum: ['low', 'high'] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 3, maxItems: 3, uniqueItems: true },
+      },
+    }
+
+    for (const seed of [1, 2, 3]) {
+      const value = generateMock(schema, resolveRef, { seed }) as any
+      expect(validateValue(schema, value, resolveRef)).toEqual([])
+      expect(value.step % 5).toBe(0)
+      expect(new Set(value.tags).size).toBe(3)
+    }
+  })
+
+  it('should generate the chosen oneOf variant with its discriminator', () => {
+    expect(generateMock({ $ref: '#/components/Pet' }, resolveRef, { seed: 1 })).toMatchObject({ kind: 'cat', lives: expect.any(Number) })
+    expect(generateMock({ $ref: '#/components/Pet' }, resolveRef, { seed: 1, variant: 1 })).toMatchObject({ kind: 'dog' })
+  })
+
+  it('should merge allOf members', () => {
+    const value = generateMock({ allOf: [{ $ref: '#/components/Cat' }, { properties: { name: { type: 'string' } } }] }, resolveRef, { seed: 1 })
+
+    expect(value).toEqual({ kind: expect.any(String), lives: expect.any(Number), name: expect.any(String) })
+  })
+
+  it('should stop at recursive refs', () => {
+    const value = generateMock({ $ref: '#/components/Node' }, resolveRef, { seed: 1 }) as any
+
+    expect(value.children.every((child: any) => Array.isArray(child.children) && child.children.length === 0)).toBe(true)
+  })
+
+  it('should prefer valid spec examples', () => {
+    expect(generateMock({ type: 'integer', example: 42 }, resolveRef, { seed: 1 })).toBe(42)
+    expect(generateMock({ type: 'integer', example: 'x' }, resolveRef, { seed: 1 })).toEqual(expect.any(Number))
+    expect(generateMock({ type: 'integer', example: 42 }, resolveRef, { seed: 1, useExamples: false })).not.toBe(42)
+  })
+
+  it('should read OpenAPI 3.1 schemas', () => {
+    expect(generateMock({ type: 'integer', examples: [7, 8] }, resolveRef, { seed: 1 })).toBe(7)
+    expect(generateMock({ type: ['null', 'boolean'] }, resolveRef, { seed: 1 })).toEqual(expect.any(Boolean))
+    expect(generateMock({ const: 'v1' }, resolveRef, { seed: 1 })).toBe('v1')
+    expect(generateMock({ type: 'array', prefixItems: [{ type: 'number' }, { type: 'string', enum: ['m'] }] }, resolveRef, { seed: 1 })).toEqual([expect.any(Number), 'm'])
+  })
+})
+
+describe('mockResponse', () => {
+  it('should mock the first 2xx response by default', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+    const mock = mockResponse(hetzner, findOperation(hetzner, '/servers/{id}', 'get')!, undefined, { seed: 3 })
+
+    expect(mock).toMatchObject({ status: '200', mediaType: 'application/json', seed: 3 })
+    expect((mock.body as any).server).toHaveProperty('id')
+  })
+
+  it('should throw for undeclared statuses', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+
+    expect(() => mockResponse(hetzner, findOperation(hetzner, '/servers/{id}', 'get')!, 404)).toThrow(/Declared: 200/)
+  })
+
+  it.each(['hetzner/cloud.json', 'ory/kratos.json', 'ory/hydra.json'])('should produce valid responses for %s', (file) => {
+    const spec = loadSpec(file)
+
+    for (const entry of listOperations(spec)) {
+      for (const status of Object.keys(entry.operation.responses || {}).filter(code => /^\d{3}$/.test(code))) {
+        const mock = mockResponse(spec, entry, status, { seed: 42 })
+        expect(validateResponse(spec, entry, status, mock.body).errors, `${entry.method} ${entry.path} ${status}`).toEqual([])
+      }
+    }
+  })
+})
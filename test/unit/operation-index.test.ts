@@ -0,0 +1,63 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { OperationIndex } from '../../src/operation-index'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/droplets': {
+      get: { operationId: 'droplets_list', tags: ['Droplets'], responses: {} },
+      post: { operationId: 'droplets_create', tags: ['Droplets'], responses: {} },
+    },
+    '/droplets/{id}': {
+      get: { operationId: 'droplets_get', responses: {} },
+      delete: { operationId: 'droplets_list', responses: {} },
+    },
+    '/health': {
+      get: { responses: {} },
+    },
+  },
+}
+
+describe('operationIndex', () => {
+  const index = new OperationIndex()
+  index.addSpec('digitalocean/api', spec)
+  index.addSpec('other/api', { ...spec, paths: { '/other': { get: { operationId: 'droplets_create', responses: {} } } } })
+
+  it('should map an operationId to path and method', () => {
+    expect(index.find('droplets_create', 'digitalocean/api')).toEqual([{
+      api: 'digitalocean/api',
+      operationId: 'droplets_create',
+      path: '/droplets',
+      method: 'POST',
+      summary: undefined,
+      tags: ['Droplets'],
+    }])
+  })
+
+  it('should fall back to a case-insensitive match', () => {
+    expect(index.find('Droplets_Get', 'digitalocean/api').map(op => op.path)).toEqual(['/droplets/{id}'])
+  })
+
+  it('should search all APIs when none is given', () => {
+    expect(index.find('droplets_create').map(op => op.api)).toEqual(['digitalocean/api', 'other/api'])
+  })
+
+  it('should report duplicates within an API only', () => {
+    expect(index.duplicates()).toEqual([{
+      api: 'digitalocean/api',
+      operationId: 'droplets_list',
+      operations: [{ path: '/droplets', method: 'GET' }, { path: '/droplets/{id}', method: 'DELETE' }],
+    }])
+  })
+
+  it('should forget a removed API', () => {
+    const scoped = new OperationIndex()
+    scoped.addSpec('digitalocean/api', spec)
+    scoped.removeSpec('digitalocean/api')
+
+    expect(scoped.find('droplets_create')).toEqual([])
+    expect(scoped.ids()).toEqual([])
+  })
+})
@@ -0,0 +1,102 @@
+import { Buffer } from 'node:buffer'
+import { describe, expect, it } from 'vitest'
+import { OutputCache, projectFields, shapeOutput, sliceText } from '../../src/output'
+
+const endpoint = {
+  path: '/servers/{id}',
+  method: 'GET',
+  endpoint: {
+    operationId: 'get_server',
+    description: 'x'.repeat(2000),
+    parameters: [{ name: 'id', in: 'path' }, { name: 'expand', in: 'query' }],
+  },
+}
+
+describe('projectFields', () => {
+  it('should keep only the listed dot paths, traversing arrays', () => {
+    expect(projectFields(endpoint, ['path', 'endpoint.parameters.name'])).toEqual({
+      path: '/servers/{id}',
+      endpoint: { parameters: [{ name: 'id' }, { name: 'expand' }] },
+    })
+  })
+
+  it('should reject fields that match nothing and suggest top-level keys', () => {
+    expect(() => projectFields(endpoint, ['nope'])).toThrow(expect.objectContaining({
+      code: 'INVALID_ARGUMENTS',
+      suggestions: ['path', 'method', 'endpoint'],
+    }))
+  })
+})
+
+describe('shapeOutput', () => {
+  it('should mark shortened strings and arrays at the standard level', () => {
+    const shaped = shapeOutput({ ...endpoint, items: Array.from({ length: 150 }, (_, index) => index) }) as any
+
+    expect(shaped.endpoint.description).toMatch(/x-omitted: 1000 more characters\]$/)
+    expect(shaped.items).toHaveLength(101)
+    expect(shaped.items.at(-1)).toEqual({ 'x-omitted': '50 more items' })
+  })
+
+  it('should collapse deep nesting in summaries and keep everything in full', () => {
+    const nested = { a: { b: { c: { d: 1 } } } }
+
+    expect(shapeOutput(nested, { detail: 'summary' })).toEqual({ a: { b: { c: { 'x-omitted': expect.stringContaining('object with 1 keys') } } } })
+    expect(shapeOutput(endpoint, { detail: 'full' })).toEqual(endpoint)
+  })
+})
+
+describe('sliceText', () => {
+  it('should cut at a line break within the budget', () => {
+    const text = 'aaaa\nbbbb\ncccc\n'
+
+    expect(sliceText(text, 0, 12)).toEqual({ text: 'aaaa\nbbbb\n', next: 10 })
+    expect(sliceText(text, 10, 12)).toEqual({ text: 'cccc\n', next: null })
+  })
+
+  it('should count UTF-8 bytes and never split a character', () => {
+    const chunk = sliceText('ééé😀', 0, 7)
+
+    expect(chunk).toEqual({ text: 'ééé', next: 3 })
+    expect(sliceText('😀', 0, 2)).toEqual({ text: '😀', next: null })
+  })
+})
+
+describe('outputCache', () => {
+  const result = (text: string) => ({ content: [{ type: 'text' as const, text }] })
+
+  it('should pass small results and errors through', () => {
+    const cache = new OutputCache()
+
+    expect(cache.paginate(result('short'), 100)).toEqual(result('short'))
+    expect(cache.paginate({ ...result('x'.repeat(200)), isError: true }, 100).content).toHaveLength(1)
+  })
+
+  it('should cut large results and continue them by cursor', () => {
+    const cache = new OutputCache()
+    const text = `${JSON.stringify({ items: Array.from({ length: 100 }, (_, index) => ({ index })) }, null, 2)}`
+
+    let page = cache.paginate(result(text), 1000)
+    let combined = ''
+    for (;;) {
+      const [chunk, notice] = page.content as Array<{ text: string }>
+      combined += chunk!.text
+      const { truncated, cursor } = JSON.parse(notice!.text)
+      if (!truncated) {
+        break
+      }
+      expect(Buffer.byteLength(chunk!.text)).toBeLessThanOrEqual(1000)
+      page = cache.continue(cursor, 1000)
+    }
+
+    expect(combined).toBe(text)
+  })
+
+  it('should evict old results and reject unknown cursors', () => {
+    const cache = new OutputCache(1)
+    const first = JSON.parse((cache.paginate(result('a\n'.repeat(100)), 50).content[1] as { text: string }).text)
+    cache.paginate(result('b\n'.repeat(100)), 50)
+
+    expect(() => cache.continue(first.cursor, 50)).toThrow(/unknown or has expired/)
+    expect(() => cache.continue('nonsense', 50)).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENTS' }))
+  })
+})
@@ -0,0 +1,89 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { detectPagination } from '../../src/pagination'
+import { findOperation } from '../../src/spec-utils'
+import { loadSpec } from '../helpers'
+
+function fixture(parameters: string[], schema: Record<string, unknown>): OpenAPIDocument {
+  return {
+    openapi: '3.0.0',
+    info: { title: 'Fixture', version: '1.0.0' },
+    paths: {
+      '/items': {
+        get: {
+          parameters: parameters.map(name => ({ name, in: 'query', schema: { type: 'integer' } })),
+          responses: { 200: { description: 'OK', content: { 'application/json': { schema } } } },
+        },
+      },
+    },
+  } as OpenAPIDocument
+}
+
+describe('detectPagination', () => {
+  it('should read Hetzner next page numbers from the meta envelope', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+
+    expect(detectPagination(hetzner, findOperation(hetzner, '/servers', 'get')!)).toEqual({
+      style: 'page',
+      pageParam: 'page',
+      sizeParam: 'per_page',
+      itemsField: 'servers',
+      next: { source: 'field', location: 'meta.pagination.next_page' },
+      total: { source: 'body', location: 'meta.pagination.total_entries' },
+    })
+  })
+
+  it('should read DigitalOcean next page URLs from links', () => {
+    const digitalocean = loadSpec('digitalocean/api.json')
+
+    expect(detectPagination(digitalocean, findOperation(digitalocean, '/v2/droplets', 'get')!)).toMatchObject({
+      style: 'page',
+      maxPageSize: 200,
+      itemsField: 'droplets',
+      next: { source: 'link', location: 'links.pages.next' },
+      total: { source: 'body', location: 'meta.total' },
+    })
+  })
+
+  it('should use the Link header for Ory page tokens', () => {
+    const kratos = loadSpec('ory/kratos.json')
+
+    expect(detectPagination(kratos, findOperation(kratos, '/admin/identities', 'get')!)).toEqual({
+      style: 'cursor',
+      pageParam: 'page_token',
+      sizeParam: 'page_size',
+      maxPageSize: 500,
+      itemsField: '',
+      next: { source: 'header', location: 'link' },
+      total: { source: 'header', location: 'x-total-count' },
+    })
+  })
+
+  it('should return null for operations that are not paginated', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+
+    expect(detectPagination(hetzner, findOperation(hetzner, '/servers/{id}', 'get')!)).toBeNull()
+    expect(detectPagination(hetzner, findOperation(hetzner, '/servers', 'post')!)).toBeNull()
+  })
+
+  it('should fall back to short pages when no next marker exists', () => {
+    const spec = fixture(['offset', 'limit'], {
+      type: 'object',
+      properties: { results: { type: 'array', items: { type: 'object' } } },
+    })
+
+    expect(detectPagination(spec, findOperation(spec, '/items', 'get')!)).toEqual({
+      style: 'offset',
+      pageParam: 'offset',
+      sizeParam: 'limit',
+      itemsField: 'results',
+      next: { source: 'short-page' },
+    })
+  })
+
+  it('should require an item array in the response', () => {
+    const spec = fixture(['page'], { type: 'object', properties: { name: { type: 'string' } } })
+
+    expect(detectPagination(spec, findOperation(spec, '/items', 'get')!)).toBeNull()
+  })
+})
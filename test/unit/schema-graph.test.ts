@@ -0,0 +1,92 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { SchemaGraph } from '../../src/schema-graph'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/identities': {
+      get: {
+        operationId: 'listIdentities',
+        parameters: [{ $ref: '#/components/parameters/State' }],
+        responses: {
+          200: {
+            description: 'OK',
+            content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Identity' } } } },
+          },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      },
+      post: {
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateIdentityBody' } } } },
+        responses: { 201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Identity' } } } } },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      State: { name: 'state', in: 'query', schema: { $ref: '#/components/schemas/IdentityState' } },
+    },
+    responses: {
+      Error: { description: 'Error', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+    },
+    schemas: {
+      Identity: {
+        type: 'object',
+        description: 'An identity\nwith traits',
+        properties: {
+          state: { $ref: '#/components/schemas/IdentityState' },
+          traits: { $ref: '#/components/schemas/Traits' },
+          manager: { $ref: '#/components/schemas/Identity' },
+        },
+      },
+      CreateIdentityBody: {
+        allOf: [{ type: 'object', properties: { traits: { $ref: '#/components/schemas/Traits' } } }],
+      },
+      IdentityState: { type: 'string', enum: ['active', 'inactive'] },
+      Traits: { type: 'object', additionalProperties: true },
+      Error: { type: 'object', title: 'Generic error', properties: { message: { type: 'string' } } },
+    },
+  },
+}
+
+describe('schemaGraph', () => {
+  const graph = new SchemaGraph(spec)
+
+  it('should page through schemas', () => {
+    expect(graph.list({ offset: 1, limit: 2 })).toMatchObject({
+      total: 5,
+      nextOffset: 3,
+      schemas: [{ name: 'CreateIdentityBody' }, { name: 'IdentityState' }],
+    })
+  })
+
+  it('should list name matches before description matches', () => {
+    const page = graph.list({ query: 'error' })
+    expect(page.schemas).toEqual([{ name: 'Error', type: 'object', description: 'Generic error', propertyCount: 1, operationCount: 1 }])
+    expect(graph.list({ query: 'traits' }).schemas.map(s => s.name)).toEqual(['Traits', 'Identity'])
+  })
+
+  it('should find usages through parameters, bodies, responses and nested schemas', () => {
+    expect(graph.findUsages('IdentityState').operations).toEqual([
+      { operation: 'GET /identities', operationId: 'listIdentities', location: 'parameter:state', fields: [''] },
+      { operation: 'GET /identities', operationId: 'listIdentities', location: 'response:200', fields: ['[].state'] },
+      { operation: 'POST /identities', operationId: undefined, location: 'response:201', fields: ['state'] },
+    ])
+    expect(graph.findUsages('Traits').operations.map(u => [u.location, u.fields])).toEqual([
+      ['response:200', ['[].traits']],
+      ['requestBody', ['traits']],
+      ['response:201', ['traits']],
+    ])
+    expect(graph.findUsages('Error').operations.map(u => u.location)).toEqual(['response:default'])
+  })
+
+  it('should list referencing schemas', () => {
+    expect(graph.findUsages('Traits').referencedBy).toEqual([
+      { schema: 'Identity', field: 'traits' },
+      { schema: 'CreateIdentityBody', field: 'traits' },
+    ])
+    expect(graph.findUsages('Identity').referencedBy).toEqual([{ schema: 'Identity', field: 'manager' }])
+  })
+})
@@ -0,0 +1,113 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { dereferenceSchema, locateSchema } from '../../src/schema-resolver'
+import { findOperation, resolvePointer } from '../../src/spec-utils'
+import { loadSpec } from '../helpers'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/nodes': {
+      post: {
+        requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } } },
+        responses: {
+          201: { description: 'Created', content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } } },
+          default: { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Node: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+        },
+      },
+      Named: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+      Cat: { type: 'object', properties: { meow: { type: 'boolean' } } },
+      Dog: { type: 'object', properties: { bark: { type: 'boolean' } } },
+    },
+    responses: {
+      Error: { description: 'Error', content: { 'application/json': { schema: { type: 'object', properties: { message: { type: 'string' } } } } } },
+    },
+  },
+}
+
+const resolve = (ref: string): unknown => resolvePointer(spec, ref)
+
+describe('dereferenceSchema', () => {
+  it('should inline refs and mark cycles', () => {
+    const result = dereferenceSchema({ $ref: '#/components/schemas/Node' }, resolve)
+
+    expect(result.properties.name).toEqual({ type: 'string' })
+    expect(result.properties.children.items).toEqual({ '$ref': '#/components/schemas/Node', 'x-circular': true })
+  })
+
+  it('should merge allOf members', () => {
+    const result = dereferenceSchema({
+      allOf: [
+        { $ref: '#/components/schemas/Named' },
+        { type: 'object', required: ['age'], properties: { age: { type: 'integer' } } },
+      ],
+    }, resolve)
+
+    expect(result.allOf).toBeUndefined()
+    expect(result.type).toBe('object')
+    expect(Object.keys(result.properties)).toEqual(['name', 'age'])
+    expect(result.required).toEqual(['name', 'age'])
+  })
+
+  it('should label oneOf variants', () => {
+    const result = dereferenceSchema({
+      oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }, { type: 'string' }],
+      discriminator: { propertyName: 'kind', mapping: { kitty: '#/components/schemas/Cat' } },
+    }, resolve)
+
+    expect(result.oneOf.map((v: any) => v['x-variant'])).toEqual(['kitty', 'Dog', 'oneOf #3'])
+  })
+
+  it('should truncate beyond max depth', () => {
+    const result = dereferenceSchema({
+      type: 'object',
+      properties: { a: { type: 'object', properties: { b: { type: 'object', description: 'deep' } } } },
+    }, resolve, { maxDepth: 1 })
+
+    expect(result.properties.a.properties.b).toEqual({ 'x-truncated': true, 'type': 'object', 'description': 'deep' })
+  })
+
+  it('should keep unresolvable refs visible', () => {
+    expect(dereferenceSchema({ $ref: '#/components/schemas/Missing' }, resolve))
+      .toEqual({ '$ref': '#/components/schemas/Missing', 'x-unresolved': true })
+  })
+})
+
+describe('locateSchema', () => {
+  const entry = findOperation(spec, '/nodes', 'POST')!
+
+  it('should locate request and response schemas', () => {
+    expect(locateSchema(spec, entry, 'requestBody')).toEqual({ $ref: '#/components/schemas/Node' })
+    expect(locateSchema(spec, entry, 'response:201')).toEqual({ $ref: '#/components/schemas/Node' })
+    expect(locateSchema(spec, entry, 'response:404')).toHaveProperty('properties.message')
+  })
+
+  it('should reject unknown locations', () => {
+    expect(() => locateSchema(spec, entry, 'parameter:id')).toThrow('has no parameter "id"')
+    expect(() => locateSchema(spec, entry, 'body')).toThrow('Invalid location')
+  })
+
+  it('should resolve inline Hetzner schemas', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+    const servers = findOperation(hetzner, '/servers', 'post')!
+
+    const body = dereferenceSchema(locateSchema(hetzner, servers, 'requestBody'), ref => resolvePointer(hetzner, ref))
+    const id = locateSchema(hetzner, findOperation(hetzner, '/servers/{id}', 'get')!, 'parameter:id')
+
+    expect(body.required).toContain('server_type')
+    expect(id).toHaveProperty('type', 'integer')
+  })
+})
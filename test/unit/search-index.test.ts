@@ -0,0 +1,109 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { SearchIndex, tokenize } from '../../src/search-index'
+import { loadSpec } from '../helpers'
+
+const fixture: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/droplets': {
+      get: { operationId: 'droplets_list', summary: 'List all droplets', tags: ['Droplets'], responses: {} },
+      post: { operationId: 'droplets_create', summary: 'Create a new droplet', tags: ['Droplets'], responses: {} },
+    },
+    '/droplets/{droplet_id}/actions': {
+      post: {
+        operationId: 'dropletActions_post',
+        summary: 'Initiate a droplet action',
+        description: 'Reboot, power off or resize a droplet.',
+        tags: ['Droplet Actions'],
+        parameters: [{ name: 'droplet_id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {},
+      },
+    },
+    '/volumes': {
+      get: { operationId: 'volumes_list', summary: 'List all volumes', tags: ['Block Storage'], responses: {} },
+    },
+  },
+}
+
+describe('tokenize', () => {
+  it('should split camelCase, snake_case and paths', () => {
+    expect(tokenize('dropletActions_post')).toEqual(['droplet', 'action', 'post'])
+    expect(tokenize('/v2/droplets/{droplet_id}')).toEqual(['v2', 'droplet', 'droplet', 'id'])
+  })
+
+  it('should stem simple plurals', () => {
+    expect(tokenize('policies images address')).toEqual(['policy', 'image', 'address'])
+  })
+})
+
+describe('searchIndex', () => {
+  it('should rank description matches', () => {
+    const index = new SearchIndex()
+    index.addSpec('fixture', fixture)
+
+    const results = index.search('resize droplet')
+
+    expect(results[0]?.operationId).toBe('dropletActions_post')
+    expect(results[0]?.api).toBe('fixture')
+  })
+
+  it('should filter by method and respect limit', () => {
+    const index = new SearchIndex()
+    index.addSpec('fixture', fixture)
+
+    const results = index.search('droplet', { method: 'get', limit: 5 })
+
+    expect(results).toHaveLength(1)
+    expect(results[0]?.operationId).toBe('droplets_list')
+  })
+
+  it('should filter by tags case-insensitively', () => {
+    const index = new SearchIndex()
+    index.addSpec('fixture', fixture)
+
+    expect(index.search('droplet', { tags: ['droplet actions'] }).map(r => r.operationId)).toEqual(['dropletActions_post'])
+    expect(index.list({ tags: ['Block Storage'] }).map(r => r.operationId)).toEqual(['volumes_list'])
+  })
+
+  it('should match term prefixes', () => {
+    const index = new SearchIndex()
+    index.addSpec('fixture', fixture)
+
+    expect(index.search('vol')[0]?.operationId).toBe('volumes_list')
+  })
+
+  it('should search across APIs unless one is selected', () => {
+    const index = new SearchIndex()
+    index.addSpec('digitalocean/api', loadSpec('digitalocean/api.json'))
+    index.addSpec('hetzner/cloud', loadSpec('hetzner/cloud.json'))
+
+    const apis = new Set(index.search('server types').map(r => r.api))
+    expect(apis).toContain('hetzner/cloud')
+
+    const scoped = index.search('firewall', { api: 'digitalocean/api' })
+    expect(scoped.length).toBeGreaterThan(0)
+    expect(scoped.every(r => r.api === 'digitalocean/api')).toBe(true)
+  })
+
+  it('should list in spec order when there is no query', () => {
+    const index = new SearchIndex()
+    index.addSpec('fixture', fixture)
+
+    expect(index.list({ limit: 2 }).map(r => r.operationId)).toEqual(['droplets_list', 'droplets_create'])
+  })
+
+  it('should rank as if a removed API had never been added', () => {
+    const fresh = new SearchIndex()
+    fresh.addSpec('fixture', fixture)
+
+    const index = new SearchIndex()
+    index.addSpec('hetzner/cloud', loadSpec('hetzner/cloud.json'))
+    index.addSpec('fixture', fixture)
+    index.removeSpec('hetzner/cloud')
+
+    expect(index.size).toBe(fresh.size)
+    expect(index.search('list droplets')).toEqual(fresh.search('list droplets'))
+  })
+})
@@ -0,0 +1,72 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { getOperationSecurity } from '../../src/security'
+import { findOperation } from '../../src/spec-utils'
+import { loadSpec } from '../helpers'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  security: [{ apiKey: [] }],
+  paths: {
+    '/items': {
+      get: { responses: {} },
+      post: { security: [{ apiKey: [], oauth: ['items:write'] }], responses: {} },
+      delete: { security: [], responses: {} },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'query', name: 'api_key' },
+      oauth: {
+        type: 'oauth2',
+        flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'items:write': 'Write items' } } },
+      },
+    },
+  },
+}
+
+describe('getOperationSecurity', () => {
+  it('should fall back to global security', () => {
+    expect(getOperationSecurity(spec, spec.paths['/items']!.get!)).toEqual({
+      source: 'global',
+      anonymous: false,
+      alternatives: [[{ scheme: 'apiKey', type: 'apiKey', in: 'query', name: 'api_key', scopes: [], usage: 'Query parameter api_key=<api key>', description: undefined }]],
+    })
+  })
+
+  it('should combine schemes required together and list oauth2 flows', () => {
+    const [set] = getOperationSecurity(spec, spec.paths['/items']!.post!).alternatives
+
+    expect(set!.map(requirement => requirement.scheme)).toEqual(['apiKey', 'oauth'])
+    expect(set![1]).toMatchObject({
+      scopes: ['items:write'],
+      flows: [{ flow: 'clientCredentials', tokenUrl: 'https://auth.example.com/token', availableScopes: ['items:write'] }],
+    })
+  })
+
+  it('should treat an empty requirement list as anonymous', () => {
+    expect(getOperationSecurity(spec, spec.paths['/items']!.delete!)).toEqual({ source: 'operation', anonymous: true, alternatives: [] })
+  })
+
+  it('should describe how to send each HTTP scheme', () => {
+    const usage = (scheme: string): string => {
+      const fixture = { ...spec, components: { securitySchemes: { http: { type: 'http', scheme } } } } as OpenAPIDocument
+      return getOperationSecurity(fixture, { security: [{ http: [] }], responses: {} }).alternatives[0]![0]!.usage
+    }
+
+    expect(usage('Bearer')).toBe('Authorization: Bearer <token>')
+    expect(usage('digest')).toBe('Authorization: Digest <response to the server\'s WWW-Authenticate challenge>')
+    expect(usage('hoba')).toBe('Authorization: Hoba <credentials>')
+  })
+
+  it('should tell Hydra admin and public endpoints apart', () => {
+    const hydra = loadSpec('ory/hydra.json')
+    const schemes = (path: string, method: string): string[][] =>
+      getOperationSecurity(hydra, findOperation(hydra, path, method)!.operation).alternatives.map(set => set.map(r => `${r.type}:${r.httpScheme || ''}`))
+
+    expect(schemes('/oauth2/token', 'post')).toEqual([['http:basic'], ['oauth2:']])
+    expect(schemes('/userinfo', 'get')).toEqual([['oauth2:']])
+    expect(getOperationSecurity(hydra, findOperation(hydra, '/admin/clients', 'get')!.operation).source).toBe('none')
+  })
+})
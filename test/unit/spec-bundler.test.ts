@@ -0,0 +1,157 @@
+import type { OpenAPI3 } from 'openapi-typescript'
+import type { OpenAPIDocument } from '../../src/types'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { generateDTS } from 'apiful/openapi'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { bundleSpec, bundleSpecFile, DocumentCache } from '../../src/spec-bundler'
+
+let dir: string
+
+function write(file: string, content: string) {
+  mkdirSync(join(dir, file, '..'), { recursive: true })
+  writeFileSync(join(dir, file), content)
+}
+
+function spec(document: Record<string, unknown>): OpenAPIDocument {
+  return { openapi: '3.0.3', info: { title: 'Test', version: '1' }, ...document } as OpenAPIDocument
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'sufetch-bundler-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('bundleSpec', () => {
+  it('should return specs without external refs unchanged', async () => {
+    const root = spec({ paths: {}, components: { schemas: { A: { $ref: '#/components/schemas/B' }, B: { type: 'string' } } } })
+
+    const result = await bundleSpec(root, join(dir, 'api.yaml'))
+
+    expect(result.spec).toBe(root)
+    expect(result.files).toEqual([])
+  })
+
+  it('should hoist schemas and resolve nested refs relative to their own file', async () => {
+    write('schemas/droplet.yml', 'Droplet:\n  type: object\n  properties:\n    region:\n      $ref: \'./common/region.yml\'\n    size:\n      $ref: \'#/Size\'\nSize:\n  type: string\n')
+    write('schemas/common/region.yml', 'type: object\nproperties:\n  slug:\n    type: string\n')
+    const root = spec({
+      paths: {
+        '/droplets': {
+          get: { responses: { 200: { description: 'OK', content: { 'application/json': { schema: { $ref: './schemas/droplet.yml#/Droplet' } } } } } },
+        },
+      },
+    })
+
+    const result = await bundleSpec(root, join(dir, 'api.yaml'))
+    const schemas = result.spec.components?.schemas as Record<string, any>
+
+    expect((result.spec.paths['/droplets']?.get?.responses[200] as any).content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Droplet' })
+    expect(schemas.Droplet.properties).toEqual({ region: { $ref: '#/components/schemas/region' }, size: { $ref: '#/components/schemas/Size' } })
+    expect(schemas.region.properties.slug).toEqual({ type: 'string' })
+    expect(schemas.Size).toEqual({ type: 'string' })
+    expect(result.files.sort()).toEqual([join(dir, 'schemas/common/region.yml'), join(dir, 'schemas/droplet.yml')])
+    expect(result.warnings).toEqual([])
+  })
+
+  it('should keep component names and turn cycles between files into local refs', async () => {
+    write('node.yaml', 'type: object\nproperties:\n  children:\n    type: array\n    items:\n      $ref: \'./node.yaml\'\n  owner:\n    $ref: \'./user.yaml\'\n')
+    write('user.yaml', 'type: object\nproperties:\n  home:\n    $ref: \'./node.yaml\'\n')
+    const root = spec({ paths: {}, components: { schemas: { Node: { $ref: './node.yaml' }, User: { $ref: './user.yaml' } } } })
+
+    const { spec: bundled } = await bundleSpec(root, join(dir, 'api.yaml'))
+    const schemas = bundled.components?.schemas as Record<string, any>
+
+    expect(Object.keys(schemas)).toEqual(['Node', 'User'])
+    expect(schemas.Node.properties.children.items).toEqual({ $ref: '#/components/schemas/Node' })
+    expect(schemas.Node.properties.owner).toEqual({ $ref: '#/components/schemas/User' })
+    expect(schemas.User.properties.home).toEqual({ $ref: '#/components/schemas/Node' })
+  })
+
+  it('should inline path items and parameters from other files', async () => {
+    write('paths/servers.json', JSON.stringify({
+      get: { parameters: [{ $ref: '../parameters.yaml#/limit' }], responses: { 200: { description: 'OK' } } },
+    }))
+    write('parameters.yaml', 'limit:\n  name: limit\n  in: query\n  schema:\n    $ref: \'#/Limit\'\nLimit:\n  type: integer\n')
+
+    const { spec: bundled } = await bundleSpec(spec({ paths: { '/servers': { $ref: './paths/servers.json' } } }), join(dir, 'api.yaml'))
+
+    expect(bundled.paths['/servers']?.get?.parameters).toEqual([{ name: 'limit', in: 'query', schema: { $ref: '#/components/schemas/Limit' } }])
+    expect(bundled.components?.schemas?.Limit).toEqual({ type: 'integer' })
+  })
+
+  it('should turn refs back into the root file into local refs', async () => {
+    write('error.yaml', 'type: object\nproperties:\n  code:\n    $ref: \'./api.yaml#/components/schemas/Code\'\n')
+    const root = spec({ paths: {}, components: { schemas: { Code: { type: 'integer' }, Error: { $ref: './error.yaml' } } } })
+
+    const { spec: bundled } = await bundleSpec(root, join(dir, 'api.yaml'))
+
+    expect((bundled.components?.schemas?.Error as any).properties.code).toEqual({ $ref: '#/components/schemas/Code' })
+  })
+
+  it('should leave unresolvable refs in place and report them', async () => {
+    write('schemas.yaml', 'A:\n  type: string\n')
+    const root = spec({
+      paths: {},
+      components: {
+        schemas: {
+          Missing: { $ref: './missing.yaml' },
+          BadPointer: { $ref: './schemas.yaml#/B' },
+          Remote: { $ref: 'https://example.com/schemas.yaml' },
+          Outside: { $ref: '../outside.yaml' },
+        },
+      },
+    })
+
+    const result = await bundleSpec(root, join(dir, 'api.yaml'), { root: dir })
+
+    expect(result.spec.components?.schemas?.BadPointer).toEqual({ $ref: './schemas.yaml#/B' })
+    expect(result.files).toContain(join(dir, 'missing.yaml'))
+    expect(result.warnings).toEqual([
+      expect.stringContaining('cannot read $ref "./missing.yaml"'),
+      expect.stringContaining('is not fetched'),
+      expect.stringContaining('points outside'),
+      'api.yaml: unresolved $ref "./schemas.yaml#/B"',
+    ])
+  })
+
+  it('should read shared files once through the document cache', async () => {
+    write('common.yaml', 'Error:\n  type: object\n')
+    const cache = new DocumentCache()
+    const root = spec({ paths: {}, components: { schemas: { Error: { $ref: './common.yaml#/Error' } } } })
+
+    const first = await bundleSpec(root, join(dir, 'a.yaml'), { cache })
+    write('common.yaml', 'Error:\n  type: string\n')
+    const second = await bundleSpec(root, join(dir, 'b.yaml'), { cache })
+    cache.invalidate(join(dir, 'common.yaml'))
+    const third = await bundleSpec(root, join(dir, 'b.yaml'), { cache })
+
+    expect(second.spec.components?.schemas?.Error).toEqual(first.spec.components?.schemas?.Error)
+    expect(third.spec.components?.schemas?.Error).toEqual({ type: 'string' })
+  })
+})
+
+describe('bundleSpecFile', () => {
+  // scripts/generate-types.ts hands the bundled document to `apiful generate`
+  it('should turn a split spec into one apiful can generate types from', async () => {
+    write('schemas/droplet.yml', 'Droplet:\n  type: object\n  properties:\n    name:\n      type: string\n')
+    write('api.json', JSON.stringify(spec({
+      paths: {
+        '/droplets': {
+          get: { responses: { 200: { description: 'OK', content: { 'application/json': { schema: { $ref: './schemas/droplet.yml#/Droplet' } } } } } },
+        },
+      },
+    })))
+
+    const bundled = await bundleSpecFile(join(dir, 'api.json'), { root: dir })
+    const types = await generateDTS({ split: { schema: bundled as OpenAPI3 } })
+
+    expect(JSON.stringify(bundled)).not.toContain('droplet.yml')
+    expect(types).toContain('Droplet: {')
+    expect(types).toContain('name?: string')
+  }, 30_000)
+})
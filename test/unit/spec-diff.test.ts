@@ -0,0 +1,101 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { diffSpecs } from '../../src/spec-diff'
+
+function fixture(server: Record<string, any>, extra: Record<string, any> = {}): OpenAPIDocument {
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Fixture', version: '1.0.0' },
+    paths: {
+      '/servers': {
+        get: {
+          parameters: [{ name: 'page', in: 'query', schema: { type: 'integer' } }],
+          responses: {
+            200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/Server' } } } },
+            404: { description: 'Not found' },
+          },
+        },
+        post: {
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } },
+              },
+            },
+          },
+          responses: { 201: { description: 'Created' } },
+        },
+      },
+      ...extra,
+    },
+    components: { schemas: { Server: server } },
+  } as OpenAPIDocument
+}
+
+const server = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    status: { type: 'string', enum: ['running', 'off'] },
+    parent: { $ref: '#/components/schemas/Server' },
+  },
+}
+
+describe('diffSpecs', () => {
+  it('should report nothing for identical specs', () => {
+    expect(diffSpecs(fixture(server), fixture(server)).changes).toEqual([])
+  })
+
+  it('should classify response field changes', () => {
+    const changed = {
+      ...server,
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string', enum: ['running', 'off', 'migrating'] },
+        labels: { type: 'object' },
+        parent: { $ref: '#/components/schemas/Server' },
+      },
+    }
+
+    const changes = diffSpecs(fixture(server), fixture(changed)).changes.map(c => [c.type, c.location, c.breaking])
+
+    expect(changes).toEqual([
+      ['field_removed', 'response 200: name', true],
+      ['field_retyped', 'response 200: id', true],
+      ['enum_value_added', 'response 200: status', true],
+      ['field_added', 'response 200: labels', false],
+    ])
+  })
+
+  it('should classify operations, parameters, request fields and response codes', () => {
+    const after = fixture(server, { '/volumes': { get: { responses: {} } } })
+    const list = after.paths['/servers']!.get!
+    const create = after.paths['/servers']!.post! as any
+    list.parameters = [{ name: 'label_selector', in: 'query', required: true, schema: { type: 'string' } }]
+    list.responses = { 200: list.responses[200]!, 410: { description: 'Gone' } }
+    create.requestBody.content['application/json'].schema.properties.type = { type: 'string' }
+    create.requestBody.content['application/json'].schema.required.push('type')
+
+    const diff = diffSpecs(fixture(server), after)
+
+    expect(diff.changes.map(c => [c.type, c.operation, c.breaking])).toEqual([
+      ['parameter_removed', 'GET /servers', true],
+      ['parameter_added', 'GET /servers', true],
+      ['response_removed', 'GET /servers', false],
+      ['response_added', 'GET /servers', false],
+      ['field_added', 'POST /servers', true],
+      ['operation_added', 'GET /volumes', false],
+    ])
+    expect(diff.summary).toEqual({ breaking: 3, nonBreaking: 3, operationsAdded: 1, operationsRemoved: 0 })
+  })
+
+  it('should report removed operations as breaking', () => {
+    const after = fixture(server)
+    delete after.paths['/servers']!.post
+
+    expect(diffSpecs(fixture(server), after).changes).toEqual([
+      { type: 'operation_removed', breaking: true, operation: 'POST /servers', message: 'Operation POST /servers was removed' },
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { lintSpec } from '../../src/spec-linter'
+import { loadSpec } from '../helpers'
+
+function spec(document: Record<string, unknown>): OpenAPIDocument {
+  return { openapi: '3.0.3', info: { title: 'Test', version: '1' }, servers: [{ url: 'https://api.example.com' }], ...document } as OpenAPIDocument
+}
+
+const ok = { 200: { description: 'OK' } }
+
+describe('lintSpec', () => {
+  it('should report dangling refs, including discriminator mappings', () => {
+    const { issues } = lintSpec(spec({
+      paths: {},
+      components: {
+        schemas: {
+          Pet: {
+            oneOf: [{ $ref: '#/components/schemas/Cat' }],
+            discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' } },
+          },
+          Cat: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Owner' } } },
+        },
+      },
+    }))
+
+    expect(issues.map(issue => [issue.rule, issue.pointer])).toEqual([
+      ['dangling_ref', '/components/schemas/Pet/discriminator/mapping/dog'],
+      ['dangling_ref', '/components/schemas/Cat/properties/owner'],
+    ])
+  })
+
+  it('should report duplicate operationIds and path parameters that do not match the template', () => {
+    const { issues, summary } = lintSpec(spec({
+      paths: {
+        '/servers/{id}': {
+          get: { operationId: 'getServer', parameters: [{ name: 'server_id', in: 'path', required: true }], responses: ok },
+        },
+        '/servers': { get: { operationId: 'getServer', responses: ok } },
+      },
+    }))
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'GET /servers/{id} declares path parameter "server_id", which is not in the path template',
+      'GET /servers/{id} does not declare path parameter "id"',
+      'operationId "getServer" of GET /servers is already used by GET /servers/{id}',
+    ])
+    expect(summary).toEqual({ errors: 3, warnings: 0 })
+  })
+
+  it('should check required fields against properties and allOf members', () => {
+    const { issues } = lintSpec(spec({
+      paths: {},
+      components: {
+        schemas: {
+          Base: { type: 'object', properties: { id: { type: 'integer' } } },
+          Named: { allOf: [{ $ref: '#/components/schemas/Base' }, { required: ['id', 'name'], properties: { name: { type: 'string' } } }] },
+          Broken: { type: 'object', required: ['urn'], properties: { id: { type: 'integer' } } },
+          Open: { type: 'object', required: ['urn'], properties: {}, additionalProperties: true },
+        },
+      },
+    }))
+
+    expect(issues).toEqual([{
+      rule: 'required_property',
+      severity: 'warning',
+      pointer: '/components/schemas/Broken/required',
+      message: 'Required field "urn" is not declared in properties',
+    }])
+  })
+
+  it('should ignore refs and names inside example data', () => {
+    const { issues } = lintSpec(spec({
+      paths: {
+        '/items': {
+          get: {
+            responses: {
+              default: { description: 'Error' },
+              200: { description: 'OK', content: { 'application/json': { example: { $ref: '#/nowhere' } } } },
+            },
+          },
+        },
+      },
+    }))
+
+    expect(issues).toEqual([])
+  })
+
+  it('should warn about missing success responses and servers', () => {
+    const { issues } = lintSpec(spec({ servers: undefined, paths: { '/login': { post: { responses: { 401: { description: 'Denied' } } } } } }))
+
+    expect(issues.map(issue => issue.rule)).toEqual(['missing_success_response', 'missing_servers'])
+  })
+
+  it('should only flag missing servers for the bundled Ory specs', () => {
+    for (const file of ['ory/kratos.json', 'ory/hydra.json']) {
+      expect(lintSpec(loadSpec(file)).issues.map(issue => issue.rule)).toEqual(['missing_servers'])
+    }
+    expect(lintSpec(loadSpec('hetzner/cloud.json')).issues).toEqual([])
+  })
+})
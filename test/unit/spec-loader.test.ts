@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { parseSpec, preferredSpecFile, selectSpecFiles, specExtension, SpecParseError } from '../../src/spec-loader'
+
+const yaml = `openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      responses:
+        '200':
+          description: OK
+`
+
+describe('specExtension', () => {
+  it('should recognize JSON and YAML specs and skip package files', () => {
+    expect(specExtension('api.json')).toBe('.json')
+    expect(specExtension('api.yaml')).toBe('.yaml')
+    expect(specExtension('api.yml')).toBe('.yml')
+    expect(specExtension('package.json')).toBeNull()
+    expect(specExtension('types.d.ts')).toBeNull()
+  })
+})
+
+describe('parseSpec', () => {
+  it('should parse YAML into the same document as JSON', () => {
+    const spec = parseSpec(yaml, 'petstore.yaml')
+
+    expect(spec.info.title).toBe('Petstore')
+    expect(spec.paths['/pets']?.get?.responses['200']).toEqual({ description: 'OK' })
+    expect(parseSpec(JSON.stringify(spec), 'petstore.json')).toEqual(spec)
+  })
+
+  it('should report the line and column of JSON syntax errors', () => {
+    const content = '{\n  "openapi": "3.0.3",\n  "info": }\n'
+
+    expect(() => parseSpec(content, 'x.json')).toThrow(SpecParseError)
+    expect(() => parseSpec(content, 'x.json')).toThrow(expect.objectContaining({ line: 3, column: 11 }))
+  })
+
+  it('should report the line and column of YAML syntax errors', () => {
+    const content = 'openapi: 3.0.3\ninfo:\n  title: a\n  title: b\n'
+
+    expect(() => parseSpec(content, 'x.yaml')).toThrow(expect.objectContaining({
+      file: 'x.yaml',
+      line: 4,
+      message: expect.stringMatching(/^x\.yaml:4:\d+: /),
+    }))
+  })
+
+  it('should reject documents that are not objects', () => {
+    expect(() => parseSpec('- a\n- b\n', 'x.yml')).toThrow(/Not an OpenAPI document/)
+  })
+})
+
+describe('selectSpecFiles', () => {
+  it('should keep one file per API, preferring JSON over YAML', () => {
+    const { selected, skipped } = selectSpecFiles([
+      { key: 'do/api', path: '/specs/do/api.yml' },
+      { key: 'do/api', path: '/specs/do/api.yaml' },
+      { key: 'ory/kratos', path: '/specs/ory/kratos.yaml' },
+      { key: 'do/api', path: '/specs/do/api.json' },
+    ])
+
+    expect(selected.map(file => file.path)).toEqual(['/specs/do/api.json', '/specs/ory/kratos.yaml'])
+    expect(skipped.map(file => file.path)).toEqual(['/specs/do/api.yaml', '/specs/do/api.yml'])
+  })
+})
+
+describe('preferredSpecFile', () => {
+  let dir: string | undefined
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should fall back to another format of the same spec', () => {
+    dir = mkdtempSync(join(tmpdir(), 'sufetch-loader-'))
+    writeFileSync(join(dir, 'api.yaml'), yaml)
+
+    expect(preferredSpecFile(join(dir, 'api.json'))).toBe(join(dir, 'api.yaml'))
+
+    writeFileSync(join(dir, 'api.json'), '{}')
+    expect(preferredSpecFile(join(dir, 'api.yaml'))).toBe(join(dir, 'api.json'))
+    expect(preferredSpecFile(join(dir, 'other.json'))).toBeNull()
+  })
+})
@@ -0,0 +1,35 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { escapePointer, findWebhook, listWebhooks, resolvePointer } from '../../src/spec-utils'
+
+describe('webhooks', () => {
+  const document = {
+    openapi: '3.1.0',
+    info: { title: 'Test', version: '1' },
+    paths: {},
+    webhooks: {
+      newPet: { post: { operationId: 'newPetHook', requestBody: { content: { 'application/json': { schema: { type: 'object' } } } }, responses: { 200: { description: 'OK' } } } },
+      petSold: { $ref: '#/components/pathItems/petSold' },
+    },
+    components: { pathItems: { petSold: { put: { responses: { 204: { description: 'Done' } } } } } },
+  } as OpenAPIDocument
+
+  it('should list webhook operations, following path item refs', () => {
+    expect(listWebhooks(document).map(entry => [entry.path, entry.method])).toEqual([['newPet', 'post'], ['petSold', 'put']])
+  })
+
+  it('should find webhooks by name and method', () => {
+    expect(findWebhook(document, 'newPet')?.operation.operationId).toBe('newPetHook')
+    expect(findWebhook(document, 'petSold', 'PUT')?.method).toBe('put')
+    expect(findWebhook(document, 'petSold', 'post')).toBeNull()
+  })
+})
+
+describe('escapePointer', () => {
+  it('should escape keys so resolvePointer finds them again', () => {
+    const document = { paths: { '/servers/{id}': { 'a~b': 1 } } }
+
+    expect(escapePointer('/servers/{id}')).toBe('~1servers~1{id}')
+    expect(resolvePointer(document, `#/paths/${escapePointer('/servers/{id}')}/${escapePointer('a~b')}`)).toBe(1)
+  })
+})
@@ -0,0 +1,53 @@
+import type { SpecChange } from '../../src/spec-watcher'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { classifySpecFile, watchSpecs } from '../../src/spec-watcher'
+
+describe('classifySpecFile', () => {
+  it('should name specs and type definitions like spec loading does', () => {
+    expect(classifySpecFile('/specs', 'hetzner/cloud.json')).toEqual({ kind: 'spec', key: 'hetzner/cloud', path: '/specs/hetzner/cloud.json' })
+    expect(classifySpecFile('/specs', 'digitalocean/api.yaml')).toEqual({ kind: 'spec', key: 'digitalocean/api', path: '/specs/digitalocean/api.yaml' })
+    expect(classifySpecFile('/specs', 'ory/types.d.ts')).toEqual({ kind: 'types', key: 'ory', path: '/specs/ory/types.d.ts' })
+  })
+
+  it('should ignore other files', () => {
+    expect(classifySpecFile('/specs', 'hetzner/index.ts')).toBeNull()
+    expect(classifySpecFile('/specs', 'hetzner/package.json')).toBeNull()
+    expect(classifySpecFile('/specs', '')).toBeNull()
+  })
+})
+
+describe('watchSpecs', () => {
+  let dir: string | undefined
+  let close: (() => void) | undefined
+
+  afterEach(() => {
+    close?.()
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should batch changes to specs and type definitions', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sufetch-watch-'))
+    mkdirSync(join(dir, 'acme'))
+
+    const batches: SpecChange[][] = []
+    const reported = new Promise<void>((resolve) => {
+      close = watchSpecs(dir!, (changes) => {
+        batches.push(changes)
+        resolve()
+      }, { debounce: 100 }).close
+    })
+
+    writeFileSync(join(dir, 'acme', 'api.json'), '{}')
+    writeFileSync(join(dir, 'acme', 'types.d.ts'), 'export {}')
+    writeFileSync(join(dir, 'acme', 'notes.md'), '# ignored')
+    await reported
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0]!.map(change => `${change.kind}:${change.key}`).sort()).toEqual(['spec:acme/api', 'types:acme'])
+  })
+})
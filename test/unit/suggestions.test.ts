@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { editDistance, suggestNames, suggestPaths } from '../../src/suggestions'
+import { loadSpec } from '../helpers'
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editDistance('', 'abc')).toBe(3)
+    expect(editDistance('same', 'same')).toBe(0)
+  })
+})
+
+describe('suggestNames', () => {
+  const apis = ['hetzner/cloud', 'ory/kratos', 'ory/hydra', 'digitalocean/api']
+
+  it('should match typos and partial names', () => {
+    expect(suggestNames(apis, 'ory/kratso')[0]).toBe('ory/kratos')
+    expect(suggestNames(apis, 'kratos')).toEqual(['ory/kratos'])
+    expect(suggestNames(apis, 'Hetzner')).toEqual(['hetzner/cloud'])
+  })
+
+  it('should drop unrelated names and honor the limit', () => {
+    expect(suggestNames(apis, 'stripe')).toEqual([])
+    expect(suggestNames(['a1', 'a2', 'a3'], 'a', { limit: 2 })).toHaveLength(2)
+  })
+})
+
+describe('suggestPaths', () => {
+  const digitalocean = loadSpec('digitalocean/api.json')
+  const hetzner = loadSpec('hetzner/cloud.json')
+
+  it('should match concrete values against templated segments', () => {
+    expect(suggestPaths(Object.keys(hetzner.paths), '/servers/42')[0]).toBe('/servers/{id}')
+    expect(suggestPaths(Object.keys(hetzner.paths), 'servers/42/actions/poweron/')[0]).toBe('/servers/{id}/actions/poweron')
+  })
+
+  it('should rank misspelled segments', () => {
+    const suggestions = suggestPaths(Object.keys(digitalocean.paths), '/v2/dropets/{droplet_id}/action')
+
+    expect(suggestions[0]).toBe('/v2/droplets/{droplet_id}/actions')
+    expect(suggestions.length).toBeLessThanOrEqual(5)
+  })
+
+  it('should not suggest unrelated paths', () => {
+    expect(suggestPaths(Object.keys(hetzner.paths), '/v1/billing/invoices/current')).toEqual([])
+  })
+})
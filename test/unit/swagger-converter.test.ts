@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest'
+import { convertSwagger2, isSwagger2 } from '../../src/swagger-converter'
+
+const petstore = {
+  swagger: '2.0',
+  info: { title: 'Petstore', version: '1.0.0' },
+  host: 'petstore.example.com',
+  basePath: '/v1/',
+  schemes: ['https', 'http'],
+  consumes: ['application/json'],
+  produces: ['application/json', 'application/xml'],
+  paths: {
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, type: 'integer', format: 'int64' }],
+      get: {
+        operationId: 'getPet',
+        parameters: [{ name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' }],
+        responses: {
+          200: { description: 'A pet', schema: { $ref: '#/definitions/Pet' }, examples: { 'application/json': { id: 1 } } },
+          404: { $ref: '#/responses/NotFound' },
+        },
+      },
+      put: {
+        operationId: 'updatePet',
+        parameters: [{ $ref: '#/parameters/PetBody' }],
+        responses: { 204: { description: 'Updated', headers: { 'X-Rate-Limit': { type: 'integer', description: 'Calls left' } } } },
+      },
+      post: {
+        operationId: 'uploadImage',
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'file', in: 'formData', type: 'file', required: true },
+          { name: 'note', in: 'formData', type: 'string', description: 'Caption' },
+        ],
+        responses: { 200: { description: 'Uploaded' } },
+      },
+    },
+  },
+  definitions: {
+    Pet: {
+      type: 'object',
+      discriminator: 'kind',
+      properties: {
+        id: { type: 'integer' },
+        owner: { '$ref': '#/definitions/Owner', 'x-nullable': true },
+      },
+    },
+    Owner: { type: 'object', properties: { name: { type: 'string' } } },
+  },
+  parameters: {
+    PetBody: { name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+    Limit: { name: 'limit', in: 'query', type: 'integer' },
+  },
+  responses: {
+    NotFound: { description: 'Not found', schema: { type: 'object' } },
+  },
+  securityDefinitions: {
+    basicAuth: { type: 'basic' },
+    apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+    oauth: { type: 'oauth2', flow: 'accessCode', authorizationUrl: 'https://auth.example.com/authorize', tokenUrl: 'https://auth.example.com/token', scopes: { 'read:pets': 'Read pets' } },
+  },
+}
+
+describe('isSwagger2', () => {
+  it('should detect Swagger documents', () => {
+    expect(isSwagger2(petstore)).toBe(true)
+    expect(isSwagger2({ openapi: '3.0.3' })).toBe(false)
+  })
+})
+
+describe('convertSwagger2', () => {
+  const { spec, warnings } = convertSwagger2(petstore)
+  const item = spec.paths['/pets/{petId}'] as any
+
+  it('should turn host, basePath and schemes into servers', () => {
+    expect(spec.openapi).toBe('3.0.3')
+    expect(spec.servers).toEqual([{ url: 'https://petstore.example.com/v1' }, { url: 'http://petstore.example.com/v1' }])
+  })
+
+  it('should move definitions, parameters and responses to components and rewrite refs', () => {
+    expect(spec.components?.schemas?.Pet).toEqual({
+      type: 'object',
+      discriminator: { propertyName: 'kind' },
+      properties: {
+        id: { type: 'integer' },
+        owner: { $ref: '#/components/schemas/Owner', nullable: true },
+      },
+    })
+    expect(spec.components?.parameters?.Limit).toEqual({ name: 'limit', in: 'query', schema: { type: 'integer' } })
+    expect(spec.components?.requestBodies?.PetBody).toEqual({ required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } })
+    expect(item.get.responses[404]).toEqual({ $ref: '#/components/responses/NotFound' })
+  })
+
+  it('should move parameter types into schemas and map collectionFormat', () => {
+    expect(item.parameters).toEqual([{ name: 'petId', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } }])
+    expect(item.get.parameters).toEqual([{ name: 'tags', in: 'query', style: 'form', explode: true, schema: { type: 'array', items: { type: 'string' } } }])
+  })
+
+  it('should give responses one media type per produces entry', () => {
+    expect(Object.keys(item.get.responses[200].content)).toEqual(['application/json', 'application/xml'])
+    expect(item.get.responses[200].content['application/json']).toEqual({ schema: { $ref: '#/components/schemas/Pet' }, example: { id: 1 } })
+    expect(item.put.responses[204].headers).toEqual({ 'X-Rate-Limit': { description: 'Calls left', schema: { type: 'integer' } } })
+  })
+
+  it('should turn body and formData parameters into request bodies', () => {
+    expect(item.put.requestBody).toEqual({ $ref: '#/components/requestBodies/PetBody' })
+    expect(item.put.parameters).toBeUndefined()
+    expect(item.post.requestBody).toEqual({
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: {
+            type: 'object',
+            properties: { file: { type: 'string', format: 'binary' }, note: { type: 'string', description: 'Caption' } },
+            required: ['file'],
+          },
+        },
+      },
+    })
+  })
+
+  it('should convert security definitions', () => {
+    expect(spec.components?.securitySchemes).toEqual({
+      basicAuth: { type: 'http', scheme: 'basic' },
+      apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+      oauth: {
+        type: 'oauth2',
+        flows: { authorizationCode: { authorizationUrl: 'https://auth.example.com/authorize', tokenUrl: 'https://auth.example.com/token', scopes: { 'read:pets': 'Read pets' } } },
+      },
+    })
+    expect(warnings).toEqual([])
+  })
+
+  it('should warn about constructs without an OpenAPI 3 equivalent', () => {
+    const result = convertSwagger2({
+      swagger: '2.0',
+      info: { title: 'Legacy', version: '1' },
+      paths: {
+        '/items': {
+          post: {
+            parameters: [
+              { name: 'ids', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'tsv' },
+              { name: 'name', in: 'formData', type: 'string' },
+            ],
+            responses: { 200: { description: 'OK' } },
+          },
+        },
+      },
+      securityDefinitions: { custom: { type: 'mutualTLS' } },
+    })
+
+    expect(result.warnings).toEqual([
+      'POST /items: collectionFormat "tsv" of parameter "ids" has no OpenAPI 3 equivalent, using csv',
+      'POST /items: formData parameters without a form content type in consumes, using application/x-www-form-urlencoded',
+      'securityDefinitions/custom: unknown type "mutualTLS"',
+    ])
+    expect((result.spec.paths['/items']?.post?.requestBody as any).content).toHaveProperty('application/x-www-form-urlencoded')
+  })
+})
@@ -0,0 +1,43 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { collectTags } from '../../src/tags'
+import { loadSpec } from '../helpers'
+
+describe('collectTags', () => {
+  it('should count operations per tag including undeclared tags', () => {
+    const spec: OpenAPIDocument = {
+      openapi: '3.0.3',
+      info: { title: 'Fixture', version: '1.0.0' },
+      tags: [{ name: 'Servers', description: 'Manage servers\n' }, { name: 'Unused' }],
+      paths: {
+        '/servers': {
+          get: { tags: ['Servers'], responses: {} },
+          post: { tags: ['Servers', 'Billing'], responses: {} },
+        },
+        '/health': {
+          get: { responses: {} },
+        },
+      },
+    }
+
+    const catalog = collectTags(spec)
+
+    expect(catalog.tags).toEqual([
+      { name: 'Servers', description: 'Manage servers', operationCount: 2, navPath: undefined, declared: true },
+      { name: 'Unused', description: undefined, operationCount: 0, navPath: undefined, declared: true },
+      { name: 'Billing', operationCount: 1, declared: false },
+    ])
+    expect(catalog.untaggedOperations).toBe(1)
+    expect(catalog.groups).toBeUndefined()
+  })
+
+  it('should group Hetzner tags by x-nav-path section', () => {
+    const spec = loadSpec('hetzner/cloud.json')
+
+    const catalog = collectTags(spec)
+
+    expect(catalog.tags.find(t => t.name === 'Certificates')?.navPath).toBe('Security/Certificates')
+    expect(catalog.groups?.Security).toContain('Certificates')
+    expect(catalog.tags.find(t => t.name === 'Servers')?.operationCount).toBeGreaterThan(0)
+  })
+})
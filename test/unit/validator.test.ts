@@ -0,0 +1,204 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { findOperation, resolvePointer } from '../../src/spec-utils'
+import { validateRequest, validateResponse, validateValue } from '../../src/validator'
+import { loadSpec } from '../helpers'
+
+const spec: OpenAPIDocument = {
+  openapi: '3.0.3',
+  info: { title: 'Fixture', version: '1.0.0' },
+  paths: {
+    '/servers/{id}': {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+      put: {
+        parameters: [
+          { name: 'dry_run', in: 'query', schema: { type: 'boolean' } },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string', format: 'uuid' } },
+        ],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Server' } } },
+        },
+        responses: {},
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Server: {
+        type: 'object',
+        required: ['id', 'name', 'type'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          name: { type: 'string', pattern: '^[a-z0-9-]+$', maxLength: 10 },
+          type: { type: 'string', enum: ['cx11', 'cx21'] },
+          contact: { type: 'string', format: 'email' },
+          labels: { type: 'object', additionalProperties: { type: 'string' } },
+          volumes: { type: 'array', items: { type: 'integer', minimum: 1 }, maxItems: 2 },
+        },
+      },
+    },
+  },
+}
+
+const resolve = (ref: string): unknown => resolvePointer(spec, ref)
+
+describe('validateValue', () => {
+  it('should report issues with JSON pointers', () => {
+    const issues = validateValue({ $ref: '#/components/schemas/Server' }, {
+      name: 'Bad Name',
+      type: 'cx99',
+      contact: 'not-an-email',
+      labels: { 'env/stage': 1 },
+      volumes: [0, 2, 3],
+    }, resolve, { direction: 'request' })
+
+    expect(issues.map(i => [i.pointer, i.code])).toEqual([
+      ['/name', 'pattern'],
+      ['/type', 'enum'],
+      ['/contact', 'format'],
+      ['/labels/env~1stage', 'type'],
+      ['/volumes', 'items'],
+      ['/volumes/0', 'range'],
+    ])
+  })
+
+  it('should require readOnly fields only outside requests', () => {
+    const value = { name: 'web', type: 'cx11' }
+
+    expect(validateValue({ $ref: '#/components/schemas/Server' }, value, resolve, { direction: 'request' })).toEqual([])
+    expect(validateValue({ $ref: '#/components/schemas/Server' }, value, resolve)[0]).toMatchObject({ pointer: '/id', code: 'required' })
+  })
+
+  it('should check oneOf variants', () => {
+    const schema = { oneOf: [{ type: 'string' }, { type: 'integer' }] }
+
+    expect(validateValue(schema, 'a', resolve)).toEqual([])
+    expect(validateValue(schema, true, resolve)[0]).toMatchObject({ code: 'one_of' })
+  })
+
+  it('should honor nullable', () => {
+    expect(validateValue({ type: 'string', nullable: true }, null, resolve)).toEqual([])
+    expect(validateValue({ type: 'string' }, null, resolve)[0]).toMatchObject({ code: 'type' })
+  })
+
+  it('should check OpenAPI 3.1 type lists, const and tuples', () => {
+    expect(validateValue({ type: ['string', 'null'] }, null, resolve)).toEqual([])
+    expect(validateValue({ type: ['string', 'integer'] }, 3, resolve)).toEqual([])
+    expect(validateValue({ type: ['string', 'integer'] }, true, resolve)[0]).toMatchObject({ code: 'type', message: 'Expected string or integer, got boolean' })
+    expect(validateValue({ const: 'v1' }, 'v2', resolve)[0]).toMatchObject({ code: 'enum', message: 'Value must be "v1"' })
+
+    const point = { type: 'array', prefixItems: [{ type: 'number' }, { type: 'string' }], items: false }
+    expect(validateValue(point, [1.5, 'm'], resolve)).toEqual([])
+    expect(validateValue(point, ['1.5', 'm', 3], resolve).map(i => [i.pointer, i.code])).toEqual([['/0', 'type'], ['', 'items']])
+  })
+
+  it('should check OpenAPI 3.1 numeric exclusive bounds', () => {
+    const ratio = { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 }
+
+    expect(validateValue(ratio, 0.5, resolve)).toEqual([])
+    expect(validateValue(ratio, 0, resolve)[0]).toMatchObject({ code: 'range', message: 'Value must be > 0' })
+    expect(validateValue(ratio, 1, resolve)[0]).toMatchObject({ code: 'range', message: 'Value must be < 1' })
+    // The 3.0 boolean form still modifies minimum and maximum
+    expect(validateValue({ type: 'number', minimum: 0, exclusiveMinimum: true }, 0, resolve)[0]).toMatchObject({ message: 'Value must be > 0' })
+  })
+})
+
+describe('validateRequest', () => {
+  const entry = findOperation(spec, '/servers/{id}', 'PUT')!
+
+  it('should accept a valid request with string-typed parameters', () => {
+    const result = validateRequest(spec, entry, {
+      path: { id: '42' },
+      query: { dry_run: 'true' },
+      headers: { 'x-request-id': '123e4567-e89b-12d3-a456-426614174000' },
+      body: { name: 'web-1', type: 'cx11' },
+    })
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] })
+  })
+
+  it('should report missing parameters and body', () => {
+    const result = validateRequest(spec, entry, { query: { dry_run: 'maybe', page: 1 } })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors.map(e => e.pointer)).toEqual(['/path/id', '/query/dry_run', '/headers/X-Request-Id', '/body'])
+    expect(result.warnings).toEqual([expect.objectContaining({ pointer: '/query/page', code: 'unknown_parameter' })])
+  })
+
+  it('should validate Hetzner create server bodies', () => {
+    const hetzner = loadSpec('hetzner/cloud.json')
+    const createServer = findOperation(hetzner, '/servers', 'post')!
+
+    const result = validateRequest(hetzner, createServer, { body: { name: 'web', image: 'ubuntu-24.04', ssh_keys: 'key' } })
+
+    expect(result.errors).toContainEqual(expect.objectContaining({ pointer: '/body/server_type', code: 'required' }))
+    expect(result.errors).toContainEqual(expect.objectContaining({ pointer: '/body/ssh_keys', code: 'type' }))
+  })
+})
+
+describe('validateResponse', () => {
+  const responseSpec: OpenAPIDocument = {
+    openapi: '3.0.3',
+    info: { title: 'Fixture', version: '1.0.0' },
+    paths: {
+      '/servers/{id}': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    required: ['server'],
+                    properties: {
+                      server: {
+                        allOf: [
+                          { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+                          { type: 'object', properties: { name: { type: 'string' } } },
+                        ],
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            '4XX': {
+              description: 'Error',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { error: { type: 'object', required: ['code'], properties: { code: { type: 'string' } } } } },
+                },
+              },
+            },
+            '204': { description: 'No content' },
+          },
+        },
+      },
+    },
+  }
+  const entry = findOperation(responseSpec, '/servers/{id}', 'get')!
+
+  it('should list undeclared fields as warnings', () => {
+    const result = validateResponse(responseSpec, entry, 200, { server: { id: 1, name: 'web', status: 'running' } })
+
+    expect(result.valid).toBe(true)
+    expect(result.matchedStatus).toBe('200')
+    expect(result.warnings).toEqual([expect.objectContaining({ pointer: '/server/status', code: 'undeclared' })])
+  })
+
+  it('should report missing fields and type mismatches', () => {
+    const result = validateResponse(responseSpec, entry, 200, { server: { id: '1' } })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([expect.objectContaining({ pointer: '/server/id', code: 'type' })])
+  })
+
+  it('should match status ranges and undeclared statuses', () => {
+    expect(validateResponse(responseSpec, entry, 404, { error: {} }).errors[0]).toMatchObject({ pointer: '/error/code', code: 'required' })
+    expect(validateResponse(responseSpec, entry, 404, { error: {} }).matchedStatus).toBe('4XX')
+    expect(validateResponse(responseSpec, entry, 500, {}).matchedStatus).toBeNull()
+    expect(validateResponse(responseSpec, entry, 204, undefined).valid).toBe(true)
+  })
+})
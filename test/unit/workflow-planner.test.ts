@@ -0,0 +1,63 @@
+import type { OpenAPIDocument } from '../../src/types'
+import { describe, expect, it } from 'vitest'
+import { findOperation } from '../../src/spec-utils'
+import { planWorkflow } from '../../src/workflow-planner'
+import { loadSpec } from '../helpers'
+
+describe('planWorkflow', () => {
+  const hetzner = loadSpec('hetzner/cloud.json')
+
+  it('should chain Hetzner server creation through its prerequisites and action polling', () => {
+    const plan = planWorkflow(hetzner, findOperation(hetzner, '/servers', 'post')!)
+
+    expect(plan.steps.map(step => [step.role, step.operation])).toEqual([
+      ['prerequisite', 'GET /server_types'],
+      ['prerequisite', 'GET /images'],
+      ['target', 'POST /servers'],
+      ['follow-up', 'GET /servers/{id}'],
+      ['follow-up', 'GET /actions/{id}'],
+    ])
+    expect(plan.steps[0]!.provides).toEqual([{ for: 'POST /servers', input: 'body.server_type', from: 'server_types[].name' }])
+    expect(plan.steps[2]!.code).toContain('    server_type: serverType,')
+    // eslint-disable-next-line no-template-curly-in-string
+    expect(plan.steps[4]!.code).toBe('const step5 = await client(`/actions/${actionId}`, {\n  method: \'GET\',\n})')
+    expect(plan.unresolved).toEqual(['body.name'])
+  })
+
+  it('should include optional fields on request', () => {
+    const plan = planWorkflow(hetzner, findOperation(hetzner, '/servers', 'post')!, { includeOptional: true, followUps: false })
+
+    expect(plan.steps.map(step => step.operation)).toContain('GET /locations')
+    expect(plan.steps.at(-1)!.role).toBe('target')
+  })
+
+  it('should resolve path parameters from list endpoints', () => {
+    const spec: OpenAPIDocument = {
+      openapi: '3.0.3',
+      info: { title: 'Fixture', version: '1.0.0' },
+      paths: {
+        '/identities': {
+          get: {
+            responses: {
+              200: {
+                description: 'OK',
+                content: { 'application/json': { schema: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } } } } } },
+              },
+            },
+          },
+        },
+        '/identities/{id}/sessions': {
+          get: { parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }], responses: {} },
+        },
+      },
+    }
+
+    const plan = planWorkflow(spec, findOperation(spec, '/identities/{id}/sessions', 'get')!)
+
+    expect(plan.steps.map(step => step.code)).toEqual([
+      'const step1 = await client(\'/identities\', {\n  method: \'GET\',\n})\nconst identityId = step1[0].id',
+      // eslint-disable-next-line no-template-curly-in-string
+      'const step2 = await client(`/identities/${identityId}/sessions`, {\n  method: \'GET\',\n})',
+    ])
+  })
+})